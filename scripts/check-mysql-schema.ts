@@ -1,35 +1,39 @@
-import { MySQLDatabase, createDatabaseFromEnv } from '../src/utils/mysql-config';
+#!/usr/bin/env ts-node
+
+import { createDatabaseFromEnv } from '../src/utils/mysql-config';
+import { SchemaDriftUtils } from '../src/utils/schema-drift';
+
+/**
+ * Fails when the scholarships table has drifted from the code: columns missing, extra,
+ * or of the wrong type compared with ScholarshipRecord and SCHOLARSHIP_FIELD_MAPPING
+ */
+async function checkMySQLSchema(): Promise<boolean> {
+  console.log('🔍 Checking scholarships table for schema drift...');
+
+  const db = await createDatabaseFromEnv();
+  await db.connect();
 
-async function checkMySQLSchema() {
-  console.log('🔍 Checking MySQL table schema...');
-  
   try {
-    const db = await createDatabaseFromEnv();
-    await db.connect();
-    
-    // Check if scholarships table exists
-    const tables = await db.query('SHOW TABLES');
-    console.log('📋 Available tables:', tables);
-    
-    // Get scholarships table schema
-    const schema = await db.query('DESCRIBE scholarships');
-    console.log('📋 Scholarships table schema:');
-    schema.forEach((column: any) => {
-      console.log(`  - ${column.Field} (${column.Type}) ${column.Null === 'YES' ? 'NULL' : 'NOT NULL'}`);
-    });
-    
-    // Check a few sample records
-    const sampleRecords = await db.query('SELECT * FROM scholarships LIMIT 3');
-    console.log('📋 Sample records:');
-    sampleRecords.forEach((record: any, index: number) => {
-      console.log(`  Record ${index + 1}:`, Object.keys(record));
-    });
-    
+    const drift = await SchemaDriftUtils.checkScholarshipSchema(db);
+    if (drift.length === 0) {
+      console.log('✅ Scholarships table matches the code');
+      return true;
+    }
+
+    console.log(`❌ Found ${drift.length} difference(s) between the code and the database:\n`);
+    console.log(SchemaDriftUtils.formatDrift(drift));
+    console.log('\n(- expected by the code, + only in the database, ~ type mismatch)');
+    return false;
+  } finally {
     await db.disconnect();
-    
-  } catch (error) {
-    console.error('❌ Error checking schema:', error);
   }
 }
 
-checkMySQLSchema(); 
\ No newline at end of file
+if (require.main === module) {
+  checkMySQLSchema()
+    .then(matches => process.exit(matches ? 0 : 1))
+    .catch((error) => {
+      console.error('❌ Error checking schema:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,96 @@
+#!/usr/bin/env ts-node
+
+import * as fs from 'fs';
+import { RobotsTxtCache } from '../src/utils/robots-txt';
+import { httpClient } from '../src/utils/http-client';
+import { ConfigUtils } from '../src/utils/helper';
+import { USER_AGENT } from '../src/utils/constants';
+
+function printUsage(): void {
+  console.log(`Usage: ts-node scripts/check-robots-txt.ts [options] <url>...
+
+Checks whether the scrapers may fetch each URL under its host's robots.txt.
+
+Options:
+  --file <robots.txt>  Evaluate every URL against this file instead of fetching
+                       each host's robots.txt (works offline, e.g. on fixtures)
+  --agent <ua>         User agent to match groups for (default: searchConfig.userAgent)`);
+}
+
+function parseArgs(argv: string[]): { urls: string[]; file: string | null; agent: string | null } {
+  const urls: string[] = [];
+  let file: string | null = null;
+  let agent: string | null = null;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--file':
+        file = value;
+        i++;
+        break;
+      case '--agent':
+        agent = value;
+        i++;
+        break;
+      case '--help':
+      case '-h':
+        printUsage();
+        process.exit(0);
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        urls.push(arg);
+    }
+  }
+
+  if (urls.length === 0) {
+    throw new Error('At least one URL is required');
+  }
+  return { urls, file, agent };
+}
+
+function defaultUserAgent(): string {
+  try {
+    return ConfigUtils.loadConfigFile('scraper-config.json').searchConfig?.userAgent || USER_AGENT;
+  } catch {
+    return USER_AGENT;
+  }
+}
+
+async function checkRobotsTxt(): Promise<boolean> {
+  const { urls, file, agent } = parseArgs(process.argv.slice(2));
+  const userAgent = agent || defaultUserAgent();
+
+  const robots = new RobotsTxtCache(async url => {
+    if (file) {
+      return { status: 200, body: fs.readFileSync(file, 'utf8') };
+    }
+    const response = await httpClient.request(url, { maxRetries: 1 });
+    return { status: response.status, body: response.body };
+  }, userAgent);
+
+  console.log(`🤖 Checking ${urls.length} URL(s) as "${userAgent}"${file ? ` against ${file}` : ''}\n`);
+
+  let allAllowed = true;
+  for (const url of urls) {
+    const allowed = await robots.isAllowed(url);
+    const { crawlDelaySeconds } = await robots.policyFor(url);
+    allAllowed = allAllowed && allowed;
+    console.log(`${allowed ? '✅ allowed' : '🚫 blocked'}  ${url}${crawlDelaySeconds !== null ? ` (crawl-delay ${crawlDelaySeconds}s)` : ''}`);
+  }
+
+  return allAllowed;
+}
+
+if (require.main === module) {
+  checkRobotsTxt()
+    .then(allAllowed => process.exit(allAllowed ? 0 : 1))
+    .catch((error) => {
+      console.error('❌ Error checking robots.txt:', error instanceof Error ? error.message : error);
+      process.exit(2);
+    });
+}
@@ -1,91 +1,32 @@
 #!/usr/bin/env ts-node
 
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
-import { ScholarshipUtils } from '../src/utils/helper';
+import { createDatabaseFromEnv } from '../src/utils/mysql-config';
+import { ScholarshipRepository } from '../src/utils/scholarship-repository';
 
 // Configuration
 const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
-const TABLE_NAME = `scholarships-${ENVIRONMENT}`;
-
-// Initialize DynamoDB client
-const dynamoClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
 
+/**
+ * Deactivates scholarships whose fixed deadline has passed. Rows are kept (and
+ * stay searchable with includeInactive) so history and provenance survive.
+ */
 async function cleanupExpiredScholarships(): Promise<void> {
-  console.log(`🧹 Cleaning up expired scholarships from table: ${TABLE_NAME}`);
+  console.log('🧹 Deactivating expired scholarships');
   console.log(`Environment: ${ENVIRONMENT}`);
 
-  try {
-    let totalScanned = 0;
-    let expiredFound = 0;
-    let deletedCount = 0;
-    let lastEvaluatedKey: any = undefined;
-
-    do {
-      console.log(`\n📋 Scanning batch ${Math.floor(totalScanned / 1000) + 1}...`);
-      
-      const scanCommand = new ScanCommand({
-        TableName: TABLE_NAME,
-        Limit: 1000,
-        ExclusiveStartKey: lastEvaluatedKey,
-      });
-
-      const response = await docClient.send(scanCommand);
-      const items = response.Items || [];
-      totalScanned += items.length;
-
-      console.log(`📊 Scanned ${items.length} items in this batch`);
-
-      // Process items in parallel for better performance
-      const deletePromises: Promise<void>[] = [];
-      
-      for (const item of items) {
-        if (item.deadline && ScholarshipUtils.isDeadlineExpired(item.deadline)) {
-          expiredFound++;
-          console.log(`🗑️  Found expired scholarship: ${item.name} (deadline: ${item.deadline})`);
-          
-          const deletePromise = docClient.send(new DeleteCommand({
-            TableName: TABLE_NAME,
-            Key: {
-              id: item.id,
-              deadline: item.deadline,
-            },
-          })).then(() => {
-            deletedCount++;
-          }).catch((error) => {
-            console.error(`❌ Error deleting expired scholarship ${item.name}:`, error);
-          });
-          
-          deletePromises.push(deletePromise);
-        }
-      }
+  const db = await createDatabaseFromEnv();
+  await db.connect();
 
-      // Wait for all deletions to complete
-      if (deletePromises.length > 0) {
-        console.log(`🔄 Deleting ${deletePromises.length} expired scholarships...`);
-        await Promise.all(deletePromises);
-      }
-
-      lastEvaluatedKey = response.LastEvaluatedKey;
-
-      // Add a small delay to avoid overwhelming the database
-      if (lastEvaluatedKey) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-
-    } while (lastEvaluatedKey);
+  try {
+    const deactivated = await new ScholarshipRepository(db).deactivateExpired();
 
     console.log('\n🎉 Cleanup completed!');
-    console.log(`📊 Summary:`);
-    console.log(`   - Total items scanned: ${totalScanned}`);
-    console.log(`   - Expired scholarships found: ${expiredFound}`);
-    console.log(`   - Successfully deleted: ${deletedCount}`);
-    console.log(`   - Failed deletions: ${expiredFound - deletedCount}`);
-
+    console.log(`📊 Expired scholarships deactivated: ${deactivated}`);
   } catch (error) {
     console.error('❌ Error during cleanup:', error);
     throw error;
+  } finally {
+    await db.disconnect();
   }
 }
 
@@ -102,4 +43,4 @@ if (require.main === module) {
     });
 }
 
-export { cleanupExpiredScholarships }; 
\ No newline at end of file
+export { cleanupExpiredScholarships };
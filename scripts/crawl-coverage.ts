@@ -0,0 +1,36 @@
+#!/usr/bin/env ts-node
+
+import { createDatabaseFromEnv } from '../src/utils/mysql-config';
+import { CrawlFrontier } from '../src/utils/crawl-frontier';
+
+async function reportCrawlCoverage() {
+  console.log('🧭 Checking catalog coverage per source...');
+
+  const db = await createDatabaseFromEnv();
+  await db.connect();
+
+  try {
+    const coverage = await CrawlFrontier.listCoverage(db);
+
+    if (coverage.length === 0) {
+      console.log('📋 No crawl frontiers recorded yet');
+      return;
+    }
+
+    coverage.forEach(source => {
+      const percent = source.coveragePercent === null ? 'unknown (catalog size not reached yet)' : `${source.coveragePercent}%`;
+      console.log(`\n📚 ${source.source}`);
+      console.log(`   Coverage this pass: ${source.pagesVisited}/${source.catalogPages ?? '?'} pages, ${percent}`);
+      console.log(`   Completed passes: ${source.cycle}`);
+      console.log(`   Last page reached: ${source.lastPageReached ?? 'none'}  Next page: ${source.nextPage}`);
+      console.log(`   Updated: ${source.updatedAt}`);
+    });
+  } finally {
+    await db.disconnect();
+  }
+}
+
+reportCrawlCoverage().catch(error => {
+  console.error('❌ Error reporting crawl coverage:', error);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+#!/usr/bin/env ts-node
+
+import { listScrapingJobs, JobQueryFilter, ScrapingJobSummary } from '../src/utils/job-store';
+import { ScrapingJobStatus } from '../src/utils/types';
+
+const STATUSES: ScrapingJobStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+function printUsage(): void {
+  console.log(`Usage: ts-node scripts/list-scraping-jobs.ts [options]
+
+Options:
+  --website <name>     Only jobs for this website
+  --status <status>    One of: ${STATUSES.join(', ')}
+  --since <date>       Jobs started on or after this date (e.g. 2025-01-01)
+  --until <date>       Jobs started on or before this date
+  --limit <n>          Maximum number of jobs to show (default 50)
+  --errors             Print each job's error messages
+  --json               Print raw JSON instead of a table
+
+The jobs store is selected by JOB_STORE (dynamodb, mysql or memory).`);
+}
+
+function parseArgs(argv: string[]): { filter: JobQueryFilter; showErrors: boolean; json: boolean } {
+  const filter: JobQueryFilter = {};
+  let showErrors = false;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--website':
+        filter.website = value;
+        i++;
+        break;
+      case '--status':
+        if (!STATUSES.includes(value as ScrapingJobStatus)) {
+          throw new Error(`Invalid status "${value}". Expected one of: ${STATUSES.join(', ')}`);
+        }
+        filter.status = value as ScrapingJobStatus;
+        i++;
+        break;
+      case '--since':
+      case '--until':
+        if (!value || isNaN(new Date(value).getTime())) {
+          throw new Error(`Invalid date for ${arg}: ${value}`);
+        }
+        filter[arg === '--since' ? 'since' : 'until'] = new Date(value).toISOString();
+        i++;
+        break;
+      case '--limit':
+        filter.limit = parseInt(value, 10);
+        if (isNaN(filter.limit) || filter.limit < 1) {
+          throw new Error(`Invalid limit: ${value}`);
+        }
+        i++;
+        break;
+      case '--errors':
+        showErrors = true;
+        break;
+      case '--json':
+        json = true;
+        break;
+      case '--help':
+      case '-h':
+        printUsage();
+        process.exit(0);
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return { filter, showErrors, json };
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return 'in progress';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function printJob(job: ScrapingJobSummary, showErrors: boolean): void {
+  const statusIcon = { pending: '⏳', running: '🔄', completed: '✅', failed: '❌' }[job.status];
+
+  console.log(`${statusIcon} ${job.jobId}`);
+  console.log(`   Website: ${job.website}${job.parentJobId ? ` (parent ${job.parentJobId})` : ''}`);
+  console.log(`   Started: ${job.startTime}  Duration: ${formatDuration(job.durationSeconds)}`);
+  console.log(`   Found: ${job.recordsFound}  Processed: ${job.recordsProcessed}  Inserted: ${job.recordsInserted}  Updated: ${job.recordsUpdated}  Unchanged: ${job.recordsUnchanged ?? 0}  Errors: ${job.errorCount}`);
+
+  if (job.childJobIds && job.childJobIds.length > 0) {
+    console.log(`   Child jobs: ${job.childJobIds.join(', ')}`);
+  }
+
+  if (showErrors) {
+    job.errors.forEach(error => console.log(`   ⚠️  ${error}`));
+  }
+}
+
+async function main(): Promise<void> {
+  const { filter, showErrors, json } = parseArgs(process.argv.slice(2));
+  const jobs = await listScrapingJobs(filter);
+
+  if (json) {
+    console.log(JSON.stringify(jobs, null, 2));
+    return;
+  }
+
+  if (jobs.length === 0) {
+    console.log('📋 No scraping jobs found');
+    return;
+  }
+
+  console.log(`📋 ${jobs.length} scraping job(s)\n`);
+  jobs.forEach(job => {
+    printJob(job, showErrors);
+    console.log('');
+  });
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Error listing scraping jobs:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
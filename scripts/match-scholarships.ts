@@ -0,0 +1,137 @@
+#!/usr/bin/env ts-node
+
+import * as fs from 'fs';
+import { createDatabaseFromEnv } from '../src/utils/mysql-config';
+import {
+  ScholarshipMatcher,
+  ScholarshipMatch,
+  StudentProfile,
+  MatchOptions,
+  DEFAULT_MATCH_LIMIT
+} from '../src/utils/scholarship-matcher';
+
+function printUsage(): void {
+  console.log(`Usage: ts-node scripts/match-scholarships.ts --profile <file.json> [options]
+
+Options:
+  --profile <file>     Student profile JSON (state, gpa, majors, academicLevel, citizenship,
+                       enrollmentStatus, firstGeneration, militaryAffiliation, disability,
+                       gender, ethnicity, financialNeed, testScores)
+  --limit <n>          Maximum number of matches to show (default ${DEFAULT_MATCH_LIMIT})
+  --excluded           Also show scholarships a hard constraint ruled out
+  --json               Print raw JSON instead of a list`);
+}
+
+function parseArgs(argv: string[]): { profilePath: string; options: MatchOptions; json: boolean } {
+  let profilePath = '';
+  const options: MatchOptions = {};
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--profile':
+        profilePath = value;
+        i++;
+        break;
+      case '--limit':
+        options.limit = parseInt(value, 10);
+        if (isNaN(options.limit) || options.limit < 1) {
+          throw new Error(`Invalid limit: ${value}`);
+        }
+        i++;
+        break;
+      case '--excluded':
+        options.includeExcluded = true;
+        break;
+      case '--json':
+        json = true;
+        break;
+      case '--help':
+      case '-h':
+        printUsage();
+        process.exit(0);
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!profilePath) {
+    throw new Error('Missing --profile <file.json>');
+  }
+
+  return { profilePath, options, json };
+}
+
+function formatAward(match: ScholarshipMatch): string {
+  const { minAward, maxAward, awardCurrency } = match;
+  const format = (amount: number) => amount.toLocaleString('en-US');
+
+  if (minAward === null && maxAward === null) {
+    return 'varies';
+  }
+  if (maxAward === null) {
+    return `${format(minAward!)}+ ${awardCurrency}`;
+  }
+  if (minAward === null) {
+    return `up to ${format(maxAward)} ${awardCurrency}`;
+  }
+  return `${minAward !== maxAward ? `${format(minAward)} - ` : ''}${format(maxAward)} ${awardCurrency}`;
+}
+
+function printMatch(match: ScholarshipMatch): void {
+  const award = formatAward(match);
+
+  console.log(`${match.eligible ? '✅' : '🚫'} ${match.name} (score ${match.score})`);
+  console.log(`   Award: ${award}  Deadline: ${match.deadline ?? match.deadlineType}`);
+  if (match.url) {
+    console.log(`   ${match.url}`);
+  }
+
+  match.reasons.forEach(reason => {
+    const icon = { met: '✔', failed: '✘', unknown: '?' }[reason.outcome];
+    const points = reason.points !== 0 ? ` (${reason.points > 0 ? '+' : ''}${reason.points})` : '';
+    console.log(`   ${icon} [${reason.kind}] ${reason.criterion}: ${reason.detail}${points}`);
+  });
+}
+
+async function main(): Promise<void> {
+  const { profilePath, options, json } = parseArgs(process.argv.slice(2));
+  const profile: StudentProfile = JSON.parse(fs.readFileSync(profilePath, 'utf8'));
+
+  const db = await createDatabaseFromEnv();
+  await db.connect();
+
+  try {
+    const matches = await new ScholarshipMatcher(db).match(profile, options);
+
+    if (json) {
+      console.log(JSON.stringify(matches, null, 2));
+      return;
+    }
+
+    if (matches.length === 0) {
+      console.log('🎓 No matching scholarships found');
+      return;
+    }
+
+    console.log(`🎓 ${matches.filter(match => match.eligible).length} matching scholarship(s)\n`);
+    matches.forEach(match => {
+      printMatch(match);
+      console.log('');
+    });
+  } finally {
+    await db.disconnect();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Error matching scholarships:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
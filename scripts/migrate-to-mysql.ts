@@ -3,6 +3,8 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
 import { MySQLDatabase, createDatabaseFromEnv } from '../src/utils/mysql-config';
+import { DeadlineUtils } from '../src/utils/deadline-utils';
+import { AcademicLevelUtils } from '../src/utils/academic-level-utils';
 import { ScholarshipUtils } from '../src/utils/helper';
 
 // Configuration
@@ -83,10 +85,11 @@ async function migrateScholarships(): Promise<void> {
 }
 
 async function migrateScholarshipItem(item: any): Promise<void> {
-  // Check if scholarship already exists in MySQL
+  // DynamoDB ids have no column in MySQL, so rows are matched by fingerprint
+  const fingerprint = ScholarshipUtils.createScholarshipFingerprint(item.name, item.organization, item.url);
   const existing = await mysqlDb.queryOne(
-    'SELECT scholarship_id FROM scholarships WHERE scholarship_id = ?',
-    [item.id]
+    'SELECT scholarship_id FROM scholarships WHERE fingerprint = ?',
+    [fingerprint]
   );
 
   if (existing) {
@@ -95,27 +98,29 @@ async function migrateScholarshipItem(item: any): Promise<void> {
   }
 
   // Filter out expired scholarships
-  if (item.deadline && ScholarshipUtils.isDeadlineExpired(item.deadline)) {
+  if (item.deadline && DeadlineUtils.isDeadlineExpired(item.deadline)) {
     console.log(`⏭️  Skipping expired scholarship: ${item.name} (deadline: ${item.deadline})`);
     return;
   }
 
   // Transform DynamoDB item to MySQL format
   const mysqlItem = {
-    id: item.id,
+    fingerprint,
     name: item.name || '',
     deadline: item.deadline || null,
     url: item.url || null,
     description: item.description || null,
     eligibility: item.eligibility || null,
     organization: item.organization || null,
-    academic_level: item.academicLevel || null,
+    academic_level: AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(item.academicLevel)) || null,
     geographic_restrictions: item.geographicRestrictions || null,
     target_type: item.targetType || 'both',
     ethnicity: item.ethnicity || 'unspecified',
     gender: item.gender || 'unspecified',
-    min_award: item.minAward || 0,
-    max_award: item.maxAward || 0,
+    // DynamoDB items stored an unknown amount as 0
+    min_award: item.minAward || null,
+    max_award: item.maxAward || null,
+    award_varies: item.awardVaries ?? (!item.minAward && !item.maxAward),
     renewable: item.renewable || false,
     country: item.country || 'US',
     apply_url: item.applyUrl || null,
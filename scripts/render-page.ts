@@ -0,0 +1,86 @@
+#!/usr/bin/env ts-node
+
+import * as fs from 'fs';
+import { httpClient } from '../src/utils/http-client';
+
+function printUsage(): void {
+  console.log(`Usage: ts-node scripts/render-page.ts [options] <url>
+
+Loads a page in headless Chromium as a website with fetch_mode 'browser' would, and
+prints the DOM the scraper's parser receives.
+
+Options:
+  --wait-for <selector>  CSS selector the page must match before its DOM is read
+  --out <file>           Write the DOM to this file instead of stdout
+  --http                 Fetch over plain HTTP instead, to compare with the rendered DOM`);
+}
+
+function parseArgs(argv: string[]): { url: string; waitFor: string | null; out: string | null; http: boolean } {
+  let url: string | null = null;
+  let waitFor: string | null = null;
+  let out: string | null = null;
+  let http = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--wait-for':
+        waitFor = value;
+        i++;
+        break;
+      case '--out':
+        out = value;
+        i++;
+        break;
+      case '--http':
+        http = true;
+        break;
+      case '--help':
+      case '-h':
+        printUsage();
+        process.exit(0);
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        url = arg;
+    }
+  }
+
+  if (!url) {
+    throw new Error('A URL is required');
+  }
+  return { url, waitFor, out, http };
+}
+
+async function renderPage(): Promise<void> {
+  const { url, waitFor, out, http } = parseArgs(process.argv.slice(2));
+
+  try {
+    const response = await httpClient.request(url, {
+      render: http ? null : { waitForSelector: waitFor },
+      maxRetries: 0,
+    });
+    console.error(`🖥️ ${response.url} -> HTTP ${response.status}, ${response.metrics.bytes} bytes in ${response.metrics.durationMs}ms`);
+
+    if (out) {
+      fs.writeFileSync(out, response.body);
+      console.error(`💾 DOM written to ${out}`);
+    } else {
+      console.log(response.body);
+    }
+  } finally {
+    await httpClient.close();
+  }
+}
+
+if (require.main === module) {
+  renderPage()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Error rendering page:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
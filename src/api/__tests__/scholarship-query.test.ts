@@ -0,0 +1,140 @@
+import { MAX_PAGE_SIZE, parseScholarshipQuery, searchScholarships, ScholarshipQuery } from '../scholarship-query';
+
+function parse(query: string): ScholarshipQuery {
+  return parseScholarshipQuery(new URLSearchParams(query));
+}
+
+describe('parseScholarshipQuery', () => {
+  it('defaults to the first page sorted by deadline, hiding expired scholarships', () => {
+    expect(parse('')).toEqual({
+      includeExpired: false,
+      page: 1,
+      pageSize: 20,
+      sort: 'deadline',
+      order: 'asc',
+      minAmount: undefined,
+      maxAmount: undefined,
+      deadlineFrom: undefined,
+      deadlineTo: undefined,
+    });
+  });
+
+  it.each([
+    ['page=3&pageSize=50', { page: 3, pageSize: 50 }],
+    [`pageSize=${MAX_PAGE_SIZE}`, { pageSize: MAX_PAGE_SIZE }],
+    ['minAmount=500&maxAmount=2500.50', { minAmount: 500, maxAmount: 2500.5 }],
+    ['minAmount=0', { minAmount: 0 }],
+    ['minAmount=', { minAmount: undefined }],
+    ['deadlineFrom=2026-11-01&deadlineTo=2027-03-31', { deadlineFrom: '2026-11-01', deadlineTo: '2027-03-31' }],
+    ['targetType=need', { targetType: 'need' }],
+    ['state=oh', { state: 'OH' }],
+    ['academicLevel=masters', { academicLevels: ['masters'] }],
+    ['academicLevel=College%20Junior&academicLevel=doctoral', { academicLevels: ['undergraduate_junior', 'doctoral'] }],
+    ['includeExpired=true', { includeExpired: true }],
+    ['sort=amount&order=desc', { sort: 'amount', order: 'desc' }],
+    ['q=%20nursing%20', { keyword: 'nursing', sort: 'relevance', order: 'desc' }],
+    ['q=nursing&sort=deadline', { keyword: 'nursing', sort: 'deadline', order: 'asc' }],
+  ])('reads %s', (query, expected) => {
+    expect(parse(query)).toMatchObject(expected);
+  });
+
+  it.each([
+    ['page=0', 'Invalid page: 0'],
+    ['page=1.5', 'Invalid page: 1.5'],
+    ['page=-2', 'Invalid page: -2'],
+    ['pageSize=0', 'Invalid pageSize: 0'],
+    [`pageSize=${MAX_PAGE_SIZE + 1}`, `Invalid pageSize: ${MAX_PAGE_SIZE + 1}`],
+    ['minAmount=-100', 'Invalid minAmount: -100'],
+    ['minAmount=lots', 'Invalid minAmount: lots'],
+    ['maxAmount=Infinity', 'Invalid maxAmount: Infinity'],
+    ['maxAmount=1e9', 'Invalid maxAmount: 1e9'],
+    ['maxAmount=0x10', 'Invalid maxAmount: 0x10'],
+    ['maxAmount=%20', 'Invalid maxAmount:  '],
+    ['deadlineFrom=11/01/2026', 'Invalid deadlineFrom: 11/01/2026'],
+    ['deadlineTo=2026-13-45', 'Invalid deadlineTo: 2026-13-45'],
+    ['targetType=athletic', 'Invalid targetType "athletic"'],
+    ['state=Ohio', 'Invalid state "Ohio"'],
+    ["state=O'", 'Invalid state'],
+    ['academicLevel=astronaut', 'Unknown academicLevel: astronaut'],
+    ['sort=max_award', 'Invalid sort "max_award"'],
+    ['sort=name;DROP%20TABLE%20scholarships', 'Invalid sort'],
+    ['sort=relevance', 'sort=relevance requires a q keyword search'],
+    ['order=DESC', 'Invalid order "DESC"'],
+  ])('rejects %s', (query, message) => {
+    expect(() => parse(query)).toThrow(message);
+  });
+});
+
+describe('searchScholarships', () => {
+  let statements: Array<{ sql: string; params: any[] }>;
+  let db: any;
+
+  beforeEach(() => {
+    statements = [];
+    const record = async (sql: string, params: any[]) => {
+      statements.push({ sql: sql.replace(/\s+/g, ' ').trim(), params });
+    };
+    db = {
+      queryOne: jest.fn(async (sql: string, params: any[]) => {
+        await record(sql, params);
+        return { total: 45 };
+      }),
+      query: jest.fn(async (sql: string, params: any[]) => {
+        await record(sql, params);
+        return [{ scholarship_id: 7, name: 'Future Nurses Scholarship', description: 'For nursing students in Ohio', relevance: '1.5' }];
+      }),
+    };
+  });
+
+  function selectStatement() {
+    return statements.find(statement => statement.sql.startsWith('SELECT s.*'))!;
+  }
+
+  it('binds every filter value as a parameter and pages with validated integers', async () => {
+    const result = await searchScholarships(db, parse(
+      'targetType=merit&state=tx&minAmount=1000&maxAmount=5000&deadlineFrom=2026-11-01&academicLevel=masters&page=3&pageSize=20'
+    ));
+
+    const { sql, params } = selectStatement();
+    expect(sql).toContain('s.target_type = ?');
+    expect(sql).toContain('r.state_code = ?');
+    expect(sql).toContain('(s.max_award IS NULL OR s.max_award >= ?)');
+    expect(sql).toContain('(s.min_award IS NULL OR s.min_award <= ?)');
+    expect(sql).toContain('s.deadline >= ?');
+    expect(sql).toContain('l.academic_level IN (?)');
+    expect(sql).toMatch(/ORDER BY s\.deadline IS NULL, s\.deadline ASC, s\.scholarship_id ASC LIMIT 20 OFFSET 40$/);
+    expect(params).toEqual(['masters', 'merit', 'TX', 1000, 5000, '2026-11-01']);
+    expect(result.pagination).toEqual({ page: 3, pageSize: 20, total: 45, totalPages: 3 });
+  });
+
+  it('counts with the same conditions and parameters as the page it returns', async () => {
+    await searchScholarships(db, parse('targetType=need&minAmount=250'));
+
+    const count = statements.find(statement => statement.sql.startsWith('SELECT COUNT(*)'))!;
+    expect(count.sql.split(' WHERE ')[1]).toBe(selectStatement().sql.split(' WHERE ')[1].split(' ORDER BY ')[0]);
+    expect(count.params).toEqual(selectStatement().params);
+  });
+
+  it('ranks a keyword search by relevance and returns highlighted snippets', async () => {
+    const result = await searchScholarships(db, parse('q=nursing%20Ohio'));
+
+    const { sql, params } = selectStatement();
+    expect(sql).toContain('AGAINST (? IN NATURAL LANGUAGE MODE) AS relevance');
+    expect(sql).toContain('ORDER BY relevance DESC, s.scholarship_id ASC');
+    expect(params).toEqual(['nursing ohio', '+nursing* +ohio*']);
+    expect(result.data[0]).toMatchObject({
+      scholarshipId: 7,
+      relevance: 1.5,
+      snippet: 'For <mark>nursing</mark> students in <mark>Ohio</mark>',
+    });
+  });
+
+  it('falls back to an escaped LIKE search for keywords the index cannot match', async () => {
+    await searchScholarships(db, parse('q=50%25_of'));
+
+    const { sql, params } = selectStatement();
+    expect(sql).not.toContain('AGAINST');
+    expect(sql).toContain('s.name LIKE ?');
+    expect(params).toEqual(Array(4).fill('%50\\%\\_of%'));
+  });
+});
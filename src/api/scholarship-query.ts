@@ -0,0 +1,354 @@
+import { MySQLDatabase, SCHOLARSHIP_FIELD_MAPPING } from '../utils/mysql-config';
+import { AcademicLevel, AcademicLevelUtils } from '../utils/academic-level-utils';
+import { SearchUtils } from '../utils/search-utils';
+
+export type ScholarshipSortField = 'relevance' | 'deadline' | 'amount' | 'name' | 'updated';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ScholarshipQuery {
+  keyword?: string;
+  academicLevels?: AcademicLevel[];
+  targetType?: 'need' | 'merit' | 'both';
+  state?: string; // USPS code; matches scholarships open to that state, including unrestricted ones
+  minAmount?: number; // Scholarships that can award at least this much
+  maxAmount?: number; // Scholarships whose smallest award is at most this much
+  deadlineFrom?: string; // YYYY-MM-DD
+  deadlineTo?: string; // YYYY-MM-DD
+  includeExpired: boolean;
+  page: number;
+  pageSize: number;
+  sort: ScholarshipSortField;
+  order: SortOrder;
+}
+
+export interface ScholarshipPage {
+  data: Record<string, any>[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const TARGET_TYPES = ['need', 'merit', 'both'];
+
+const SORT_COLUMNS: Record<ScholarshipSortField, string> = {
+  relevance: 'relevance',
+  deadline: 'deadline',
+  amount: 'max_award',
+  name: 'name',
+  updated: 'updated_at',
+};
+
+// Columns returned by the API, keyed by their camelCase name
+const INTERNAL_FIELDS = ['fingerprint', 'jobId'];
+const COLUMN_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(SCHOLARSHIP_FIELD_MAPPING)
+    .filter(([field]) => !INTERNAL_FIELDS.includes(field))
+    .map(([field, column]) => [column, field])
+);
+
+const NUMERIC_COLUMNS = ['min_award', 'max_award', 'min_gpa'];
+const BOOLEAN_COLUMNS = ['award_varies', 'renewable', 'is_active', 'essay_required', 'recommendations_required', 'first_generation', 'disability'];
+const SET_COLUMNS = ['non_monetary_awards', 'citizenship', 'enrollment_status', 'military_affiliation'];
+
+function parseNumber(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+
+  // Plain decimals only: Number() would also take ' ' as 0 and 'Infinity', '1e9' or '0x10'
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseDate(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid ${name}: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+function formatDate(value: any): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Reads search parameters from a request's query string
+ * @param params - Query string (q, academicLevel, targetType, state, minAmount, maxAmount,
+ *   deadlineFrom, deadlineTo, includeExpired, page, pageSize, sort, order)
+ * @returns The validated query; throws on invalid values
+ */
+export function parseScholarshipQuery(params: URLSearchParams): ScholarshipQuery {
+  const query: ScholarshipQuery = {
+    includeExpired: params.get('includeExpired') === 'true',
+    page: 1,
+    pageSize: DEFAULT_PAGE_SIZE,
+    sort: 'deadline',
+    order: 'asc',
+  };
+
+  const keyword = params.get('q')?.trim();
+  if (keyword) {
+    query.keyword = keyword;
+  }
+
+  // Accepts taxonomy values ("masters") or free text ("graduate")
+  const academicLevel = params.getAll('academicLevel').join(',');
+  if (academicLevel) {
+    query.academicLevels = AcademicLevelUtils.normalizeAcademicLevels(academicLevel);
+    if (query.academicLevels.length === 0) {
+      throw new Error(`Unknown academicLevel: ${academicLevel}`);
+    }
+  }
+
+  const targetType = params.get('targetType');
+  if (targetType) {
+    if (!TARGET_TYPES.includes(targetType)) {
+      throw new Error(`Invalid targetType "${targetType}". Expected one of: ${TARGET_TYPES.join(', ')}`);
+    }
+    query.targetType = targetType as ScholarshipQuery['targetType'];
+  }
+
+  const state = params.get('state');
+  if (state) {
+    if (!/^[A-Za-z]{2}$/.test(state)) {
+      throw new Error(`Invalid state "${state}". Expected a two-letter code`);
+    }
+    query.state = state.toUpperCase();
+  }
+
+  query.minAmount = parseNumber(params, 'minAmount');
+  query.maxAmount = parseNumber(params, 'maxAmount');
+  query.deadlineFrom = parseDate(params, 'deadlineFrom');
+  query.deadlineTo = parseDate(params, 'deadlineTo');
+
+  const page = parseNumber(params, 'page');
+  if (page !== undefined) {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error(`Invalid page: ${page}`);
+    }
+    query.page = page;
+  }
+
+  const pageSize = parseNumber(params, 'pageSize');
+  if (pageSize !== undefined) {
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new Error(`Invalid pageSize: ${pageSize} (1-${MAX_PAGE_SIZE})`);
+    }
+    query.pageSize = pageSize;
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (!(sort in SORT_COLUMNS)) {
+      throw new Error(`Invalid sort "${sort}". Expected one of: ${Object.keys(SORT_COLUMNS).join(', ')}`);
+    }
+    if (sort === 'relevance' && !query.keyword) {
+      throw new Error('sort=relevance requires a q keyword search');
+    }
+    query.sort = sort as ScholarshipSortField;
+  } else if (query.keyword) {
+    query.sort = 'relevance';
+  }
+
+  const order = params.get('order');
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error(`Invalid order "${order}". Expected asc or desc`);
+    }
+    query.order = order;
+  } else if (query.sort === 'relevance') {
+    query.order = 'desc';
+  }
+
+  return query;
+}
+
+function buildWhereClause(query: ScholarshipQuery): { sql: string; params: any[] } {
+  const conditions: string[] = ['s.is_active = TRUE'];
+  const params: any[] = [];
+
+  if (!query.includeExpired) {
+    // Recurring deadlines roll over to next year, so only fixed dates expire
+    conditions.push(`NOT (s.deadline_type = 'fixed' AND s.deadline < CURDATE())`);
+  }
+
+  const booleanQuery = SearchUtils.toBooleanQuery(query.keyword);
+  if (booleanQuery) {
+    conditions.push(`${SearchUtils.matchExpression('s')} AGAINST (? IN BOOLEAN MODE)`);
+    params.push(booleanQuery);
+  } else if (query.keyword) {
+    // Stopwords and words shorter than the index's minimum token size can't use FULLTEXT
+    const pattern = `%${query.keyword.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    conditions.push('(s.name LIKE ? OR s.organization LIKE ? OR s.description LIKE ? OR s.eligibility LIKE ?)');
+    params.push(pattern, pattern, pattern, pattern);
+  }
+
+  if (query.academicLevels && query.academicLevels.length > 0) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM scholarship_academic_levels l
+               WHERE l.scholarship_id = s.scholarship_id AND l.academic_level IN (${query.academicLevels.map(() => '?').join(', ')}))`
+    );
+    params.push(...query.academicLevels);
+  }
+
+  if (query.targetType) {
+    conditions.push('s.target_type = ?');
+    params.push(query.targetType);
+  }
+
+  if (query.state) {
+    conditions.push(
+      `(NOT EXISTS (SELECT 1 FROM scholarship_residency_states r WHERE r.scholarship_id = s.scholarship_id)
+        OR EXISTS (SELECT 1 FROM scholarship_residency_states r WHERE r.scholarship_id = s.scholarship_id AND r.state_code = ?))`
+    );
+    params.push(query.state);
+  }
+
+  if (query.minAmount !== undefined) {
+    // A missing bound is unknown, not 0: such awards might still be large enough
+    conditions.push('(s.max_award IS NULL OR s.max_award >= ?)');
+    params.push(query.minAmount);
+  }
+
+  if (query.maxAmount !== undefined) {
+    conditions.push('(s.min_award IS NULL OR s.min_award <= ?)');
+    params.push(query.maxAmount);
+  }
+
+  if (query.deadlineFrom) {
+    conditions.push('s.deadline >= ?');
+    params.push(query.deadlineFrom);
+  }
+
+  if (query.deadlineTo) {
+    conditions.push('s.deadline <= ?');
+    params.push(query.deadlineTo);
+  }
+
+  return { sql: conditions.join(' AND '), params };
+}
+
+/**
+ * Converts a scholarships row into the API's camelCase representation
+ */
+export function toApiScholarship(row: Record<string, any>): Record<string, any> {
+  const scholarship: Record<string, any> = {};
+
+  Object.entries(row).forEach(([column, value]) => {
+    const field = COLUMN_NAMES[column];
+    if (!field) return;
+
+    if (column === 'deadline') {
+      scholarship[field] = formatDate(value);
+    } else if (NUMERIC_COLUMNS.includes(column)) {
+      scholarship[field] = value === null ? null : Number(value);
+    } else if (BOOLEAN_COLUMNS.includes(column)) {
+      scholarship[field] = Boolean(value);
+    } else if (SET_COLUMNS.includes(column)) {
+      scholarship[field] = value ? String(value).split(',') : [];
+    } else if (column === 'academic_level') {
+      scholarship[field] = AcademicLevelUtils.normalizeAcademicLevels(value);
+    } else {
+      scholarship[field] = value;
+    }
+  });
+
+  return scholarship;
+}
+
+/**
+ * Searches active scholarships. Keyword searches use the FULLTEXT index, sort by relevance
+ * unless another sort is requested, and return a highlighted snippet per result.
+ * @returns One page of matching scholarships and the pagination totals
+ */
+export async function searchScholarships(db: MySQLDatabase, query: ScholarshipQuery): Promise<ScholarshipPage> {
+  const where = buildWhereClause(query);
+  const direction = query.order.toUpperCase();
+  // LIMIT values are validated integers; prepared statements reject them as parameters
+  const offset = (query.page - 1) * query.pageSize;
+
+  let select = 's.*';
+  let selectParams: any[] = [];
+  let orderBy: string;
+  if (query.sort === 'relevance') {
+    const terms = SearchUtils.searchTerms(query.keyword);
+    if (terms.length > 0) {
+      select = `s.*, ${SearchUtils.matchExpression('s')} AGAINST (? IN NATURAL LANGUAGE MODE) AS relevance`;
+      selectParams = [terms.join(' ')];
+    }
+    orderBy = terms.length > 0 ? `relevance ${direction}, s.scholarship_id ASC` : 's.scholarship_id ASC';
+  } else {
+    const column = SORT_COLUMNS[query.sort];
+    // Scholarships without a deadline or amount sort last in either direction
+    orderBy = `s.${column} IS NULL, s.${column} ${direction}, s.scholarship_id ASC`;
+  }
+
+  const [countRow, rows] = await Promise.all([
+    db.queryOne<{ total: number }>(`SELECT COUNT(*) AS total FROM scholarships s WHERE ${where.sql}`, where.params),
+    db.query(
+      `SELECT ${select} FROM scholarships s WHERE ${where.sql} ORDER BY ${orderBy} LIMIT ${query.pageSize} OFFSET ${offset}`,
+      [...selectParams, ...where.params]
+    ),
+  ]);
+
+  const total = Number(countRow?.total || 0);
+  return {
+    data: rows.map((row: Record<string, any>) => {
+      const scholarship = toApiScholarship(row);
+      if (query.keyword) {
+        scholarship.snippet = SearchUtils.buildSnippet(row.description, query.keyword)
+          ?? SearchUtils.buildSnippet(row.eligibility, query.keyword)
+          ?? SearchUtils.buildSnippet(row.name, query.keyword);
+      }
+      if (row.relevance !== undefined) {
+        scholarship.relevance = Number(row.relevance);
+      }
+      return scholarship;
+    }),
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      totalPages: Math.ceil(total / query.pageSize),
+    },
+  };
+}
+
+/**
+ * Loads one scholarship with its eligibility child-table criteria
+ * @returns The scholarship, or null if it doesn't exist
+ */
+export async function getScholarship(db: MySQLDatabase, scholarshipId: number): Promise<Record<string, any> | null> {
+  const row = await db.queryOne('SELECT * FROM scholarships WHERE scholarship_id = ?', [scholarshipId]);
+  if (!row) {
+    return null;
+  }
+
+  const [states, fields, scores] = await Promise.all([
+    db.query('SELECT state_code FROM scholarship_residency_states WHERE scholarship_id = ? ORDER BY state_code', [scholarshipId]),
+    db.query('SELECT field_of_study FROM scholarship_fields_of_study WHERE scholarship_id = ? ORDER BY field_of_study', [scholarshipId]),
+    db.query('SELECT test, min_score FROM scholarship_test_scores WHERE scholarship_id = ? ORDER BY test', [scholarshipId]),
+  ]);
+
+  return {
+    ...toApiScholarship(row),
+    residencyStates: states.map((state: any) => state.state_code),
+    fieldsOfStudy: fields.map((field: any) => field.field_of_study),
+    testScores: scores.map((score: any) => ({
+      test: score.test,
+      minScore: score.min_score === null ? null : Number(score.min_score),
+    })),
+  };
+}
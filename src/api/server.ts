@@ -0,0 +1,111 @@
+import * as http from 'http';
+import { MySQLDatabase, createDatabaseFromEnv } from '../utils/mysql-config';
+import { parseScholarshipQuery, searchScholarships, getScholarship } from './scholarship-query';
+
+const PORT = parseInt(process.env.API_PORT || '3000', 10);
+const CORS_ORIGIN = process.env.API_CORS_ORIGIN || '*';
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+    'Cache-Control': 'no-store',
+  });
+  response.end(JSON.stringify(body));
+}
+
+async function handleRequest(db: MySQLDatabase, request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+  const url = new URL(request.url || '/', 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Origin': CORS_ORIGIN,
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    });
+    response.end();
+    return;
+  }
+
+  if (request.method !== 'GET') {
+    response.setHeader('Allow', 'GET, OPTIONS');
+    sendJson(response, 405, { error: `Method ${request.method} not allowed` });
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    sendJson(response, 200, { status: 'ok' });
+    return;
+  }
+
+  if (url.pathname === '/scholarships') {
+    let query;
+    try {
+      query = parseScholarshipQuery(url.searchParams);
+    } catch (error) {
+      sendJson(response, 400, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    sendJson(response, 200, await searchScholarships(db, query));
+    return;
+  }
+
+  const detail = url.pathname.match(/^\/scholarships\/(\d+)$/);
+  if (detail) {
+    const scholarship = await getScholarship(db, Number(detail[1]));
+    if (scholarship) {
+      sendJson(response, 200, scholarship);
+    } else {
+      sendJson(response, 404, { error: `Scholarship ${detail[1]} not found` });
+    }
+    return;
+  }
+
+  sendJson(response, 404, { error: `No route for ${url.pathname}` });
+}
+
+/**
+ * Creates the read-only scholarship HTTP API:
+ *   GET /health
+ *   GET /scholarships        search with filters, pagination and sorting
+ *   GET /scholarships/:id    one scholarship with its eligibility criteria
+ * @param db - Connected database the API reads from
+ */
+export function createScholarshipServer(db: MySQLDatabase): http.Server {
+  return http.createServer((request, response) => {
+    handleRequest(db, request, response).catch(error => {
+      console.error(`❌ Error handling ${request.method} ${request.url}:`, error);
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: 'Internal server error' });
+      } else {
+        response.end();
+      }
+    });
+  });
+}
+
+async function main(): Promise<void> {
+  const db = await createDatabaseFromEnv();
+  await db.connect();
+
+  const server = createScholarshipServer(db);
+  server.listen(PORT, () => {
+    console.log(`🚀 Scholarship API listening on http://localhost:${PORT}`);
+  });
+
+  const shutdown = () => {
+    console.log('🛑 Shutting down scholarship API...');
+    server.close(() => {
+      db.disconnect().finally(() => process.exit(0));
+    });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Failed to start scholarship API:', error);
+    process.exit(1);
+  });
+}
@@ -1,13 +1,17 @@
-import { CareerOneStopScraper } from '../scrapers/careeronestop-scraper';
-import { CollegeScholarshipScraper } from '../scrapers/collegescholarship-scraper';
-import { GeneralSearchScraper } from '../scrapers/general-search-scraper';
-import { GumLoopScraper } from '../scrapers/gumloop-scraper';
+import { ScraperRegistry } from '../scrapers';
 import { ScrapingResult } from '../utils/types';
+import { createDatabaseFromEnv } from '../utils/mysql-config';
+import { WebsiteRepository, WebsiteRecord } from '../utils/website-repository';
+import { httpClient } from '../utils/http-client';
+import { RESUMABLE_EXIT_CODE } from '../utils/constants';
 
 const WEBSITE = process.env.WEBSITE;
 const JOB_ID = process.env.JOB_ID;
 const ENVIRONMENT = process.env.ENVIRONMENT;
 const JOBS_TABLE = process.env.JOBS_TABLE;
+const SCRAPER_CLASS = process.env.SCRAPER_CLASS;
+const PARENT_JOB_ID = process.env.PARENT_JOB_ID;
+const RESUME_JOB_ID = process.env.RESUME_JOB_ID; // Continue an earlier job's checkpoint
 
 if (!ENVIRONMENT || !JOBS_TABLE) {
   console.error('Missing required environment variables:', {
@@ -34,61 +38,60 @@ const environment = ENVIRONMENT!;
 const jobsTable = JOBS_TABLE!;
 const rawDataBucket = process.env.S3_RAW_DATA_BUCKET;
 
-async function runScraper(): Promise<void> {
-  console.log(`Starting scraper for website: ${website}, job ID: ${job_id}`);
+async function resolveScraperClass(): Promise<string> {
+  if (SCRAPER_CLASS) {
+    return SCRAPER_CLASS;
+  }
 
+  // Look up the scraper class configured for this website
   try {
-    let scraper: any;
-    let result: ScrapingResult;
+    const db = await createDatabaseFromEnv();
+    let record: WebsiteRecord | null;
+    try {
+      await db.connect();
+      record = await new WebsiteRepository(db).findByName(website);
+    } finally {
+      // An open pool would keep the process from exiting
+      await db.disconnect();
+    }
 
-    // Route to the appropriate scraper based on website parameter
-    switch (website.toLowerCase()) {
-      case 'careeronestop':
-        scraper = new CareerOneStopScraper(
-          '', // scholarshipsTable - no longer used
-          jobsTable,
-          job_id,
-          environment,
-          rawDataBucket
-        );
-        break;
+    if (record?.scraperClass) {
+      return record.scraperClass;
+    }
+  } catch (error) {
+    console.warn(`Could not load scraper class for ${website} from MySQL:`, error);
+  }
 
-      case 'collegescholarship':
-        scraper = new CollegeScholarshipScraper(
-          '', // scholarshipsTable - no longer used
-          jobsTable,
-          job_id,
-          environment,
-          rawDataBucket
-        );
-        break;
+  // Fall back to the website name, which resolves through registry aliases
+  return website;
+}
 
-      case 'general_search':
-        scraper = new GeneralSearchScraper(
-          '', // scholarshipsTable - no longer used
-          jobsTable,
-          job_id,
-          environment,
-          rawDataBucket
-        );
-        break;
+async function runScraper(): Promise<void> {
+  console.log(`Starting scraper for website: ${website}, job ID: ${job_id}`);
 
-      case 'gumloop':
-        scraper = new GumLoopScraper(
-          '', // scholarshipsTable - no longer used
-          jobsTable,
-          job_id,
-          environment,
-          rawDataBucket
-        );
-        break;
+  try {
+    const scraperClass = await resolveScraperClass();
+    console.log(`Using scraper class: ${scraperClass}`);
 
-      default:
-        throw new Error(`Unknown website: ${website}`);
-    }
+    const scraper = ScraperRegistry.create(scraperClass, {
+      jobsTable,
+      jobId: job_id,
+      environment,
+      rawDataBucket,
+    });
+    scraper.configureJob({ website, parentJobId: PARENT_JOB_ID, resumeFromJobId: RESUME_JOB_ID });
 
-    result = await scraper.scrape();
+    const result: ScrapingResult = await scraper.scrape();
     console.log('Scraping completed:', result);
+
+    // Stops the headless browser of scrapers whose website is rendered
+    await httpClient.close();
+
+    // The one exit code AWS Batch retries; the retried job resumes from its checkpoint
+    if (result.resumable) {
+      console.warn('Scraper stopped early with progress checkpointed, exiting for retry');
+      process.exit(RESUMABLE_EXIT_CODE);
+    }
     process.exit(0);
   } catch (error) {
     console.error('Error running scraper:', error);
@@ -96,4 +99,4 @@ async function runScraper(): Promise<void> {
   }
 }
 
-runScraper(); 
\ No newline at end of file
+runScraper();
@@ -4,10 +4,17 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import mysql, { ConnectionOptions } from 'mysql2/promise';
+import { ScholarshipUtils } from '../utils/helper';
+import { DeadlineUtils } from '../utils/deadline-utils';
+import { AcademicLevelUtils } from '../utils/academic-level-utils';
+import { MigrationRunner } from '../utils/migration-runner';
+import { MIGRATIONS } from './migrations';
 
 // Configuration
 const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
 const SECRET_ID = `scholarships-${ENVIRONMENT}`;
+// Local databases (e.g. MySQL in Docker) only need the schema, not the DynamoDB data
+const SKIP_DYNAMODB_MIGRATION = process.env.SKIP_DYNAMODB_MIGRATION === 'true';
 
 // Initialize AWS clients
 const dynamoClient = new DynamoDBClient({});
@@ -52,7 +59,18 @@ interface Website {
   updatedAt: string;
 }
 
-async function getMySQLConfig(): Promise<MySQLConfig> {
+export async function getMySQLConfig(): Promise<MySQLConfig> {
+  if (process.env.MYSQL_HOST) {
+    console.log(`🔐 Using MySQL config from environment variables (${process.env.MYSQL_HOST})`);
+    return {
+      host: process.env.MYSQL_HOST,
+      port: parseInt(process.env.MYSQL_PORT || '3306'),
+      user: process.env.MYSQL_USER || 'root',
+      password: process.env.MYSQL_PASSWORD || '',
+      database: process.env.MYSQL_DATABASE || 'scholarships_dev',
+    };
+  }
+
   console.log(`🔐 Loading MySQL config from secret: ${SECRET_ID}`);
   
   const command = new GetSecretValueCommand({ SecretId: SECRET_ID });
@@ -74,71 +92,43 @@ async function getMySQLConfig(): Promise<MySQLConfig> {
   };
 }
 
-async function createTables(connection: mysql.Connection): Promise<void> {
-  console.log('🏗️ Creating database tables...');
-
-  // Create scholarships table
-  const scholarshipsTableSQL = `
-    CREATE TABLE IF NOT EXISTS scholarships (
-      scholarship_id INT AUTO_INCREMENT PRIMARY KEY,
-      name VARCHAR(500) NOT NULL,
-      deadline DATE,
-      url VARCHAR(1000),
-      description LONGTEXT,
-      eligibility TEXT,
-      organization VARCHAR(500),
-      academic_level VARCHAR(100),
-      geographic_restrictions VARCHAR(500),
-      target_type ENUM('need', 'merit', 'both'),
-      ethnicity VARCHAR(200),
-      gender VARCHAR(50),
-      min_award DECIMAL(10,2),
-      max_award DECIMAL(10,2),
-      renewable BOOLEAN DEFAULT FALSE,
-      country VARCHAR(100),
-      apply_url VARCHAR(1000),
-      is_active BOOLEAN DEFAULT TRUE,
-      essay_required BOOLEAN DEFAULT FALSE,
-      recommendations_required BOOLEAN DEFAULT FALSE,
-      source VARCHAR(255),
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-      INDEX idx_deadline (deadline),
-      INDEX idx_source (source),
-      INDEX idx_created_at (created_at),
-      INDEX idx_organization (organization),
-      INDEX idx_academic_level (academic_level),
-      INDEX idx_target_type (target_type),
-      INDEX idx_country (country),
-      INDEX idx_is_active (is_active)
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-  `;
-
-  // Create websites table
-  const websitesTableSQL = `
-    CREATE TABLE IF NOT EXISTS websites (
-      id VARCHAR(255) PRIMARY KEY,
-      name VARCHAR(255) NOT NULL,
-      url VARCHAR(500) NOT NULL,
-      status VARCHAR(50) DEFAULT 'active',
-      last_scraped TIMESTAMP NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-      INDEX idx_status (status),
-      INDEX idx_last_scraped (last_scraped)
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-  `;
+async function backfillAcademicLevels(connection: mysql.Connection): Promise<void> {
+  console.log('🎓 Normalizing scholarship academic levels...');
+
+  // Rows without mapping entries were stored before the taxonomy, or by the DynamoDB migration
+  const [rows] = await connection.execute(
+    `SELECT s.scholarship_id, s.academic_level FROM scholarships s
+     WHERE s.academic_level IS NOT NULL AND s.academic_level <> ''
+       AND NOT EXISTS (SELECT 1 FROM scholarship_academic_levels l WHERE l.scholarship_id = s.scholarship_id)`
+  );
+
+  let normalized = 0;
+  let unrecognized = 0;
+  for (const row of rows as any[]) {
+    const levels = AcademicLevelUtils.normalizeAcademicLevels(row.academic_level);
+    const field = AcademicLevelUtils.toAcademicLevelField(levels);
+
+    if (field !== row.academic_level) {
+      await connection.execute(
+        'UPDATE scholarships SET academic_level = ? WHERE scholarship_id = ?',
+        [field, row.scholarship_id]
+      );
+    }
 
-  try {
-    await connection.execute(scholarshipsTableSQL);
-    console.log('✅ Scholarships table created/verified');
-    
-    await connection.execute(websitesTableSQL);
-    console.log('✅ Websites table created/verified');
-  } catch (error) {
-    console.error('❌ Error creating tables:', error);
-    throw error;
+    if (levels.length === 0) {
+      unrecognized++;
+      continue;
+    }
+
+    const placeholders = levels.map(() => '(?, ?)').join(', ');
+    await connection.execute(
+      `INSERT IGNORE INTO scholarship_academic_levels (scholarship_id, academic_level) VALUES ${placeholders}`,
+      levels.flatMap(level => [row.scholarship_id, level])
+    );
+    normalized++;
   }
+
+  console.log(`📊 Academic level backfill completed: ${normalized} normalized, ${unrecognized} unrecognized and cleared`);
 }
 
 async function migrateScholarships(connection: mysql.Connection): Promise<void> {
@@ -169,10 +159,9 @@ async function migrateScholarships(connection: mysql.Connection): Promise<void>
     for (const item of response.Items) {
       try {
         // Check if scholarship is expired
-        const deadline = new Date(item.deadline);
-        const now = new Date();
+        const deadline = DeadlineUtils.parseDeadline(item.deadline);
         
-        if (deadline < now) {
+        if (DeadlineUtils.isDeadlineExpired(deadline)) {
           console.log(`⏰ Skipping expired scholarship: ${item.name || item.title} (deadline: ${item.deadline})`);
           totalSkipped++;
           continue;
@@ -181,16 +170,18 @@ async function migrateScholarships(connection: mysql.Connection): Promise<void>
         // Insert into MySQL
         const insertSQL = `
           INSERT INTO scholarships (
-            name, deadline, url, description, eligibility, organization, 
+            fingerprint, name, deadline, deadline_type, deadline_text, url, description, eligibility, organization, 
             academic_level, geographic_restrictions, target_type, ethnicity, 
             gender, min_award, max_award, renewable, country, apply_url, 
             is_active, essay_required, recommendations_required, source, 
             created_at, updated_at
           )
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           ON DUPLICATE KEY UPDATE
             name = VALUES(name),
             deadline = VALUES(deadline),
+            deadline_type = VALUES(deadline_type),
+            deadline_text = VALUES(deadline_text),
             url = VALUES(url),
             description = VALUES(description),
             eligibility = VALUES(eligibility),
@@ -213,13 +204,16 @@ async function migrateScholarships(connection: mysql.Connection): Promise<void>
         `;
 
         await connection.execute(insertSQL, [
+          ScholarshipUtils.createScholarshipFingerprint(item.name || item.title, item.organization, item.url),
           item.name || item.title || '', // Handle both name and title fields
-          item.deadline,
+          deadline.date,
+          deadline.kind,
+          deadline.raw,
           item.url || '',
           item.description || '',
           item.eligibility || '',
           item.organization || '',
-          item.academicLevel || '',
+          AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(item.academicLevel)),
           item.geographicRestrictions || '',
           item.targetType || null,
           item.ethnicity || '',
@@ -278,11 +272,19 @@ async function migrateWebsites(connection: mysql.Connection): Promise<void> {
       try {
         // Insert into MySQL
         const insertSQL = `
-          INSERT INTO websites (id, name, url, status, last_scraped, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO websites (
+            id, name, url, type, enabled, scraper_class, crawl_url, selectors,
+            status, last_scraped, created_at, updated_at
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           ON DUPLICATE KEY UPDATE
             name = VALUES(name),
             url = VALUES(url),
+            type = VALUES(type),
+            enabled = VALUES(enabled),
+            scraper_class = VALUES(scraper_class),
+            crawl_url = VALUES(crawl_url),
+            selectors = VALUES(selectors),
             status = VALUES(status),
             last_scraped = VALUES(last_scraped),
             updated_at = CURRENT_TIMESTAMP
@@ -291,7 +293,12 @@ async function migrateWebsites(connection: mysql.Connection): Promise<void> {
         await connection.execute(insertSQL, [
           item.id,
           item.name,
-          item.url,
+          item.url || null,
+          item.type || null,
+          item.enabled !== false,
+          item.scraperClass || null,
+          item.crawlUrl || null,
+          item.selectors ? JSON.stringify(item.selectors) : null,
           item.status || 'active',
           item.lastScraped ? new Date(item.lastScraped) : null,
           item.createdAt,
@@ -374,12 +381,17 @@ async function main(): Promise<void> {
     connection = await mysql.createConnection(config);
     console.log('✅ Connected to MySQL database');
 
-    // Create tables
-    await createTables(connection);
+    // Bring the schema up to date
+    await new MigrationRunner(connection, MIGRATIONS).migrate();
     
     // Migrate data
-    await migrateScholarships(connection);
-    await migrateWebsites(connection);
+    if (SKIP_DYNAMODB_MIGRATION) {
+      console.log('⏭️ Skipping DynamoDB data migration');
+    } else {
+      await migrateScholarships(connection);
+      await migrateWebsites(connection);
+    }
+    await backfillAcademicLevels(connection);
     
     // Show statistics
     await showTableStats(connection);
@@ -0,0 +1,93 @@
+#!/usr/bin/env ts-node
+
+import mysql from 'mysql2/promise';
+import { MigrationRunner, MigrationStatus } from '../utils/migration-runner';
+import { MIGRATIONS } from './migrations';
+import { getMySQLConfig } from './migrate-mysql-job';
+
+function printUsage(): void {
+  console.log(`Usage: ts-node src/batch/migrate-schema.ts <command> [options]
+
+Commands:
+  up [--to <version>]     Apply pending migrations (default: all)
+  down [--steps <n>]      Roll back the most recent migrations (default: 1)
+  status                  List applied and pending migrations
+
+Connects with MYSQL_* environment variables when MYSQL_HOST is set,
+otherwise with the scholarships-<ENVIRONMENT> secret.`);
+}
+
+function parsePositiveInteger(name: string, value: string | undefined): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return number;
+}
+
+function printStatus(statuses: MigrationStatus[]): void {
+  if (statuses.length === 0) {
+    console.log('No migrations defined');
+    return;
+  }
+
+  const icons = { applied: '✅', pending: '⏳', missing: '⚠️' };
+  statuses.forEach(status => {
+    const applied = status.appliedAt ? ` applied ${new Date(status.appliedAt).toISOString()} (${status.executionMs}ms)` : '';
+    console.log(`${icons[status.state]} ${String(status.version).padStart(3, '0')} ${status.name} [${status.state}]${applied}`);
+  });
+
+  if (statuses.some(status => status.state === 'missing')) {
+    console.log('\n⚠️ Missing migrations were applied by a newer build; deploy it before migrating this database');
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command || command === '--help' || command === '-h') {
+    printUsage();
+    return;
+  }
+
+  let targetVersion: number | undefined;
+  let steps = 1;
+  for (let i = 0; i < args.length; i++) {
+    if (command === 'up' && args[i] === '--to') {
+      targetVersion = parsePositiveInteger('version', args[++i]);
+    } else if (command === 'down' && args[i] === '--steps') {
+      steps = parsePositiveInteger('steps', args[++i]);
+    } else {
+      throw new Error(`Unknown option for ${command}: ${args[i]}`);
+    }
+  }
+
+  const connection = await mysql.createConnection(await getMySQLConfig());
+  try {
+    const runner = new MigrationRunner(connection, MIGRATIONS);
+
+    switch (command) {
+      case 'up':
+        await runner.migrate(targetVersion);
+        break;
+      case 'down':
+        await runner.rollback(steps);
+        break;
+      case 'status':
+        printStatus(await runner.status());
+        break;
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  } finally {
+    await connection.end();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Schema migration failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
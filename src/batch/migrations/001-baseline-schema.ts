@@ -0,0 +1,552 @@
+import mysql from 'mysql2/promise';
+import { Migration } from '../../utils/migration-runner';
+import { ScholarshipUtils } from '../../utils/helper';
+import { EligibilityUtils, ParsedEligibility } from '../../utils/eligibility-utils';
+
+// Value lists are written out rather than taken from the parsers' constants, so this
+// migration's DDL stays fixed when those constants change; later values get their own migration
+const NON_MONETARY_AWARDS_SET = `SET('full_tuition', 'partial_tuition', 'room_and_board', 'books', 'fees', 'travel', 'equipment')`;
+
+// Column definitions shared by createTables and ensureEligibilityColumns
+const ELIGIBILITY_COLUMNS: Record<string, string> = {
+  min_gpa: 'DECIMAL(3,2) NULL',
+  citizenship: `SET('us_citizen', 'permanent_resident', 'daca', 'international') DEFAULT ''`,
+  enrollment_status: `SET('full_time', 'part_time') DEFAULT ''`,
+  first_generation: 'BOOLEAN DEFAULT FALSE',
+  military_affiliation: `SET('active_duty', 'veteran', 'reserve_guard', 'military_family') DEFAULT ''`,
+  disability: 'BOOLEAN DEFAULT FALSE',
+};
+
+async function createTables(connection: mysql.Connection): Promise<void> {
+  console.log('🏗️ Creating database tables...');
+
+  // Create scholarships table
+  const scholarshipsTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarships (
+      scholarship_id INT AUTO_INCREMENT PRIMARY KEY,
+      fingerprint CHAR(64),
+      name VARCHAR(500) NOT NULL,
+      deadline DATE,
+      deadline_type ENUM('fixed', 'recurring', 'rolling', 'varies', 'unknown') DEFAULT 'unknown',
+      deadline_text VARCHAR(255),
+      url VARCHAR(1000),
+      description LONGTEXT,
+      eligibility TEXT,
+      organization VARCHAR(500),
+      academic_level VARCHAR(255),
+      geographic_restrictions VARCHAR(500),
+      target_type ENUM('need', 'merit', 'both'),
+      ethnicity VARCHAR(200),
+      gender VARCHAR(50),
+      min_award DECIMAL(10,2),
+      max_award DECIMAL(10,2),
+      award_currency CHAR(3) DEFAULT 'USD',
+      award_period ENUM('one_time', 'per_year', 'per_semester') DEFAULT 'one_time',
+      non_monetary_awards ${NON_MONETARY_AWARDS_SET} DEFAULT '',
+      ${Object.entries(ELIGIBILITY_COLUMNS).map(([column, definition]) => `${column} ${definition},`).join('\n      ')}
+      renewable BOOLEAN DEFAULT FALSE,
+      country VARCHAR(100),
+      apply_url VARCHAR(1000),
+      is_active BOOLEAN DEFAULT TRUE,
+      essay_required BOOLEAN DEFAULT FALSE,
+      recommendations_required BOOLEAN DEFAULT FALSE,
+      source VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_fingerprint (fingerprint),
+      INDEX idx_deadline (deadline),
+      INDEX idx_source (source),
+      INDEX idx_created_at (created_at),
+      INDEX idx_organization (organization),
+      INDEX idx_academic_level (academic_level),
+      INDEX idx_target_type (target_type),
+      INDEX idx_country (country),
+      INDEX idx_is_active (is_active),
+      INDEX idx_min_gpa (min_gpa),
+      FULLTEXT INDEX ft_scholarship_text (name, description, eligibility)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create websites table
+  const websitesTableSQL = `
+    CREATE TABLE IF NOT EXISTS websites (
+      id VARCHAR(255) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      url VARCHAR(500) NOT NULL,
+      status VARCHAR(50) DEFAULT 'active',
+      last_scraped TIMESTAMP NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_status (status),
+      INDEX idx_last_scraped (last_scraped)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create scholarship history table (previous values of changed fields)
+  const scholarshipHistoryTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_history (
+      history_id BIGINT AUTO_INCREMENT PRIMARY KEY,
+      scholarship_id INT NOT NULL,
+      field_name VARCHAR(100) NOT NULL,
+      previous_value TEXT,
+      new_value TEXT,
+      job_id VARCHAR(255),
+      source VARCHAR(255),
+      changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_scholarship_id (scholarship_id),
+      INDEX idx_field_name (field_name),
+      INDEX idx_job_id (job_id),
+      INDEX idx_changed_at (changed_at),
+      CONSTRAINT fk_history_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create scholarship sources table (per-source provenance of merged records)
+  const scholarshipSourcesTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_sources (
+      source_id BIGINT AUTO_INCREMENT PRIMARY KEY,
+      scholarship_id INT NOT NULL,
+      fingerprint CHAR(64) NOT NULL,
+      source VARCHAR(255) NOT NULL,
+      source_name VARCHAR(500),
+      source_url VARCHAR(1000),
+      match_score DECIMAL(4,3) DEFAULT 1.000,
+      job_id VARCHAR(255),
+      first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_source_fingerprint (fingerprint),
+      INDEX idx_scholarship_id (scholarship_id),
+      INDEX idx_source (source),
+      CONSTRAINT fk_sources_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create field provenance table (which extractor produced each field, and how confidently)
+  const fieldProvenanceTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_field_provenance (
+      scholarship_id INT NOT NULL,
+      field_name VARCHAR(100) NOT NULL,
+      extractor ENUM('listing_table', 'detail_page', 'keyword_heuristic', 'llm', 'default') NOT NULL,
+      confidence DECIMAL(4,3) NOT NULL,
+      source VARCHAR(255),
+      job_id VARCHAR(255),
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      PRIMARY KEY (scholarship_id, field_name),
+      INDEX idx_field_confidence (field_name, confidence),
+      INDEX idx_extractor (extractor),
+      CONSTRAINT fk_provenance_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create academic level mapping table (one row per scholarship and level)
+  const academicLevelsTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_academic_levels (
+      scholarship_id INT NOT NULL,
+      academic_level ENUM(
+        'high_school_senior', 'community_college', 'undergraduate_freshman', 'undergraduate_sophomore',
+        'undergraduate_junior', 'undergraduate_senior', 'masters', 'doctoral', 'professional', 'vocational'
+      ) NOT NULL,
+      PRIMARY KEY (scholarship_id, academic_level),
+      INDEX idx_academic_level (academic_level),
+      CONSTRAINT fk_academic_levels_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create eligibility child tables (list-valued criteria parsed from eligibility text)
+  const residencyStatesTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_residency_states (
+      scholarship_id INT NOT NULL,
+      state_code CHAR(2) NOT NULL,
+      PRIMARY KEY (scholarship_id, state_code),
+      INDEX idx_state_code (state_code),
+      CONSTRAINT fk_residency_states_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  const fieldsOfStudyTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_fields_of_study (
+      scholarship_id INT NOT NULL,
+      field_of_study ENUM(
+        'agriculture', 'arts', 'business', 'computer_science', 'education', 'engineering', 'health_sciences',
+        'humanities', 'journalism', 'law', 'mathematics', 'medicine', 'nursing', 'sciences', 'social_sciences', 'stem'
+      ) NOT NULL,
+      PRIMARY KEY (scholarship_id, field_of_study),
+      INDEX idx_field_of_study (field_of_study),
+      CONSTRAINT fk_fields_of_study_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  const testScoresTableSQL = `
+    CREATE TABLE IF NOT EXISTS scholarship_test_scores (
+      scholarship_id INT NOT NULL,
+      test ENUM('SAT', 'ACT', 'GRE', 'GMAT', 'LSAT', 'MCAT', 'TOEFL', 'IELTS') NOT NULL,
+      min_score DECIMAL(6,1) NULL,
+      PRIMARY KEY (scholarship_id, test),
+      INDEX idx_test_score (test, min_score),
+      CONSTRAINT fk_test_scores_scholarship FOREIGN KEY (scholarship_id)
+        REFERENCES scholarships (scholarship_id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create scraping jobs table (job lifecycle when JOB_STORE=mysql)
+  const scrapingJobsTableSQL = `
+    CREATE TABLE IF NOT EXISTS scraping_jobs (
+      job_id VARCHAR(255) PRIMARY KEY,
+      parent_job_id VARCHAR(255),
+      website VARCHAR(255) NOT NULL,
+      status ENUM('pending', 'running', 'completed', 'failed') NOT NULL,
+      start_time DATETIME(3) NOT NULL,
+      end_time DATETIME(3) NULL,
+      records_found INT DEFAULT 0,
+      records_processed INT DEFAULT 0,
+      records_inserted INT DEFAULT 0,
+      records_updated INT DEFAULT 0,
+      records_unchanged INT DEFAULT 0,
+      errors JSON,
+      child_job_ids JSON,
+      environment VARCHAR(50),
+      INDEX idx_parent_job_id (parent_job_id),
+      INDEX idx_website (website),
+      INDEX idx_status (status),
+      INDEX idx_start_time (start_time)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create scraping checkpoints table (resumable runs when CHECKPOINT_STORE=mysql)
+  const scrapingCheckpointsTableSQL = `
+    CREATE TABLE IF NOT EXISTS scraping_checkpoints (
+      checkpoint_id VARCHAR(255) NOT NULL,
+      website VARCHAR(255) NOT NULL,
+      job_id VARCHAR(255) NOT NULL,
+      next_page INT NOT NULL DEFAULT 0,
+      completed_pages JSON,
+      processed_urls JSON,
+      status ENUM('in_progress', 'completed') NOT NULL,
+      updated_at DATETIME(3) NOT NULL,
+      PRIMARY KEY (website, checkpoint_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  // Create crawl frontier table (per-source listing pagination across runs)
+  const crawlFrontierTableSQL = `
+    CREATE TABLE IF NOT EXISTS crawl_frontier (
+      source VARCHAR(255) PRIMARY KEY,
+      first_page INT NOT NULL DEFAULT 0,
+      next_page INT NOT NULL DEFAULT 0,
+      last_page_reached INT NULL,
+      catalog_pages INT NULL,
+      pages_visited JSON,
+      cycle INT NOT NULL DEFAULT 0,
+      updated_at DATETIME(3) NOT NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `;
+
+  try {
+    await connection.execute(scholarshipsTableSQL);
+    console.log('✅ Scholarships table created/verified');
+    
+    await connection.execute(websitesTableSQL);
+    console.log('✅ Websites table created/verified');
+
+    await connection.execute(scholarshipHistoryTableSQL);
+    console.log('✅ Scholarship history table created/verified');
+
+    await connection.execute(scholarshipSourcesTableSQL);
+    console.log('✅ Scholarship sources table created/verified');
+
+    await connection.execute(fieldProvenanceTableSQL);
+    console.log('✅ Scholarship field provenance table created/verified');
+
+    await connection.execute(academicLevelsTableSQL);
+    console.log('✅ Scholarship academic levels table created/verified');
+
+    await connection.execute(residencyStatesTableSQL);
+    await connection.execute(fieldsOfStudyTableSQL);
+    await connection.execute(testScoresTableSQL);
+    console.log('✅ Scholarship eligibility tables created/verified');
+
+    await connection.execute(scrapingJobsTableSQL);
+    console.log('✅ Scraping jobs table created/verified');
+
+    await connection.execute(scrapingCheckpointsTableSQL);
+    console.log('✅ Scraping checkpoints table created/verified');
+
+    await connection.execute(crawlFrontierTableSQL);
+    console.log('✅ Crawl frontier table created/verified');
+  } catch (error) {
+    console.error('❌ Error creating tables:', error);
+    throw error;
+  }
+}
+
+async function ensureFingerprintColumn(connection: mysql.Connection): Promise<void> {
+  console.log('🔑 Ensuring scholarship fingerprint column...');
+
+  // Tables created before fingerprints existed need the column and index added
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships' AND COLUMN_NAME = 'fingerprint'`
+  );
+
+  if ((columns as any[]).length === 0) {
+    await connection.execute('ALTER TABLE scholarships ADD COLUMN fingerprint CHAR(64) AFTER scholarship_id');
+    await connection.execute('ALTER TABLE scholarships ADD UNIQUE KEY uq_fingerprint (fingerprint)');
+    console.log('✅ Added fingerprint column');
+  }
+
+  // Backfill rows that have no fingerprint yet
+  const [rows] = await connection.execute(
+    'SELECT scholarship_id, name, organization, url FROM scholarships WHERE fingerprint IS NULL'
+  );
+
+  let backfilled = 0;
+  let duplicates = 0;
+  for (const row of rows as any[]) {
+    const fingerprint = ScholarshipUtils.createScholarshipFingerprint(row.name, row.organization, row.url);
+    try {
+      await connection.execute(
+        'UPDATE scholarships SET fingerprint = ? WHERE scholarship_id = ?',
+        [fingerprint, row.scholarship_id]
+      );
+      backfilled++;
+    } catch (error: any) {
+      if (error?.code === 'ER_DUP_ENTRY') {
+        duplicates++;
+        console.warn(`⚠️ Scholarship ${row.scholarship_id} duplicates an existing fingerprint: ${row.name}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  console.log(`📊 Fingerprint backfill completed: ${backfilled} updated, ${duplicates} duplicates left unset`);
+}
+
+async function ensureDeadlineColumns(connection: mysql.Connection): Promise<void> {
+  console.log('📅 Ensuring scholarship deadline columns...');
+
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships'
+       AND COLUMN_NAME IN ('deadline_type', 'deadline_text')`
+  );
+  const existing = (columns as any[]).map(column => column.COLUMN_NAME);
+
+  if (!existing.includes('deadline_type')) {
+    await connection.execute(
+      `ALTER TABLE scholarships ADD COLUMN deadline_type ENUM('fixed', 'recurring', 'rolling', 'varies', 'unknown') DEFAULT 'unknown' AFTER deadline`
+    );
+    // Rows stored before deadline types existed only kept a date when one was parsed
+    await connection.execute(`UPDATE scholarships SET deadline_type = 'fixed' WHERE deadline IS NOT NULL`);
+    console.log('✅ Added deadline_type column');
+  }
+
+  if (!existing.includes('deadline_text')) {
+    await connection.execute('ALTER TABLE scholarships ADD COLUMN deadline_text VARCHAR(255) AFTER deadline_type');
+    console.log('✅ Added deadline_text column');
+  }
+}
+
+async function ensureAwardColumns(connection: mysql.Connection): Promise<void> {
+  console.log('💵 Ensuring scholarship award columns...');
+
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships'
+       AND COLUMN_NAME IN ('award_currency', 'award_period', 'non_monetary_awards')`
+  );
+  const existing = (columns as any[]).map(column => column.COLUMN_NAME);
+
+  if (!existing.includes('award_currency')) {
+    await connection.execute(`ALTER TABLE scholarships ADD COLUMN award_currency CHAR(3) DEFAULT 'USD' AFTER max_award`);
+    console.log('✅ Added award_currency column');
+  }
+
+  if (!existing.includes('award_period')) {
+    await connection.execute(
+      `ALTER TABLE scholarships ADD COLUMN award_period ENUM('one_time', 'per_year', 'per_semester') DEFAULT 'one_time' AFTER award_currency`
+    );
+    console.log('✅ Added award_period column');
+  }
+
+  if (!existing.includes('non_monetary_awards')) {
+    await connection.execute(
+      `ALTER TABLE scholarships ADD COLUMN non_monetary_awards
+         ${NON_MONETARY_AWARDS_SET} DEFAULT '' AFTER award_period`
+    );
+    console.log('✅ Added non_monetary_awards column');
+  }
+}
+
+/**
+ * Adds the structured eligibility columns to tables created before they existed
+ * @returns Whether the columns were just added, so existing rows still need parsing
+ */
+async function ensureEligibilityColumns(connection: mysql.Connection): Promise<boolean> {
+  console.log('🧾 Ensuring scholarship eligibility columns...');
+
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships'
+       AND COLUMN_NAME IN (${Object.keys(ELIGIBILITY_COLUMNS).map(() => '?').join(', ')})`,
+    Object.keys(ELIGIBILITY_COLUMNS)
+  );
+  const existing = (columns as any[]).map(column => column.COLUMN_NAME);
+  const missing = Object.keys(ELIGIBILITY_COLUMNS).filter(column => !existing.includes(column));
+
+  let previous = 'non_monetary_awards';
+  for (const [column, definition] of Object.entries(ELIGIBILITY_COLUMNS)) {
+    if (missing.includes(column)) {
+      await connection.execute(`ALTER TABLE scholarships ADD COLUMN ${column} ${definition} AFTER ${previous}`);
+      console.log(`✅ Added ${column} column`);
+    }
+    previous = column;
+  }
+
+  if (missing.includes('min_gpa')) {
+    await connection.execute('ALTER TABLE scholarships ADD INDEX idx_min_gpa (min_gpa)');
+  }
+  return missing.length > 0;
+}
+
+async function backfillEligibility(connection: mysql.Connection): Promise<void> {
+  console.log('🧾 Parsing eligibility of existing scholarships...');
+
+  const [rows] = await connection.execute(
+    'SELECT scholarship_id, eligibility, geographic_restrictions FROM scholarships'
+  );
+
+  for (const row of rows as any[]) {
+    const eligibility = EligibilityUtils.parseEligibility(row.eligibility, row.geographic_restrictions);
+    await connection.execute(
+      `UPDATE scholarships
+       SET min_gpa = ?, citizenship = ?, enrollment_status = ?, first_generation = ?, military_affiliation = ?, disability = ?
+       WHERE scholarship_id = ?`,
+      [
+        eligibility.minGpa,
+        eligibility.citizenship.join(','),
+        eligibility.enrollmentStatus.join(','),
+        eligibility.firstGeneration,
+        eligibility.militaryAffiliation.join(','),
+        eligibility.disability,
+        row.scholarship_id,
+      ]
+    );
+    await insertEligibilityCriteria(connection, row.scholarship_id, eligibility);
+  }
+
+  console.log(`📊 Eligibility backfill completed: ${(rows as any[]).length} scholarships parsed`);
+}
+
+async function insertEligibilityCriteria(
+  connection: mysql.Connection,
+  scholarshipId: number,
+  eligibility: ParsedEligibility
+): Promise<void> {
+  if (eligibility.residencyStates.length > 0) {
+    await connection.execute(
+      `INSERT IGNORE INTO scholarship_residency_states (scholarship_id, state_code)
+       VALUES ${eligibility.residencyStates.map(() => '(?, ?)').join(', ')}`,
+      eligibility.residencyStates.flatMap(state => [scholarshipId, state])
+    );
+  }
+
+  if (eligibility.fieldsOfStudy.length > 0) {
+    await connection.execute(
+      `INSERT IGNORE INTO scholarship_fields_of_study (scholarship_id, field_of_study)
+       VALUES ${eligibility.fieldsOfStudy.map(() => '(?, ?)').join(', ')}`,
+      eligibility.fieldsOfStudy.flatMap(field => [scholarshipId, field])
+    );
+  }
+
+  if (eligibility.testScores.length > 0) {
+    await connection.execute(
+      `INSERT IGNORE INTO scholarship_test_scores (scholarship_id, test, min_score)
+       VALUES ${eligibility.testScores.map(() => '(?, ?, ?)').join(', ')}`,
+      eligibility.testScores.flatMap(score => [scholarshipId, score.test, score.minScore])
+    );
+  }
+}
+
+/**
+ * Adds the keyword search FULLTEXT index to tables created before it existed.
+ * All columns of a FULLTEXT index must share a character set, so tables still on
+ * an older charset are converted to the utf8mb4 collation createTables uses first.
+ */
+async function ensureFulltextIndex(connection: mysql.Connection): Promise<void> {
+  console.log('🔎 Ensuring scholarship full-text index...');
+
+  const [indexes] = await connection.execute(
+    `SELECT INDEX_NAME FROM INFORMATION_SCHEMA.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships' AND INDEX_NAME = 'ft_scholarship_text'
+     LIMIT 1`
+  );
+  if ((indexes as any[]).length > 0) {
+    return;
+  }
+
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME, COLLATION_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships'
+       AND COLUMN_NAME IN ('name', 'description', 'eligibility')`
+  );
+  if ((columns as any[]).some(column => column.COLLATION_NAME !== 'utf8mb4_unicode_ci')) {
+    await connection.execute('ALTER TABLE scholarships CONVERT TO CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci');
+    console.log('✅ Converted scholarships table to utf8mb4_unicode_ci');
+  }
+
+  await connection.execute(
+    'ALTER TABLE scholarships ADD FULLTEXT INDEX ft_scholarship_text (name, description, eligibility)'
+  );
+  console.log('✅ Added ft_scholarship_text index');
+}
+
+async function ensureAcademicLevelColumn(connection: mysql.Connection): Promise<void> {
+  console.log('🎓 Ensuring scholarship academic level column...');
+
+  // A full comma-separated list of normalized levels needs more than the original 100 characters
+  const [columns] = await connection.execute(
+    `SELECT CHARACTER_MAXIMUM_LENGTH FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships' AND COLUMN_NAME = 'academic_level'`
+  );
+  const [column] = columns as any[];
+
+  if (column && Number(column.CHARACTER_MAXIMUM_LENGTH) < 255) {
+    await connection.execute('ALTER TABLE scholarships MODIFY COLUMN academic_level VARCHAR(255)');
+    console.log('✅ Widened academic_level column');
+  }
+}
+
+/**
+ * The schema as the migration job built it before versioned migrations. Databases
+ * created by earlier versions of the job are upgraded in place, so this is safe to
+ * apply to an existing database. It cannot be rolled back: the tables it creates
+ * hold data that existed before migrations did.
+ */
+export const baselineSchema: Migration = {
+  version: 1,
+  name: 'baseline-schema',
+
+  async up(connection) {
+    await createTables(connection);
+    await ensureFingerprintColumn(connection);
+    await ensureDeadlineColumns(connection);
+    await ensureAwardColumns(connection);
+    await ensureAcademicLevelColumn(connection);
+    // Rows stored before structured eligibility existed are parsed once, when the columns arrive
+    if (await ensureEligibilityColumns(connection)) {
+      await backfillEligibility(connection);
+    }
+    await ensureFulltextIndex(connection);
+  },
+
+  async down() {
+    throw new Error('The baseline schema cannot be rolled back');
+  },
+};
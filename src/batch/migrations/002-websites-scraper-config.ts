@@ -0,0 +1,77 @@
+import mysql from 'mysql2/promise';
+import { Migration } from '../../utils/migration-runner';
+
+// Columns the orchestrator and batch entry point read, keyed in table order
+const WEBSITE_CONFIG_COLUMNS: Record<string, string> = {
+  type: `ENUM('api', 'crawl', 'search', 'discovery') NULL`,
+  enabled: 'BOOLEAN NOT NULL DEFAULT TRUE',
+  scraper_class: 'VARCHAR(255) NULL',
+  crawl_url: 'VARCHAR(500) NULL',
+  selectors: 'JSON NULL',
+};
+
+// The columns no earlier schema had; databases set up with recreate-websites-table.sql
+// already had the others, so rolling back leaves those in place
+const ADDED_COLUMNS = ['enabled', 'scraper_class'];
+
+async function existingColumns(connection: mysql.Connection): Promise<string[]> {
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'websites'`
+  );
+  return (columns as any[]).map(column => column.COLUMN_NAME);
+}
+
+async function hasIndex(connection: mysql.Connection, indexName: string): Promise<boolean> {
+  const [indexes] = await connection.execute(
+    `SELECT INDEX_NAME FROM INFORMATION_SCHEMA.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'websites' AND INDEX_NAME = ?
+     LIMIT 1`,
+    [indexName]
+  );
+  return (indexes as any[]).length > 0;
+}
+
+/**
+ * Adds the scraper configuration columns the orchestrator queries (`enabled`,
+ * `scraper_class`, ...). Databases set up with recreate-websites-table.sql already
+ * have some of them, so only missing columns are added.
+ */
+export const websitesScraperConfig: Migration = {
+  version: 2,
+  name: 'websites-scraper-config',
+
+  async up(connection) {
+    const existing = await existingColumns(connection);
+
+    let previous = 'url';
+    for (const [column, definition] of Object.entries(WEBSITE_CONFIG_COLUMNS)) {
+      if (!existing.includes(column)) {
+        await connection.execute(`ALTER TABLE websites ADD COLUMN ${column} ${definition} AFTER ${previous}`);
+        console.log(`✅ Added websites.${column} column`);
+      }
+      previous = column;
+    }
+
+    // Search websites have no start URL
+    await connection.execute('ALTER TABLE websites MODIFY COLUMN url VARCHAR(500) NULL');
+
+    if (!(await hasIndex(connection, 'idx_enabled'))) {
+      await connection.execute('ALTER TABLE websites ADD INDEX idx_enabled (enabled)');
+    }
+  },
+
+  async down(connection) {
+    if (await hasIndex(connection, 'idx_enabled')) {
+      await connection.execute('ALTER TABLE websites DROP INDEX idx_enabled');
+    }
+
+    const existing = await existingColumns(connection);
+    for (const column of [...ADDED_COLUMNS].reverse()) {
+      if (existing.includes(column)) {
+        await connection.execute(`ALTER TABLE websites DROP COLUMN ${column}`);
+        console.log(`🗑️ Dropped websites.${column} column`);
+      }
+    }
+  },
+};
@@ -0,0 +1,35 @@
+import mysql from 'mysql2/promise';
+import { Migration } from '../../utils/migration-runner';
+
+async function hasColumn(connection: mysql.Connection, column: string): Promise<boolean> {
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships' AND COLUMN_NAME = ?`,
+    [column]
+  );
+  return (columns as any[]).length > 0;
+}
+
+/**
+ * Adds scholarships.job_id for the jobId field processScholarships writes; without the
+ * column every insert from a scraper failed with "Unknown column 'jobId'"
+ */
+export const scholarshipsJobId: Migration = {
+  version: 3,
+  name: 'scholarships-job-id',
+
+  async up(connection) {
+    if (!(await hasColumn(connection, 'job_id'))) {
+      await connection.execute('ALTER TABLE scholarships ADD COLUMN job_id VARCHAR(255) NULL AFTER source');
+      await connection.execute('ALTER TABLE scholarships ADD INDEX idx_job_id (job_id)');
+      console.log('✅ Added scholarships.job_id column');
+    }
+  },
+
+  async down(connection) {
+    if (await hasColumn(connection, 'job_id')) {
+      await connection.execute('ALTER TABLE scholarships DROP COLUMN job_id');
+      console.log('🗑️ Dropped scholarships.job_id column');
+    }
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from '../../utils/migration-runner';
+
+/**
+ * Adds page_cache, the validators (ETag, Last-Modified) and content hash kept per
+ * fetched URL so scrapers can send conditional requests and skip unchanged pages
+ */
+export const pageCache: Migration = {
+  version: 4,
+  name: 'page-cache',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS page_cache (
+        url_hash CHAR(64) PRIMARY KEY,
+        url TEXT NOT NULL,
+        etag VARCHAR(512) NULL,
+        last_modified VARCHAR(64) NULL,
+        content_hash CHAR(64) NOT NULL,
+        context_hash CHAR(64) NULL,
+        item_count INT NULL,
+        parsed_at DATETIME(3) NOT NULL,
+        checked_at DATETIME(3) NOT NULL,
+        INDEX idx_checked_at (checked_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    console.log('✅ Page cache table created/verified');
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS page_cache');
+    console.log('🗑️ Dropped page_cache table');
+  },
+};
@@ -0,0 +1,36 @@
+import mysql from 'mysql2/promise';
+import { Migration } from '../../utils/migration-runner';
+
+async function hasColumn(connection: mysql.Connection, column: string): Promise<boolean> {
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'websites' AND COLUMN_NAME = ?`,
+    [column]
+  );
+  return (columns as any[]).length > 0;
+}
+
+/**
+ * Adds websites.fetch_mode, which picks how a website's pages are fetched: over plain
+ * HTTP, or rendered in headless Chromium for sources that build their content with JavaScript
+ */
+export const websitesFetchMode: Migration = {
+  version: 5,
+  name: 'websites-fetch-mode',
+
+  async up(connection) {
+    if (!(await hasColumn(connection, 'fetch_mode'))) {
+      await connection.execute(
+        `ALTER TABLE websites ADD COLUMN fetch_mode ENUM('http', 'browser') NOT NULL DEFAULT 'http' AFTER scraper_class`
+      );
+      console.log('✅ Added websites.fetch_mode column');
+    }
+  },
+
+  async down(connection) {
+    if (await hasColumn(connection, 'fetch_mode')) {
+      await connection.execute('ALTER TABLE websites DROP COLUMN fetch_mode');
+      console.log('🗑️ Dropped websites.fetch_mode column');
+    }
+  },
+};
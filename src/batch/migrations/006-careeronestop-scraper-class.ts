@@ -0,0 +1,31 @@
+import { Migration } from '../../utils/migration-runner';
+
+/**
+ * Points the careeronestop website at CareerOneStopScraper. seed-websites.sql used to
+ * seed it with GumLoopScraper, and since scraper_class is read before the website
+ * name, CareerOneStop was crawled through GumLoop instead of its own scraper.
+ */
+export const careerOneStopScraperClass: Migration = {
+  version: 6,
+  name: 'careeronestop-scraper-class',
+
+  async up(connection) {
+    const [result] = await connection.execute(
+      `UPDATE websites SET scraper_class = 'CareerOneStopScraper'
+       WHERE name = 'careeronestop' AND scraper_class = 'GumLoopScraper'`
+    );
+    if ((result as any).affectedRows > 0) {
+      console.log('✅ Switched careeronestop to CareerOneStopScraper');
+    }
+  },
+
+  async down(connection) {
+    const [result] = await connection.execute(
+      `UPDATE websites SET scraper_class = 'GumLoopScraper'
+       WHERE name = 'careeronestop' AND scraper_class = 'CareerOneStopScraper'`
+    );
+    if ((result as any).affectedRows > 0) {
+      console.log('🗑️ Switched careeronestop back to GumLoopScraper');
+    }
+  },
+};
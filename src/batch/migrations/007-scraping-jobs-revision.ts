@@ -0,0 +1,34 @@
+import mysql from 'mysql2/promise';
+import { Migration } from '../../utils/migration-runner';
+
+async function hasColumn(connection: mysql.Connection, column: string): Promise<boolean> {
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scraping_jobs' AND COLUMN_NAME = ?`,
+    [column]
+  );
+  return (columns as any[]).length > 0;
+}
+
+/**
+ * Adds scraping_jobs.revision, replaced on every save so rolling up a parent job
+ * can tell whether a sibling's roll-up wrote the parent in the meantime
+ */
+export const scrapingJobsRevision: Migration = {
+  version: 7,
+  name: 'scraping-jobs-revision',
+
+  async up(connection) {
+    if (!(await hasColumn(connection, 'revision'))) {
+      await connection.execute('ALTER TABLE scraping_jobs ADD COLUMN revision CHAR(36) NULL AFTER environment');
+      console.log('✅ Added scraping_jobs.revision column');
+    }
+  },
+
+  async down(connection) {
+    if (await hasColumn(connection, 'revision')) {
+      await connection.execute('ALTER TABLE scraping_jobs DROP COLUMN revision');
+      console.log('🗑️ Dropped scraping_jobs.revision column');
+    }
+  },
+};
@@ -0,0 +1,50 @@
+import mysql from 'mysql2/promise';
+import { Migration } from '../../utils/migration-runner';
+
+async function hasColumn(connection: mysql.Connection, column: string): Promise<boolean> {
+  const [columns] = await connection.execute(
+    `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships' AND COLUMN_NAME = ?`,
+    [column]
+  );
+  return (columns as any[]).length > 0;
+}
+
+/**
+ * Adds scholarships.award_varies and stops storing unknown award amounts as 0.
+ * Rows saved before this stored a missing bound as 0, so a 0 is read as unknown:
+ * a row with neither an amount nor a non-cash award is marked as varying.
+ */
+export const scholarshipsAwardVaries: Migration = {
+  version: 8,
+  name: 'scholarships-award-varies',
+
+  async up(connection) {
+    if (!(await hasColumn(connection, 'award_varies'))) {
+      await connection.execute(
+        'ALTER TABLE scholarships ADD COLUMN award_varies BOOLEAN NOT NULL DEFAULT FALSE AFTER max_award'
+      );
+      console.log('✅ Added scholarships.award_varies column');
+    }
+
+    const [unknown] = await connection.execute(
+      `UPDATE scholarships
+       SET min_award = NULL, max_award = NULL, award_varies = COALESCE(non_monetary_awards, '') = ''
+       WHERE COALESCE(min_award, 0) = 0 AND COALESCE(max_award, 0) = 0`
+    );
+    const [noLowerBound] = await connection.execute(
+      'UPDATE scholarships SET min_award = NULL WHERE min_award = 0 AND max_award > 0'
+    );
+    console.log(
+      `✅ Cleared unknown award amounts (${(unknown as any).affectedRows} without an amount, ` +
+      `${(noLowerBound as any).affectedRows} without a lower bound)`
+    );
+  },
+
+  async down(connection) {
+    if (await hasColumn(connection, 'award_varies')) {
+      await connection.execute('ALTER TABLE scholarships DROP COLUMN award_varies');
+      console.log('🗑️ Dropped scholarships.award_varies column');
+    }
+  },
+};
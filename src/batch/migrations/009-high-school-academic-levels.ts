@@ -0,0 +1,57 @@
+import { Migration } from '../../utils/migration-runner';
+
+// The levels before high school freshmen, sophomores and juniors were added
+const PREVIOUS_LEVELS = [
+  'high_school_senior',
+  'community_college',
+  'undergraduate_freshman',
+  'undergraduate_sophomore',
+  'undergraduate_junior',
+  'undergraduate_senior',
+  'masters',
+  'doctoral',
+  'professional',
+  'vocational',
+];
+
+// The levels once high school freshmen, sophomores and juniors are added; written out so
+// this migration does not change when ACADEMIC_LEVELS does
+const LEVELS = [
+  'high_school_freshman',
+  'high_school_sophomore',
+  'high_school_junior',
+  ...PREVIOUS_LEVELS,
+];
+
+function levelEnum(levels: readonly string[]): string {
+  return `ENUM(${levels.map(level => `'${level}'`).join(', ')})`;
+}
+
+/**
+ * Adds the earlier high school years to scholarship_academic_levels, so a scholarship
+ * for "High School" students no longer reads as one for seniors only. Existing rows
+ * pick up the new levels when their scholarship is next scraped.
+ */
+export const highSchoolAcademicLevels: Migration = {
+  version: 9,
+  name: 'high-school-academic-levels',
+
+  async up(connection) {
+    await connection.execute(
+      `ALTER TABLE scholarship_academic_levels MODIFY COLUMN academic_level ${levelEnum(LEVELS)} NOT NULL`
+    );
+    console.log('✅ Added high school years to scholarship_academic_levels.academic_level');
+  },
+
+  async down(connection) {
+    const added = LEVELS.filter(level => !PREVIOUS_LEVELS.includes(level));
+    await connection.execute(
+      `DELETE FROM scholarship_academic_levels WHERE academic_level IN (${added.map(() => '?').join(', ')})`,
+      added
+    );
+    await connection.execute(
+      `ALTER TABLE scholarship_academic_levels MODIFY COLUMN academic_level ${levelEnum(PREVIOUS_LEVELS)} NOT NULL`
+    );
+    console.log('🗑️ Removed high school years from scholarship_academic_levels.academic_level');
+  },
+};
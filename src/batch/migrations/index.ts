@@ -0,0 +1,24 @@
+import { Migration } from '../../utils/migration-runner';
+import { baselineSchema } from './001-baseline-schema';
+import { websitesScraperConfig } from './002-websites-scraper-config';
+import { scholarshipsJobId } from './003-scholarships-job-id';
+import { pageCache } from './004-page-cache';
+import { websitesFetchMode } from './005-websites-fetch-mode';
+import { careerOneStopScraperClass } from './006-careeronestop-scraper-class';
+import { scrapingJobsRevision } from './007-scraping-jobs-revision';
+import { scholarshipsAwardVaries } from './008-scholarships-award-varies';
+import { highSchoolAcademicLevels } from './009-high-school-academic-levels';
+
+// Every schema migration, in version order. Add new migrations as NNN-description.ts
+// and append them here; never edit or renumber one that has been applied.
+export const MIGRATIONS: Migration[] = [
+  baselineSchema,
+  websitesScraperConfig,
+  scholarshipsJobId,
+  pageCache,
+  websitesFetchMode,
+  careerOneStopScraperClass,
+  scrapingJobsRevision,
+  scholarshipsAwardVaries,
+  highSchoolAcademicLevels,
+];
@@ -14,6 +14,7 @@ import * as rds from 'aws-cdk-lib/aws-rds';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 
 import { ConfigUtils } from '../../utils/helper';
+import { BATCH_JOB_ATTEMPTS, RESUMABLE_EXIT_CODE } from '../../utils/constants';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 
 export interface ScholarshipScraperStackProps extends cdk.StackProps {
@@ -377,6 +378,14 @@ export class ScholarshipScraperStack extends cdk.Stack {
       timeout: {
         attemptDurationSeconds: 3600, // 60 minutes timeout
       },
+      retryStrategy: {
+        attempts: BATCH_JOB_ATTEMPTS, // Retried attempts resume from the scraper's checkpoint
+        // Only resumable stops are retried; any other failure ends the job
+        evaluateOnExit: [
+          { onExitCode: String(RESUMABLE_EXIT_CODE), action: 'RETRY' },
+          { onExitCode: '*', action: 'EXIT' },
+        ],
+      },
       platformCapabilities: ['FARGATE'],
     });
 
@@ -1,15 +1,16 @@
 import { BatchClient, SubmitJobCommand } from '@aws-sdk/client-batch';
-import { DynamoDBClient, ScanCommand } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, ScanCommand as DocScanCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   ENVIRONMENT, 
   LAMBDA_TIMEOUT_MINUTES
 } from '../../utils/constants';
 import { createDatabaseFromEnv } from '../../utils/mysql-config';
+import { WebsiteRepository } from '../../utils/website-repository';
+import { ScraperRegistry } from '../../scrapers';
+import { createJobStoreFromEnv, rollUpParentJob } from '../../utils/job-store';
+import { ScrapingJob } from '../../utils/types';
 
 const batchClient = new BatchClient({});
-const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 
 export const handler = async (event: any): Promise<any> => {
   console.log('Job orchestrator triggered:', JSON.stringify(event, null, 2));
@@ -19,8 +20,9 @@ export const handler = async (event: any): Promise<any> => {
     const startTime = new Date().toISOString();
     const environment = ENVIRONMENT;
 
-    // Create job record in DynamoDB
-    const jobRecord = {
+    // Create job record in the jobs store
+    const jobStore = await createJobStoreFromEnv();
+    const jobRecord: ScrapingJob = {
       jobId, // <-- Use camelCase to match DynamoDB schema
       startTime,
       status: 'pending',
@@ -29,30 +31,46 @@ export const handler = async (event: any): Promise<any> => {
       recordsProcessed: 0,
       recordsInserted: 0,
       recordsUpdated: 0,
+      recordsUnchanged: 0,
       errors: [],
       environment,
     };
 
-    await dynamoClient.send(new PutCommand({
-      TableName: process.env.JOBS_TABLE!,
-      Item: jobRecord,
-    }));
+    await jobStore.saveJob(jobRecord);
 
     // Load website configuration from MySQL
     const db = await createDatabaseFromEnv();
     await db.connect();
     
-    const enabledWebsites = await db.query(
-      'SELECT * FROM websites WHERE enabled = TRUE'
-    );
-    
+    const enabledWebsites = await new WebsiteRepository(db).listEnabledWebsites();
+
     await db.disconnect();
 
+    // Resolve each website's scraper from the registry before submitting jobs
+    const runnableWebsites = enabledWebsites.filter(website => {
+      try {
+        const configErrors = ScraperRegistry.validateConfig(website.scraperClass || website.name, website);
+        if (configErrors.length > 0) {
+          console.error(`Skipping ${website.name}: ${configErrors.join('; ')}`);
+          return false;
+        }
+        return true;
+      } catch (error) {
+        console.error(`Skipping ${website.name}:`, error instanceof Error ? error.message : error);
+        return false;
+      }
+    });
+
+    // Record the per-website child jobs so the parent can be rolled up as they finish
+    jobRecord.childJobIds = runnableWebsites.map(website => `${jobId}-${website.name}`);
+    await jobStore.saveJob(jobRecord);
+
     // Submit batch job for each enabled website
-    const jobPromises = enabledWebsites.map(async (website: any) => {
+    const jobPromises = runnableWebsites.map(async website => {
       const website_job_id = `${jobId}-${website.name}`;
+      const scraperClass = ScraperRegistry.get(website.scraperClass || website.name).name;
       
-      console.log(`Submitting job for ${website.name} (${website.scraperClass})`);
+      console.log(`Submitting job for ${website.name} (${scraperClass})`);
       
       const jobParams = {
         jobName: `scholarship-scraper-${website.name}-${Date.now()}`,
@@ -74,6 +92,14 @@ export const handler = async (event: any): Promise<any> => {
               name: 'JOB_ID',
               value: website_job_id,
             },
+            {
+              name: 'SCRAPER_CLASS',
+              value: scraperClass,
+            },
+            {
+              name: 'PARENT_JOB_ID',
+              value: jobId,
+            },
             {
               name: 'ENVIRONMENT',
               value: environment,
@@ -96,6 +122,34 @@ export const handler = async (event: any): Promise<any> => {
     const jobResults = await Promise.allSettled(jobPromises);
     const successfulJobs = jobResults.filter(result => result.status === 'fulfilled');
 
+    // Child jobs that never started are marked failed so the parent can still finish
+    await Promise.all(jobResults.map(async (result, index) => {
+      if (result.status === 'fulfilled') {
+        return;
+      }
+      const website = runnableWebsites[index];
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      const now = new Date().toISOString();
+      await jobStore.saveJob({
+        ...jobRecord,
+        jobId: `${jobId}-${website.name}`,
+        parentJobId: jobId,
+        childJobIds: undefined,
+        website: website.name,
+        status: 'failed',
+        startTime: now,
+        endTime: now,
+        errors: [`Failed to submit batch job: ${reason}`],
+      });
+    }));
+
+    jobRecord.status = runnableWebsites.length > 0 ? 'running' : 'completed';
+    if (runnableWebsites.length === 0) {
+      jobRecord.endTime = new Date().toISOString();
+    }
+    await jobStore.saveJob(jobRecord);
+    await rollUpParentJob(jobStore, jobId);
+
     console.log(`Submitted ${jobResults.length} jobs, ${successfulJobs.length} successful`);
 
     return {
@@ -104,6 +158,7 @@ export const handler = async (event: any): Promise<any> => {
         message: 'Jobs submitted successfully',
         job_id: jobId,
         totalJobs: jobResults.length,
+        skippedWebsites: enabledWebsites.length - runnableWebsites.length,
         successfulJobs: successfulJobs.length,
         failedJobs: jobResults.length - successfulJobs.length,
       }),
@@ -1,28 +1,192 @@
-import { ScrapingResult } from '../utils/types';
-import { createHash } from 'crypto';
+import { ScrapingResult, ScrapingJob } from '../utils/types';
 import { ScraperUtils, ScrapingMetadata } from '../utils/scraper-utils';
-import { TextUtils } from '../utils/helper';
+import { TextUtils, ScholarshipUtils } from '../utils/helper';
+import { DedupUtils, DedupCandidate } from '../utils/dedup-utils';
+import { FieldProvenanceMap } from '../utils/provenance-utils';
+import { DeadlineUtils } from '../utils/deadline-utils';
+import { AcademicLevelUtils, AcademicLevel } from '../utils/academic-level-utils';
+import { EligibilityUtils, ParsedEligibility } from '../utils/eligibility-utils';
+import { JobStore, createJobStoreFromEnv, rollUpParentJob } from '../utils/job-store';
+import { CheckpointStore, ScrapingCheckpoint, createCheckpointStoreFromEnv } from '../utils/checkpoint-store';
+import { CrawlFrontier } from '../utils/crawl-frontier';
+import { PageCache } from '../utils/page-cache';
 import { S3Utils, RawDataMetadata } from '../utils/s3-utils';
-import { MySQLDatabase, createDatabaseFromEnv } from '../utils/mysql-config';
+import {
+  MySQLDatabase,
+  createDatabaseFromEnv,
+  SCHOLARSHIP_FIELD_MAPPING,
+  ScholarshipHistoryEntry,
+  ScholarshipSourceEntry,
+  FieldProvenanceEntry,
+  AcademicLevelsEntry,
+  EligibilityCriteriaEntry,
+  ScholarshipRecord
+} from '../utils/mysql-config';
+import { ScholarshipRepository, NewScholarship, BulkUpsertScholarshipResult } from '../utils/scholarship-repository';
+import { WebsiteRepository, WebsiteRecord, FetchMode } from '../utils/website-repository';
+import { RenderOptions } from '../utils/page-renderer';
+import { BULK_WRITE_CHUNK_SIZE, BATCH_JOB_ATTEMPTS } from '../utils/constants';
+import { httpClient } from '../utils/http-client';
+
+// Fields compared against the stored row when deciding whether a re-scraped
+// scholarship needs an update
+const UPSERT_TRACKED_FIELDS = [
+  'name',
+  'deadline',
+  'deadlineType',
+  'url',
+  'description',
+  'eligibility',
+  'organization',
+  'academicLevel',
+  'geographicRestrictions',
+  'targetType',
+  'ethnicity',
+  'gender',
+  'minAward',
+  'maxAward',
+  'awardVaries',
+  'awardCurrency',
+  'awardPeriod',
+  'nonMonetaryAwards',
+  'minGpa',
+  'citizenship',
+  'enrollmentStatus',
+  'firstGeneration',
+  'militaryAffiliation',
+  'disability',
+  'renewable',
+  'country',
+  'applyUrl',
+  'isActive',
+  'essayRequired',
+  'recommendationsRequired',
+];
+
+// Changes to these fields keep the previous value in scholarship_history
+const HISTORY_TRACKED_FIELDS = [
+  'deadline',
+  'minAward',
+  'maxAward',
+  'eligibility',
+  'applyUrl',
+];
+
+// A scraped scholarship normalized for storage, with the parsed criteria its side tables need
+interface PreparedScholarship {
+  record: NewScholarship;
+  provenance: FieldProvenanceMap;
+  academicLevels: AcademicLevel[];
+  eligibility: ParsedEligibility;
+  existing?: Record<string, any>; // Stored row, when a re-scrape from the primary source changed it
+  changes?: Record<string, any>;
+}
+
+/**
+ * Groups bulk writes by the fields they change, so an existing scholarship only has its
+ * changed columns overwritten; new scholarships are written whole
+ */
+function groupByChangedFields(
+  writes: PreparedScholarship[]
+): Array<{ items: PreparedScholarship[]; updateFields?: (keyof ScholarshipRecord)[] }> {
+  const groups = new Map<string, { items: PreparedScholarship[]; updateFields?: (keyof ScholarshipRecord)[] }>();
+
+  for (const item of writes) {
+    const fields = item.changes ? Object.keys(item.changes).sort() as (keyof ScholarshipRecord)[] : null;
+    const key = fields ? fields.join(',') : '';
+    if (!groups.has(key)) {
+      groups.set(key, { items: [], updateFields: fields ? [...fields, 'updatedAt', 'jobId'] : undefined });
+    }
+    groups.get(key)!.items.push(item);
+  }
+
+  return Array.from(groups.values());
+}
+
+// Academic level and eligibility rows to replace once a page's scholarships are saved
+interface DerivedCriteria {
+  academicLevels: AcademicLevelsEntry[];
+  eligibility: EligibilityCriteriaEntry[];
+}
+
+/**
+ * Queues the academic level and eligibility rows a written scholarship needs
+ * @param changes - Fields changed on an existing scholarship; omitted for a new one
+ */
+function addDerivedCriteria(
+  derived: DerivedCriteria,
+  scholarshipId: number,
+  item: PreparedScholarship,
+  changes?: Record<string, any>
+): void {
+  if (!changes || 'academicLevel' in changes) {
+    derived.academicLevels.push({ scholarshipId, levels: item.academicLevels });
+  }
+  if (!changes || 'eligibility' in changes || 'geographicRestrictions' in changes) {
+    derived.eligibility.push({ scholarshipId, eligibility: item.eligibility });
+  }
+}
+
+function formatHistoryValue(value: any): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+/**
+ * Normalizes a value so scraped values and MySQL column values compare equal
+ * (e.g. DECIMAL '500.00' vs 500, TINYINT 1 vs true, DATE vs ISO string)
+ */
+function normalizeForComparison(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') return String(value);
+
+  const text = String(value).trim();
+  if (text !== '' && !isNaN(Number(text))) {
+    return String(Number(text));
+  }
+  return text;
+}
 
 export abstract class BaseScraper implements ScraperUtils {
   protected db: MySQLDatabase;
   protected s3Utils: S3Utils;
   protected jobId: string;
   protected environment: string;
+  protected jobsTable: string;
+  protected jobStore: JobStore;
+  protected website: string;
+  protected parentJobId?: string;
+  protected resumeFromJobId?: string;
+  protected checkpointStore: CheckpointStore;
+  private rawDataBucket?: string;
+  private jobRecord: ScrapingJob | null = null;
+  private dedupCandidates: Array<DedupCandidate & { scholarshipId: number }> | null = null;
+  private robotsBlockedUrls = new Set<string>();
+  private stopRobotsTracking: (() => void) | null = null;
+  private pageCache: PageCache | null = null;
+  private fetchMode: FetchMode | null = null;
 
   constructor(
     scholarshipsTable: string, // Keep for backward compatibility
-    jobsTable: string, // Keep for backward compatibility
+    jobsTable: string,
     jobId: string,
     environment: string,
     rawDataBucket?: string
   ) {
     // Initialize database connection (will be set in initialize method)
     this.db = null as any;
+    this.jobStore = null as any;
+    this.checkpointStore = null as any;
     this.jobId = jobId;
     this.environment = environment;
+    this.jobsTable = jobsTable;
+    this.website = this.constructor.name;
     
+    this.rawDataBucket = rawDataBucket;
+
     // Initialize S3 utils if bucket is provided
     if (rawDataBucket) {
       this.s3Utils = new S3Utils({ bucketName: rawDataBucket });
@@ -38,6 +202,132 @@ export abstract class BaseScraper implements ScraperUtils {
 
   abstract scrape(): Promise<ScrapingResult>;
 
+  /**
+   * Sets the website and orchestrator job this scraper run belongs to.
+   * resumeFromJobId continues the checkpoint of an earlier job instead of this job's own.
+   */
+  public configureJob(context: {
+    website: string;
+    parentJobId?: string;
+    resumeFromJobId?: string;
+    jobStore?: JobStore;
+    checkpointStore?: CheckpointStore;
+  }): void {
+    this.website = context.website;
+    this.parentJobId = context.parentJobId;
+    this.resumeFromJobId = context.resumeFromJobId;
+    if (context.jobStore) {
+      this.jobStore = context.jobStore;
+    }
+    if (context.checkpointStore) {
+      this.checkpointStore = context.checkpointStore;
+    }
+  }
+
+  /**
+   * Loads this run's checkpoint. A retried Batch job keeps its job ID and so
+   * finds its own checkpoint; a continued job finds the one it resumes from.
+   * @param startPage - Listing page to start from when there is no checkpoint yet
+   * @returns The saved checkpoint, or a fresh one
+   */
+  protected async loadCheckpoint(startPage: number = 0): Promise<ScrapingCheckpoint> {
+    const checkpointId = this.resumeFromJobId || this.jobId;
+
+    try {
+      const checkpoint = await (await this.getCheckpointStore()).loadCheckpoint(this.website, checkpointId);
+      if (checkpoint) {
+        console.log(`Resuming from checkpoint ${checkpointId}: next page ${checkpoint.nextPage}, ${checkpoint.processedUrls.length} URLs already processed`);
+        return { ...checkpoint, jobId: this.jobId };
+      }
+    } catch (error) {
+      console.error('Error loading checkpoint, starting from scratch:', error);
+    }
+
+    return {
+      checkpointId,
+      website: this.website,
+      jobId: this.jobId,
+      nextPage: startPage,
+      completedPages: [],
+      processedUrls: [],
+      status: 'in_progress',
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  private async getCheckpointStore(): Promise<CheckpointStore> {
+    if (!this.checkpointStore) {
+      this.checkpointStore = await createCheckpointStoreFromEnv({
+        rawDataBucket: this.rawDataBucket,
+        db: this.db || undefined,
+      });
+    }
+    return this.checkpointStore;
+  }
+
+  /**
+   * Saves scraping progress so a later run can pick up where this one stopped
+   */
+  protected async saveCheckpoint(checkpoint: ScrapingCheckpoint): Promise<void> {
+    try {
+      checkpoint.updatedAt = new Date().toISOString();
+      await (await this.getCheckpointStore()).saveCheckpoint(checkpoint);
+    } catch (error) {
+      console.error('Error saving checkpoint:', error);
+    }
+  }
+
+  /**
+   * Whether AWS Batch runs this job again if the current attempt exits for a retry
+   */
+  protected hasRetriesLeft(): boolean {
+    const attempt = parseInt(process.env.AWS_BATCH_JOB_ATTEMPT || '', 10);
+    return !isNaN(attempt) && attempt < BATCH_JOB_ATTEMPTS;
+  }
+
+  /**
+   * Loads the crawl frontier that tracks which listing page a source reads next
+   * @param source - Source name the frontier is kept under
+   * @param firstPage - First listing page of the source's catalog
+   */
+  protected async loadCrawlFrontier(source: string, firstPage: number = 0): Promise<CrawlFrontier> {
+    await this.initialize();
+    return CrawlFrontier.load(this.db, source, firstPage);
+  }
+
+  /**
+   * Loads the page cache that lets the scraper skip pages unchanged since their last parse
+   */
+  protected async getPageCache(): Promise<PageCache> {
+    if (!this.pageCache) {
+      await this.initialize();
+      this.pageCache = new PageCache(this.db);
+    }
+    return this.pageCache;
+  }
+
+  /**
+   * Reads the website's fetch mode (websites.fetch_mode) to decide how its pages are loaded
+   * @param waitForSelector - CSS selector a rendered page must match before its DOM is read
+   * @returns Render options when the website is rendered in headless Chromium, null for plain HTTP
+   */
+  protected async getRenderOptions(waitForSelector?: string): Promise<RenderOptions | null> {
+    if (!this.fetchMode) {
+      try {
+        await this.initialize();
+        const website = await new WebsiteRepository(this.db).findByName(this.website);
+        this.fetchMode = website?.fetchMode || 'http';
+      } catch (error) {
+        console.warn(`Could not load the fetch mode for ${this.website}, fetching over plain HTTP:`, error);
+        this.fetchMode = 'http';
+      }
+      if (this.fetchMode === 'browser') {
+        console.log(`🖥️ Rendering ${this.website} pages in headless Chromium`);
+      }
+    }
+    return this.fetchMode === 'browser' ? { waitForSelector } : null;
+  }
+
   /**
    * Store raw scraping data in S3
    */
@@ -96,101 +386,344 @@ export abstract class BaseScraper implements ScraperUtils {
     }
   }
 
-  protected generateScholarshipId(scholarship: any): string {
-    // Create a unique ID based on name, organization, and deadline
-    const content = `${scholarship.name}-${scholarship.organization}-${scholarship.deadline}`;
-    return createHash('md5').update(content).digest('hex');
+  protected generateFingerprint(scholarship: any): string {
+    // Content-based identity: normalized name, organization and URL host
+    return ScholarshipUtils.createScholarshipFingerprint(
+      scholarship.name || scholarship.title,
+      scholarship.organization,
+      scholarship.url
+    );
   }
 
-  protected isDeadlineExpired(deadline: string): boolean {
-    if (!deadline) {
-      return false; // No deadline means not expired
+  /**
+   * Looks up stored scholarships by fingerprint, one chunk of fingerprints per query
+   * @returns Stored rows keyed by the incoming fingerprint
+   */
+  protected async findExistingScholarships(fingerprints: string[]): Promise<Map<string, Record<string, any>>> {
+    await this.initialize();
+    const existing = new Map<string, Record<string, any>>();
+    const unique = Array.from(new Set(fingerprints));
+
+    for (let start = 0; start < unique.length; start += BULK_WRITE_CHUNK_SIZE) {
+      const chunk = unique.slice(start, start + BULK_WRITE_CHUNK_SIZE);
+      const placeholders = chunk.map(() => '?').join(', ');
+
+      const rows = await this.db.query(`SELECT * FROM scholarships WHERE fingerprint IN (${placeholders})`, chunk);
+      rows.forEach((row: any) => existing.set(row.fingerprint, row));
+
+      // A previous run may already have merged some of these into another source's scholarship
+      const unmatched = chunk.filter(fingerprint => !existing.has(fingerprint));
+      if (unmatched.length === 0) {
+        continue;
+      }
+
+      const merged = await this.db.query(
+        `SELECT s.*, ss.match_score AS source_match_score, ss.fingerprint AS source_fingerprint
+         FROM scholarships s
+         JOIN scholarship_sources ss ON ss.scholarship_id = s.scholarship_id
+         WHERE ss.fingerprint IN (${unmatched.map(() => '?').join(', ')})`,
+        unmatched
+      );
+      merged.forEach(({ source_fingerprint: sourceFingerprint, ...row }: any) => existing.set(sourceFingerprint, row));
     }
 
-    const deadlineLower = deadline.toLowerCase();
-    
-    // Skip validation for rolling deadlines or no deadline specified
-    if (deadlineLower.includes('rolling') || 
-        deadlineLower.includes('no deadline') || 
-        deadlineLower.includes('ongoing') ||
-        deadlineLower.includes('continuous') ||
-        deadlineLower.includes('open')) {
-      return false;
+    return existing;
+  }
+
+  /**
+   * Looks for near-duplicates of the scholarships that came from other sources
+   * (e.g. "The XYZ Foundation Scholarship" vs "XYZ Scholarship"). Candidates are scored
+   * in memory; the matched rows are loaded one chunk of ids per query.
+   * @returns The matched row and score, keyed by the incoming fingerprint
+   */
+  protected async findCrossSourceDuplicates(
+    scholarships: any[]
+  ): Promise<Map<string, { row: Record<string, any>; score: number }>> {
+    const duplicates = new Map<string, { row: Record<string, any>; score: number }>();
+    if (scholarships.length === 0) {
+      return duplicates;
     }
 
-    try {
-      // Parse the deadline date
-      const deadlineDate = new Date(deadline);
-      
-      // Check if the date is valid
-      if (isNaN(deadlineDate.getTime())) {
-        console.warn(`Invalid deadline format: ${deadline}`);
-        return false; // Don't filter out invalid dates, let them pass through
+    await this.initialize();
+
+    if (!this.dedupCandidates) {
+      const rows = await this.db.query(
+        `SELECT scholarship_id, name, organization, url, apply_url, min_award, max_award, source
+         FROM scholarships WHERE is_active = TRUE AND source <> ?`,
+        [this.constructor.name]
+      );
+      this.dedupCandidates = rows.map((row: any) => ({
+        scholarshipId: row.scholarship_id,
+        name: row.name,
+        organization: row.organization,
+        url: row.url,
+        applyUrl: row.apply_url,
+        minAward: row.min_award === null ? undefined : Number(row.min_award),
+        maxAward: row.max_award === null ? undefined : Number(row.max_award),
+        source: row.source,
+      }));
+    }
+
+    const matches = new Map<string, { scholarshipId: number; score: number }>();
+    for (const scholarship of scholarships) {
+      const match = DedupUtils.findBestMatch(scholarship, this.dedupCandidates!);
+      if (match) {
+        matches.set(scholarship.fingerprint!, { scholarshipId: match.record.scholarshipId, score: match.score });
       }
+    }
+
+    const rowsById = new Map<number, Record<string, any>>();
+    const ids = Array.from(new Set(Array.from(matches.values()).map(match => match.scholarshipId)));
+    for (let start = 0; start < ids.length; start += BULK_WRITE_CHUNK_SIZE) {
+      const chunk = ids.slice(start, start + BULK_WRITE_CHUNK_SIZE);
+      const rows = await this.db.query(
+        `SELECT * FROM scholarships WHERE scholarship_id IN (${chunk.map(() => '?').join(', ')})`,
+        chunk
+      );
+      rows.forEach((row: any) => rowsById.set(row.scholarship_id, row));
+    }
+
+    matches.forEach(({ scholarshipId, score }, fingerprint) => {
+      const row = rowsById.get(scholarshipId);
+      if (row) {
+        duplicates.set(fingerprint, { row, score });
+      }
+    });
+
+    return duplicates;
+  }
+
+  /**
+   * Compares an incoming scholarship with its stored row field by field
+   * @returns The camelCase fields whose values differ from the stored row
+   */
+  protected detectChangedFields(existing: Record<string, any>, scholarship: any): Record<string, any> {
+    const changes: Record<string, any> = {};
+
+    for (const field of UPSERT_TRACKED_FIELDS) {
+      const column = SCHOLARSHIP_FIELD_MAPPING[field];
+      if (!(column in existing)) {
+        continue;
+      }
+      if (normalizeForComparison(existing[column]) !== normalizeForComparison(scholarship[field])) {
+        changes[field] = scholarship[field];
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Merges a record from a secondary source: only fields the stored
+   * scholarship is missing are taken, so sources don't overwrite each other
+   * @returns The camelCase fields to fill in on the stored row
+   */
+  protected detectMissingFields(existing: Record<string, any>, scholarship: any): Record<string, any> {
+    const isMissing = (value: any) => ['', '0', 'unspecified'].includes(normalizeForComparison(value));
+    const changes: Record<string, any> = {};
+
+    for (const field of UPSERT_TRACKED_FIELDS) {
+      const column = SCHOLARSHIP_FIELD_MAPPING[field];
+      if (column in existing && isMissing(existing[column]) && !isMissing(scholarship[field])) {
+        changes[field] = scholarship[field];
+      }
+    }
+
+    return changes;
+  }
 
-      // Compare with current date (end of day for deadline)
-      const now = new Date();
-      const deadlineEndOfDay = new Date(deadlineDate);
-      deadlineEndOfDay.setHours(23, 59, 59, 999); // End of the deadline day
+  protected sourceEntry(scholarshipId: number, scholarship: any, matchScore: number): ScholarshipSourceEntry {
+    return {
+      scholarshipId,
+      fingerprint: scholarship.fingerprint,
+      source: scholarship.source,
+      sourceName: scholarship.name,
+      sourceUrl: scholarship.url,
+      matchScore,
+      jobId: this.jobId,
+    };
+  }
 
-      return deadlineEndOfDay < now;
+  protected async recordSources(entries: ScholarshipSourceEntry[]): Promise<void> {
+    try {
+      await this.db.recordScholarshipSources(entries);
     } catch (error) {
-      console.warn(`Error parsing deadline "${deadline}":`, error);
-      return false; // Don't filter out unparseable dates, let them pass through
+      console.error('Error recording scholarship sources:', error);
     }
   }
 
-  protected async checkDuplicate(scholarship: any): Promise<boolean> {
+  /**
+   * Describes which extractor produced each field and how confident it was
+   * @param fields - Column names to record; defaults to every annotated field
+   */
+  protected fieldProvenanceEntries(
+    scholarshipId: number,
+    provenance: FieldProvenanceMap,
+    fields: string[] = Object.keys(provenance)
+  ): FieldProvenanceEntry[] {
+    return fields
+      .filter(field => provenance[field])
+      .map(field => ({
+        scholarshipId,
+        fieldName: field,
+        extractor: provenance[field].extractor,
+        confidence: provenance[field].confidence,
+        source: this.constructor.name,
+        jobId: this.jobId,
+      }));
+  }
+
+  protected async recordFieldProvenance(entries: FieldProvenanceEntry[]): Promise<void> {
     try {
-      await this.initialize();
-      const result = await this.db.queryOne(
-        'SELECT scholarship_id FROM scholarships WHERE scholarship_id = ?',
-        [scholarship.scholarship_id]
-      );
+      await this.db.recordFieldProvenance(entries);
+    } catch (error) {
+      console.error('Error recording field provenance:', error);
+    }
+  }
 
-      return !!result;
+  /**
+   * Keeps the academic level mapping table in step with the academic_level column
+   */
+  protected async recordAcademicLevels(entries: AcademicLevelsEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.bulkReplaceAcademicLevels(entries);
     } catch (error) {
-      console.error('Error checking for duplicate:', error);
-      return false;
+      console.error('Error recording academic levels:', error);
     }
   }
 
-  protected async saveScholarship(scholarship: any): Promise<boolean> {
+  /**
+   * Stores the list-valued eligibility criteria parsed from the scholarships'
+   * eligibility text; the single-valued ones are columns on the scholarship
+   */
+  protected async recordEligibilityCriteria(entries: EligibilityCriteriaEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
     try {
-      await this.initialize();
-      const now = new Date().toISOString();
-      const itemToSave = {
-        ...scholarship,
-        created_at: scholarship.created_at || now,
-        updated_at: now
-      };
+      await this.db.bulkReplaceEligibilityCriteria(entries);
+    } catch (error) {
+      console.error('Error recording eligibility criteria:', error);
+    }
+  }
 
-      await this.db.insert('scholarships', itemToSave);
+  protected async updateScholarship(
+    existing: Record<string, any>,
+    changes: Record<string, any>
+  ): Promise<boolean> {
+    try {
+      await this.initialize();
+      await new ScholarshipRepository(this.db).update(
+        existing.scholarship_id,
+        { ...changes, updatedAt: new Date(), jobId: this.jobId }
+      );
       return true;
     } catch (error) {
-      console.error('Error saving scholarship:', error);
+      console.error('Error updating scholarship:', error);
       return false;
     }
   }
 
+  /**
+   * Keeps the previous values of audited fields so changes (e.g. a moved
+   * deadline) can be traced back to the job and source that made them
+   */
+  protected historyEntries(existing: Record<string, any>, changes: Record<string, any>): ScholarshipHistoryEntry[] {
+    return HISTORY_TRACKED_FIELDS
+      .filter(field => field in changes)
+      .map(field => ({
+        scholarshipId: existing.scholarship_id,
+        fieldName: SCHOLARSHIP_FIELD_MAPPING[field],
+        previousValue: formatHistoryValue(existing[SCHOLARSHIP_FIELD_MAPPING[field]]),
+        newValue: formatHistoryValue(changes[field]),
+        jobId: this.jobId,
+        source: this.constructor.name,
+      }));
+  }
+
+  protected async recordHistory(entries: ScholarshipHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.insertScholarshipHistory(entries);
+    } catch (error) {
+      console.error('Error recording scholarship history:', error);
+    }
+  }
+
   public async updateJobStatus(
     status: 'running' | 'completed' | 'failed',
     metadata: ScrapingMetadata
   ): Promise<void> {
     try {
+      const now = new Date().toISOString();
       const endTime = status === 'completed' || status === 'failed' 
-        ? new Date().toISOString() 
+        ? now 
         : undefined;
 
-      // Note: Jobs table remains in DynamoDB for now
-      // This method will need to be updated when we migrate jobs to MySQL
+      // URLs robots.txt kept us from fetching are reported with the job's errors; only
+      // requests made while this job runs count, so other scrapers' blocks stay out
+      if (status === 'running' && !this.stopRobotsTracking) {
+        this.robotsBlockedUrls.clear();
+        this.stopRobotsTracking = httpClient.onMetrics(metrics => {
+          if (metrics.blocked) {
+            this.robotsBlockedUrls.add(metrics.url);
+          }
+        });
+      } else if (status !== 'running' && this.stopRobotsTracking) {
+        this.stopRobotsTracking();
+        this.stopRobotsTracking = null;
+      }
+
+      if (!this.jobStore) {
+        this.jobStore = await createJobStoreFromEnv({ jobsTable: this.jobsTable });
+      }
+
+      // Each Batch retry is a new process; keep writing the item an earlier attempt
+      // created (startTime is the table's sort key) instead of starting a second one
+      if (!this.jobRecord) {
+        this.jobRecord = await this.jobStore.getJob(this.jobId);
+      }
+
+      this.jobRecord = {
+        jobId: this.jobId,
+        parentJobId: this.parentJobId,
+        startTime: this.jobRecord?.startTime || now,
+        endTime,
+        status,
+        website: this.website,
+        recordsFound: metadata.recordsFound,
+        recordsProcessed: metadata.recordsProcessed,
+        recordsInserted: metadata.recordsInserted,
+        recordsUpdated: metadata.recordsUpdated,
+        recordsUnchanged: metadata.recordsUnchanged,
+        errors: Array.from(new Set([
+          ...metadata.errors,
+          ...Array.from(this.robotsBlockedUrls, url => `Blocked by robots.txt: ${url}`),
+        ])),
+        environment: this.environment,
+        revision: this.jobRecord?.revision,
+      };
+
       console.log(`Job status update: ${status}`, metadata);
+      await this.jobStore.saveJob(this.jobRecord);
+
+      if (this.parentJobId) {
+        await rollUpParentJob(this.jobStore, this.parentJobId);
+      }
     } catch (error) {
       console.error('Error updating job status:', error);
     }
   }
 
-  protected parseEligibility(eligibilityText: string): {
+  protected parseEligibility(eligibilityText: string): ParsedEligibility & {
     targetType: 'need' | 'merit' | 'both';
     ethnicity: string;
     gender: string;
@@ -224,17 +757,14 @@ export abstract class BaseScraper implements ScraperUtils {
     }
 
     // Parse academic level
-    const academicKeywords = [
-      'undergraduate', 'graduate', 'phd', 'masters', 'bachelors',
-      'high school', 'community college'
-    ];
-    const academicLevel = academicKeywords.find(keyword => text.includes(keyword)) || '';
+    const academicLevel = AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(text));
 
     // Parse requirements
     const essayRequired = text.includes('essay') || text.includes('personal statement');
     const recommendationsRequired = text.includes('recommendation') || text.includes('reference');
 
     return {
+      ...EligibilityUtils.parseEligibility(eligibilityText),
       targetType,
       ethnicity,
       gender,
@@ -244,26 +774,86 @@ export abstract class BaseScraper implements ScraperUtils {
     };
   }
 
-  protected async getWebsitesFromDynamoDB(): Promise<any[]> {
+  protected async getWebsitesFromDynamoDB(): Promise<WebsiteRecord[]> {
     try {
       await this.initialize();
-      const websites = await this.db.query(
-        'SELECT * FROM websites'
-      );
-      return websites;
+      return await new WebsiteRepository(this.db).listWebsites();
     } catch (error) {
       console.error('Error getting websites from MySQL:', error);
       return [];
     }
   }
 
+  /**
+   * Normalizes a scraped scholarship into the record stored for it
+   */
+  protected prepareScholarship(scholarship: any): PreparedScholarship {
+    // Scrapers build snake_case records, so fall back to the mapped column name
+    const field = (key: string) => scholarship[key] ?? scholarship[SCHOLARSHIP_FIELD_MAPPING[key]];
+
+    const provenance: FieldProvenanceMap = scholarship.field_provenance || {};
+    const deadline = DeadlineUtils.parseDeadline(field('deadline'));
+    const academicLevels = AcademicLevelUtils.normalizeAcademicLevels(field('academicLevel'));
+    const eligibility = EligibilityUtils.parseEligibility(field('eligibility'), field('geographicRestrictions'));
+    const now = new Date();
+
+    const record: NewScholarship = {
+      fingerprint: this.generateFingerprint(scholarship),
+      name: scholarship.name || scholarship.title || '',
+      deadline: deadline.date,
+      deadlineType: deadline.kind,
+      deadlineText: deadline.raw,
+      url: field('url') || '',
+      description: field('description') || '',
+      eligibility: field('eligibility') || '',
+      organization: field('organization') || '',
+      academicLevel: AcademicLevelUtils.toAcademicLevelField(academicLevels),
+      geographicRestrictions: field('geographicRestrictions') || '',
+      targetType: (field('targetType') || 'both') as 'need' | 'merit' | 'both',
+      ethnicity: TextUtils.ensureNonEmptyString(field('ethnicity'), 'unspecified'),
+      gender: TextUtils.ensureNonEmptyString(field('gender'), 'unspecified'),
+      minAward: field('minAward') ?? null,
+      maxAward: field('maxAward') ?? null,
+      awardVaries: field('awardVaries') ?? false,
+      awardCurrency: field('awardCurrency') || 'USD',
+      awardPeriod: field('awardPeriod') || 'one_time',
+      nonMonetaryAwards: field('nonMonetaryAwards') || '',
+      minGpa: eligibility.minGpa,
+      citizenship: eligibility.citizenship.join(','),
+      enrollmentStatus: eligibility.enrollmentStatus.join(','),
+      firstGeneration: eligibility.firstGeneration,
+      militaryAffiliation: eligibility.militaryAffiliation.join(','),
+      disability: eligibility.disability,
+      renewable: field('renewable') || false,
+      country: field('country') || 'US',
+      applyUrl: field('applyUrl') || '',
+      isActive: field('isActive') !== undefined ? field('isActive') : true,
+      essayRequired: field('essayRequired') || false,
+      recommendationsRequired: field('recommendationsRequired') || scholarship.recommendation_required || false,
+      createdAt: now,
+      updatedAt: now,
+      source: this.constructor.name,
+      jobId: this.jobId,
+    };
+
+    return { record, provenance, academicLevels, eligibility };
+  }
+
+  /**
+   * Stores a page of scraped scholarships. Existing rows and cross-source duplicates are
+   * looked up, new or changed ones written, and their history, sources, provenance and
+   * criteria recorded in chunks of BULK_WRITE_CHUNK_SIZE, so a large scrape costs a few
+   * statements per chunk rather than several round trips per record.
+   */
   protected async processScholarships(scholarships: any[]): Promise<{
     inserted: number;
     updated: number;
+    unchanged: number;
     errors: string[];
   }> {
     let inserted = 0;
     let updated = 0;
+    let unchanged = 0;
     const errors: string[] = [];
 
     // Filter out scholarships with expired deadlines
@@ -272,7 +862,7 @@ export abstract class BaseScraper implements ScraperUtils {
         return true; // Keep scholarships without deadlines (rolling, etc.)
       }
       
-      const isExpired = this.isDeadlineExpired(scholarship.deadline);
+      const isExpired = DeadlineUtils.isDeadlineExpired(scholarship.deadline);
       if (isExpired) {
         console.log(`Skipping expired scholarship: ${scholarship.name} (deadline: ${scholarship.deadline})`);
       }
@@ -281,54 +871,124 @@ export abstract class BaseScraper implements ScraperUtils {
 
     console.log(`Filtered ${scholarships.length - validScholarships.length} expired scholarships, processing ${validScholarships.length} valid scholarships`);
 
+    const prepared: PreparedScholarship[] = [];
     for (const scholarship of validScholarships) {
       try {
-        // Generate ID and add required fields
-        const fullScholarship: any = {
-          id: this.generateScholarshipId(scholarship),
-          name: scholarship.name || '',
-          deadline: scholarship.deadline || '',
-          url: scholarship.url || '',
-          description: scholarship.description || '',
-          eligibility: scholarship.eligibility || '',
-          organization: scholarship.organization || '',
-          academicLevel: scholarship.academicLevel || '',
-          geographicRestrictions: scholarship.geographicRestrictions || '',
-          targetType: (scholarship.targetType || 'both') as 'need' | 'merit' | 'both',
-                  ethnicity: TextUtils.ensureNonEmptyString(scholarship.ethnicity, 'unspecified'),
-        gender: TextUtils.ensureNonEmptyString(scholarship.gender, 'unspecified'),
-          minAward: scholarship.minAward || 0,
-          maxAward: scholarship.maxAward || 0,
-          renewable: scholarship.renewable || false,
-          country: scholarship.country || 'US',
-          applyUrl: scholarship.applyUrl || '',
-          isActive: scholarship.isActive !== undefined ? scholarship.isActive : true,
-          essayRequired: scholarship.essayRequired || false,
-          recommendationsRequired: scholarship.recommendationsRequired || false,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          source: this.constructor.name,
-          jobId: this.jobId,
-        };
-
-        // Check for duplicates
-        const isDuplicate = await this.checkDuplicate(fullScholarship);
-        
-        if (!isDuplicate) {
-          const saved = await this.saveScholarship(fullScholarship);
+        prepared.push(this.prepareScholarship(scholarship));
+      } catch (error) {
+        errors.push(`Error processing scholarship: ${error}`);
+      }
+    }
+
+    // New scholarships and changes from the primary source, written together in bulk
+    const writes: PreparedScholarship[] = [];
+    // Rows for the side tables, each written in bulk once the scholarships are saved
+    const sources: ScholarshipSourceEntry[] = [];
+    const provenance: FieldProvenanceEntry[] = [];
+    const history: ScholarshipHistoryEntry[] = [];
+    const derived: DerivedCriteria = { academicLevels: [], eligibility: [] };
+
+    try {
+      const existingByFingerprint = await this.findExistingScholarships(prepared.map(item => item.record.fingerprint!));
+      const duplicates = await this.findCrossSourceDuplicates(
+        prepared.filter(item => !existingByFingerprint.has(item.record.fingerprint!)).map(item => item.record)
+      );
+
+      for (const item of prepared) {
+        const { record } = item;
+        try {
+          let existing = existingByFingerprint.get(record.fingerprint!) || null;
+          let matchScore = existing?.source_match_score !== undefined ? Number(existing.source_match_score) : 1;
+
+          const duplicate = existing ? undefined : duplicates.get(record.fingerprint!);
+          if (duplicate) {
+            console.log(`Merging ${record.name} into ${duplicate.row.name} (score ${duplicate.score.toFixed(2)})`);
+            existing = duplicate.row;
+            matchScore = duplicate.score;
+          }
+
+          if (!existing) {
+            writes.push(item);
+            continue;
+          }
+
+          sources.push(this.sourceEntry(existing.scholarship_id, record, matchScore));
+
+          // The source that created the record owns it; other sources only fill gaps
+          const isPrimarySource = existing.fingerprint === record.fingerprint;
+          const changes = isPrimarySource
+            ? this.detectChangedFields(existing, record)
+            : this.detectMissingFields(existing, record);
+          if (Object.keys(changes).length === 0) {
+            unchanged++;
+            continue;
+          }
+
+          console.log(`Updating scholarship ${record.name}: ${Object.keys(changes).join(', ')} changed`);
+          if (isPrimarySource) {
+            writes.push({ ...item, existing, changes });
+            continue;
+          }
+
+          const saved = await this.updateScholarship(existing, changes);
           if (saved) {
-            inserted++;
+            updated++;
+            provenance.push(...this.fieldProvenanceEntries(
+              existing.scholarship_id,
+              item.provenance,
+              Object.keys(changes).map(field => SCHOLARSHIP_FIELD_MAPPING[field])
+            ));
+            history.push(...this.historyEntries(existing, changes));
+            addDerivedCriteria(derived, existing.scholarship_id, item, changes);
           } else {
-            errors.push(`Failed to save scholarship: ${fullScholarship.name}`);
+            errors.push(`Failed to update scholarship: ${record.name}`);
           }
-        } else {
+        } catch (error) {
+          errors.push(`Error processing scholarship: ${error}`);
+        }
+      }
+
+      const repository = new ScholarshipRepository(this.db);
+      const saved: Array<{ item: PreparedScholarship; result: BulkUpsertScholarshipResult }> = [];
+      for (const group of groupByChangedFields(writes)) {
+        const results = await repository.bulkUpsert(group.items.map(item => item.record), {
+          updateFields: group.updateFields,
+          existingFingerprints: group.items.filter(item => item.existing).map(item => item.record.fingerprint!),
+        });
+        results.forEach((result, index) => saved.push({ item: group.items[index], result }));
+      }
+
+      for (const { item, result } of saved) {
+        if (result.scholarshipId === null) {
+          errors.push(`Failed to save scholarship: ${item.record.name}${result.error ? ` (${result.error})` : ''}`);
+          continue;
+        }
+
+        if (item.existing && item.changes) {
           updated++;
+          history.push(...this.historyEntries(item.existing, item.changes));
+        } else {
+          // A repeat of a fingerprint written earlier in this page updates that row
+          if (result.outcome === 'inserted') {
+            inserted++;
+          } else {
+            updated++;
+          }
+          sources.push(this.sourceEntry(result.scholarshipId, item.record, 1));
         }
-      } catch (error) {
-        errors.push(`Error processing scholarship: ${error}`);
+        provenance.push(...this.fieldProvenanceEntries(result.scholarshipId, item.provenance));
+        addDerivedCriteria(derived, result.scholarshipId, item, item.changes);
       }
+    } catch (error) {
+      errors.push(`Error processing scholarships: ${error}`);
     }
 
-    return { inserted, updated, errors };
+    await this.recordSources(sources);
+    await this.recordFieldProvenance(provenance);
+    await this.recordHistory(history);
+    await this.recordAcademicLevels(derived.academicLevels);
+    await this.recordEligibilityCriteria(derived.eligibility);
+
+    return { inserted, updated, unchanged, errors };
   }
-} 
\ No newline at end of file
+}
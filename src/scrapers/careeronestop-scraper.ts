@@ -1,10 +1,13 @@
 import { BaseScraper } from './base-scraper';
-import { ScrapingResult, Scholarship } from '../utils/types';
-import axios from 'axios';
+import { ScraperRegistry } from './scraper-registry';
+import { ScrapingResult, Scholarship, ScrapedScholarship } from '../utils/types';
+import { ProvenanceUtils, FieldProvenanceMap } from '../utils/provenance-utils';
+import { CrawlFrontier, CatalogCoverage } from '../utils/crawl-frontier';
+import { AmountUtils } from '../utils/amount-utils';
+import { AcademicLevelUtils } from '../utils/academic-level-utils';
 import * as cheerio from 'cheerio';
 import { 
   ScrapingUtils, 
-  NetworkUtils, 
   ScholarshipUtils, 
   TextUtils 
 } from '../utils/helper';
@@ -18,6 +21,7 @@ import {
   DESCRIPTION_MAX_LENGTH,
   ELIGIBILITY_MAX_LENGTH
 } from '../utils/constants';
+import { httpClient } from '../utils/http-client';
 
 export class CareerOneStopScraper extends BaseScraper {
   private defaultOptions = {
@@ -26,21 +30,39 @@ export class CareerOneStopScraper extends BaseScraper {
     retryAttempts: MAX_RETRY_ATTEMPTS
   };
 
-  async fetchScholarshipDetails(url: string): Promise<Partial<Scholarship>> {
+  // Detail pages parsed this run, confirmed in the page cache once their scholarships are saved
+  private parsedDetailUrls: string[] = [];
+
+  /**
+   * Fetches and parses a scholarship's detail page
+   * @param url - Detail page URL
+   * @param context - The listing row linking to the page; a changed row re-parses an unchanged page
+   * @returns The details, or null when the page is unchanged since its last parse
+   */
+  async fetchScholarshipDetails(url: string, context?: string): Promise<Partial<Scholarship> | null> {
     try {
-      const response = await axios.get(url, {
+      const pageCache = await this.getPageCache();
+      const page = await pageCache.fetch(url, {
         headers: ScrapingUtils.SCRAPING_HEADERS,
-        timeout: AXIOS_GET_TIMEOUT
+        timeoutMs: AXIOS_GET_TIMEOUT,
+        render: await this.getRenderOptions('#scholarshipDetailContent'),
+        context,
+        // Only the details table is parsed, so layout changes around it don't count
+        extract: body => cheerio.load(body)('#scholarshipDetailContent').html() || body
       });
+      if (!page.changed) {
+        return null;
+      }
+      const html = page.body;
       
       // Store raw HTML in S3
-      await this.storeRawData(url, response.data, 'text/html', {
+      await this.storeRawData(url, html, 'text/html', {
         status: 'success',
         contentType: 'text/html',
-        size: response.data.length,
+        size: html.length,
       });
       
-      const $ = cheerio.load(response.data);
+      const $ = cheerio.load(html);
       const details: Partial<Scholarship> = {};
       $('#scholarshipDetailContent table tr').each((i, elem) => {
         const $row = $(elem);
@@ -53,22 +75,24 @@ export class CareerOneStopScraper extends BaseScraper {
             details.organization = value;
             break;
           case 'level of study':
-            details.academic_level = ScholarshipUtils.cleanAcademicLevel(value) || undefined;
+            details.academic_level = AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(value)) || undefined;
             break;
           case 'qualifications':
             details.eligibility = value;
             break;
-          case 'funds':
-            const amount = ScholarshipUtils.cleanAmount(value);
-            details.min_award = parseFloat(amount) || 0;
-            details.max_award = parseFloat(amount) || 0;
+          case 'funds': {
+            const award = AmountUtils.parseAward(value);
+            if (award.min !== null || award.max !== null || award.nonMonetary.length > 0) {
+              Object.assign(details, AmountUtils.toAwardFields(award));
+            }
             break;
+          }
           case 'duration':
             const durationLower = value.toLowerCase();
             details.renewable = durationLower.includes('years') || durationLower.includes('annual') || durationLower.includes('renewable');
             break;
           case 'deadline':
-            details.deadline = ScholarshipUtils.formatDeadline(value);
+            details.deadline = value;
             break;
           case 'location':
           case 'geographic restrictions':
@@ -98,6 +122,7 @@ export class CareerOneStopScraper extends BaseScraper {
           details.apply_url = moreInfoLink;
         }
       }
+      this.parsedDetailUrls.push(url);
       return details;
     } catch (error) {
       console.error(`Error fetching details from ${url}:`, error);
@@ -105,167 +130,239 @@ export class CareerOneStopScraper extends BaseScraper {
     }
   }
 
+  /**
+   * Scrapes one page of the CareerOneStop listing
+   * @param page - Listing page to fetch
+   * @returns Number of listing rows on the page, the scholarships built from them, and how
+   * many rows were skipped because their detail page is unchanged
+   */
+  private async scrapeListingPage(page: number): Promise<{ rowCount: number; scholarships: ScrapedScholarship[]; unchanged: number }> {
+    const opts = { ...this.defaultOptions };
+    const searchUrl = ScrapingUtils.buildPageUrl(CAREERONESTOP_URL, page);
+    const html = await httpClient.fetchText(searchUrl, {
+      headers: ScrapingUtils.SCRAPING_HEADERS,
+      timeoutMs: opts.timeout,
+      maxRetries: opts.retryAttempts,
+      render: await this.getRenderOptions('table tr')
+    });
+    
+    // Store raw HTML in S3
+    await this.storeRawData(searchUrl, html, 'text/html', {
+      status: 'success',
+      contentType: 'text/html',
+      size: html.length,
+    });
+    
+    const $ = cheerio.load(html);
+    const scholarshipPromises: Promise<ScrapedScholarship | null>[] = [];
+    let rowCount = 0;
+    $('table tr').each((i, elem) => {
+      const $row = $(elem);
+      const $cells = $row.find('td');
+      if ($cells.length < 5) return;
+      rowCount++;
+      const $nameCell = $cells.eq(0);
+      const $levelCell = $cells.eq(1);
+      const $typeCell = $cells.eq(2);
+      const $amountCell = $cells.eq(3);
+      const $deadlineCell = $cells.eq(4);
+      const awardType = $typeCell.text().trim();
+      if (!awardType.toLowerCase().includes('scholarship')) return;
+      const $link = $nameCell.find('a');
+      const title = $link.text().trim() || $nameCell.find('.detailPageLink').text().trim();
+      if (!title || title === 'Award Name') return;
+      const organizationText = $nameCell.text();
+      const orgMatch = organizationText.match(/Organization:\s*(.+?)(?:\n|<br>|Purposes:)/i);
+      let organization = orgMatch ? orgMatch[1].trim() : '';
+      if (organization) {
+        organization = TextUtils.cleanText(organization.split('\n')[0].trim(), { quotes: true });
+      }
+      const purposesMatch = organizationText.match(/Purposes:\s*(.+?)$/i);
+      const purposes = purposesMatch ? purposesMatch[1].trim() : '';
+      const rowText = $row.text().replace(/\s+/g, ' ').trim();
+      const detailLink = $link.attr('href');
+      const fullUrl = detailLink ? (detailLink.startsWith('http') ? detailLink : `https://www.careeronestop.org${detailLink}`) : '';
+      const levelOfStudy = $levelCell.text().trim().replace(/\s+/g, ' ');
+      let amount = $amountCell.find('.table-Numeric').text().trim() || $amountCell.text().trim() || 'Amount not specified';
+      const award = AmountUtils.toAwardFields(AmountUtils.parseAward(amount));
+      const rawDeadline = $deadlineCell.text().trim() || 'No deadline specified';
+      const deadline = TextUtils.cleanText(rawDeadline, { quotes: true });
+      let description = '';
+      if (purposes) {
+        description = TextUtils.truncateText(TextUtils.cleanText(purposes || '', { quotes: true }), DESCRIPTION_MAX_LENGTH);
+      } else {
+        description = `Scholarship offered by ${organization || 'CareerOneStop database'}`;
+      }
+      const cleanName = TextUtils.cleanText(title, { quotes: true });
+      const cleanDeadline = deadline;
+      const cleanDescription = TextUtils.truncateText(TextUtils.cleanText(description, { quotes: true }), DESCRIPTION_MAX_LENGTH);
+      const cleanOrganization = TextUtils.cleanText(organization || '', { quotes: true });
+      const cleanedAcademicLevel = AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(levelOfStudy));
+      const targetTypeRaw = ScholarshipUtils.determineTargetType(`${title} ${description} ${purposes}`);
+      const targetType = (targetTypeRaw === 'Merit' ? 'merit' : targetTypeRaw === 'Need' ? 'need' : 'both') as 'need' | 'merit' | 'both';
+      const ethnicity = ScholarshipUtils.extractEthnicity(`${title} ${description} ${purposes}`);
+      const gender = ScholarshipUtils.extractGender(`${title} ${description} ${purposes}`);
+      const provenance: FieldProvenanceMap = {};
+      ProvenanceUtils.annotate(provenance, ['name', 'deadline', 'url', 'organization', 'academic_level'], 'listing_table');
+      ProvenanceUtils.annotateValues(provenance, award, 'listing_table');
+      ProvenanceUtils.annotate(provenance, ['description'], purposes ? 'listing_table' : 'default');
+      ProvenanceUtils.annotate(provenance, ['target_type', 'ethnicity', 'gender'], 'keyword_heuristic');
+      const scholarshipPromise = (async (): Promise<ScrapedScholarship | null> => {
+        const scholarship: ScrapedScholarship = {
+          title: cleanName,
+          deadline: cleanDeadline,
+          url: fullUrl,
+          description: TextUtils.truncateText(TextUtils.removeRedundantPhrases(cleanDescription), DESCRIPTION_MAX_LENGTH),
+          eligibility: TextUtils.truncateText(TextUtils.removeRedundantPhrases(''), ELIGIBILITY_MAX_LENGTH),
+          source: 'CareerOneStop',
+          organization: cleanOrganization,
+          academic_level: cleanedAcademicLevel,
+          geographic_restrictions: '', // CareerOneStop doesn't provide in main listing
+          target_type: (TextUtils.ensureNonEmptyString(targetType, 'both') as 'need' | 'merit' | 'both'),
+          ethnicity: TextUtils.ensureNonEmptyString(ethnicity, 'unspecified'),
+          gender: TextUtils.ensureNonEmptyString(gender, 'unspecified'),
+          ...award,
+          renewable: false,
+          country: 'United States',
+          apply_url: '',
+          essay_required: false,
+          recommendation_required: false,
+          field_provenance: provenance
+        };
+
+        // Fetch additional details if URL is available
+        if (fullUrl) {
+          try {
+            const details = await this.fetchScholarshipDetails(fullUrl, rowText);
+            if (!details) {
+              // Neither the row nor its detail page changed since the scholarship was saved
+              return null;
+            }
+            ProvenanceUtils.annotateValues(provenance, details, 'detail_page');
+            if (details.organization) {
+              scholarship.organization = details.organization;
+            }
+            if (details.academic_level) {
+              scholarship.academic_level = details.academic_level;
+            }
+            if (details.eligibility) {
+              scholarship.eligibility = TextUtils.truncateText(
+                TextUtils.removeRedundantPhrases(details.eligibility), 
+                ELIGIBILITY_MAX_LENGTH
+              );
+            }
+            if (details.award_currency) {
+              // The detail page's funds row describes the award more fully than the listing
+              scholarship.min_award = details.min_award;
+              scholarship.max_award = details.max_award;
+              scholarship.award_varies = details.award_varies;
+              scholarship.award_currency = details.award_currency;
+              scholarship.award_period = details.award_period;
+              scholarship.non_monetary_awards = details.non_monetary_awards;
+            }
+            if (details.renewable !== undefined) {
+              scholarship.renewable = details.renewable;
+            }
+            if (details.deadline) {
+              scholarship.deadline = details.deadline;
+            }
+            if (details.geographic_restrictions) {
+              scholarship.geographic_restrictions = details.geographic_restrictions;
+            }
+            if (details.apply_url) {
+              scholarship.apply_url = details.apply_url;
+            }
+          } catch (detailError) {
+            console.warn(`Failed to fetch details for ${fullUrl}:`, detailError);
+          }
+        }
+
+        return scholarship;
+      })();
+      scholarshipPromises.push(scholarshipPromise);
+    });
+    const results = await Promise.all(scholarshipPromises);
+    const scholarships = results.filter((scholarship: ScrapedScholarship | null): scholarship is ScrapedScholarship => scholarship !== null);
+    return { rowCount, scholarships, unchanged: results.length - scholarships.length };
+  }
+
   async scrape(): Promise<ScrapingResult> {
     console.log('Starting CareerOneStop scraping...');
     const opts = { ...this.defaultOptions };
-    let scholarships: Scholarship[] = [];
+    let scholarships: ScrapedScholarship[] = [];
     let errors: string[] = [];
+    let coverage: CatalogCoverage | undefined;
+    let unchangedPages = 0;
+    let frontier: CrawlFrontier | undefined;
+    let listingPage: { page: number; rowCount: number } | undefined;
+    this.parsedDetailUrls = [];
     try {
       await this.updateJobStatus('running', {
         recordsFound: 0,
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsUnchanged: 0,
         errors: [],
       });
-      scholarships = await NetworkUtils.withRetry(async () => {
-        const baseOffset = CAREERONESTOP_PAGE_OFFSET;
-        const pageOffset = ScrapingUtils.calculatePageOffset({ baseOffset });
-        const searchUrl = ScrapingUtils.buildPageUrl(CAREERONESTOP_URL, pageOffset);
-        const response = await axios.get(searchUrl, {
-          headers: ScrapingUtils.SCRAPING_HEADERS,
-          timeout: opts.timeout
-        });
-        
-        // Store raw HTML in S3
-        await this.storeRawData(searchUrl, response.data, 'text/html', {
-          status: 'success',
-          contentType: 'text/html',
-          size: response.data.length,
-        });
-        
-        const $ = cheerio.load(response.data);
-        const scholarshipPromises: Promise<Scholarship>[] = [];
-        $('table tr').each((i, elem) => {
-          const $row = $(elem);
-          const $cells = $row.find('td');
-          if ($cells.length < 5) return;
-          const $nameCell = $cells.eq(0);
-          const $levelCell = $cells.eq(1);
-          const $typeCell = $cells.eq(2);
-          const $amountCell = $cells.eq(3);
-          const $deadlineCell = $cells.eq(4);
-          const awardType = $typeCell.text().trim();
-          if (!awardType.toLowerCase().includes('scholarship')) return;
-          const $link = $nameCell.find('a');
-          const title = $link.text().trim() || $nameCell.find('.detailPageLink').text().trim();
-          if (!title || title === 'Award Name') return;
-          const organizationText = $nameCell.text();
-          const orgMatch = organizationText.match(/Organization:\s*(.+?)(?:\n|<br>|Purposes:)/i);
-          let organization = orgMatch ? orgMatch[1].trim() : '';
-          if (organization) {
-            organization = TextUtils.cleanText(organization.split('\n')[0].trim(), { quotes: true });
-          }
-          const purposesMatch = organizationText.match(/Purposes:\s*(.+?)$/i);
-          const purposes = purposesMatch ? purposesMatch[1].trim() : '';
-          const detailLink = $link.attr('href');
-          const fullUrl = detailLink ? (detailLink.startsWith('http') ? detailLink : `https://www.careeronestop.org${detailLink}`) : '';
-          const levelOfStudy = $levelCell.text().trim().replace(/\s+/g, ' ');
-          let amount = $amountCell.find('.table-Numeric').text().trim() || $amountCell.text().trim() || 'Amount not specified';
-          const minAward = ScholarshipUtils.cleanAmount(amount);
-          const maxAward = minAward;
-          const rawDeadline = $deadlineCell.text().trim() || 'No deadline specified';
-          const deadline = TextUtils.cleanText(ScholarshipUtils.formatDeadline(rawDeadline), { quotes: true });
-          let description = '';
-          if (purposes) {
-            description = TextUtils.truncateText(TextUtils.cleanText(purposes || '', { quotes: true }), DESCRIPTION_MAX_LENGTH);
-          } else {
-            description = `Scholarship offered by ${organization || 'CareerOneStop database'}`;
-          }
-          const cleanName = TextUtils.cleanText(title, { quotes: true });
-          const cleanDeadline = TextUtils.cleanText(ScholarshipUtils.formatDeadline(deadline), { quotes: true });
-          const cleanDescription = TextUtils.truncateText(TextUtils.cleanText(description, { quotes: true }), DESCRIPTION_MAX_LENGTH);
-          const cleanOrganization = TextUtils.cleanText(organization || '', { quotes: true });
-          const cleanedAcademicLevel = ScholarshipUtils.cleanAcademicLevel(levelOfStudy || '') || '';
-          const targetTypeRaw = ScholarshipUtils.determineTargetType(`${title} ${description} ${purposes}`);
-          const targetType = (targetTypeRaw === 'Merit' ? 'merit' : targetTypeRaw === 'Need' ? 'need' : 'both') as 'need' | 'merit' | 'both';
-          const ethnicity = ScholarshipUtils.extractEthnicity(`${title} ${description} ${purposes}`);
-          const gender = ScholarshipUtils.extractGender(`${title} ${description} ${purposes}`);
-          const scholarshipPromise = (async () => {
-            const scholarship: Scholarship = {
-              title: cleanName,
-              deadline: cleanDeadline,
-              url: fullUrl,
-              description: TextUtils.truncateText(TextUtils.removeRedundantPhrases(cleanDescription), DESCRIPTION_MAX_LENGTH),
-              eligibility: TextUtils.truncateText(TextUtils.removeRedundantPhrases(''), ELIGIBILITY_MAX_LENGTH),
-              source: 'CareerOneStop',
-              organization: cleanOrganization,
-              academic_level: cleanedAcademicLevel,
-              geographic_restrictions: '', // CareerOneStop doesn't provide in main listing
-              target_type: (TextUtils.ensureNonEmptyString(targetType, 'both') as 'need' | 'merit' | 'both'),
-              ethnicity: TextUtils.ensureNonEmptyString(ethnicity, 'unspecified'),
-              gender: TextUtils.ensureNonEmptyString(gender, 'unspecified'),
-              min_award: parseFloat(minAward.toString()) || 0,
-              max_award: parseFloat(maxAward.toString()) || 0,
-              renewable: false,
-              country: 'United States',
-              apply_url: '',
-              essay_required: false,
-              recommendation_required: false
-            };
+      frontier = await this.loadCrawlFrontier('CareerOneStop', CAREERONESTOP_PAGE_OFFSET);
+      let page = frontier.nextPage;
+      let listing = await this.scrapeListingPage(page);
 
-            // Fetch additional details if URL is available
-            if (fullUrl) {
-              try {
-                const details = await this.fetchScholarshipDetails(fullUrl);
-                if (details.organization) {
-                  scholarship.organization = details.organization;
-                }
-                if (details.academic_level) {
-                  scholarship.academic_level = details.academic_level;
-                }
-                if (details.eligibility) {
-                  scholarship.eligibility = TextUtils.truncateText(
-                    TextUtils.removeRedundantPhrases(details.eligibility), 
-                    ELIGIBILITY_MAX_LENGTH
-                  );
-                }
-                if (details.min_award && details.min_award > 0) {
-                  scholarship.min_award = details.min_award;
-                }
-                if (details.max_award && details.max_award > 0) {
-                  scholarship.max_award = details.max_award;
-                }
-                if (details.renewable !== undefined) {
-                  scholarship.renewable = details.renewable;
-                }
-                if (details.deadline) {
-                  scholarship.deadline = details.deadline;
-                }
-                if (details.geographic_restrictions) {
-                  scholarship.geographic_restrictions = details.geographic_restrictions;
-                }
-                if (details.apply_url) {
-                  scholarship.apply_url = details.apply_url;
-                }
-              } catch (detailError) {
-                console.warn(`Failed to fetch details for ${fullUrl}:`, detailError);
-              }
-            }
+      // Past the end of the catalog the frontier wraps, so read the first page instead
+      if (listing.rowCount === 0) {
+        await frontier.recordPage(page, 0);
+        if (page !== frontier.nextPage) {
+          page = frontier.nextPage;
+          listing = await this.scrapeListingPage(page);
+        }
+      }
 
-            return scholarship;
-          })();
-          scholarshipPromises.push(scholarshipPromise);
-        });
-        return Promise.all(scholarshipPromises);
-      }, opts.retryAttempts);
+      listingPage = { page, rowCount: listing.rowCount };
+      scholarships = listing.scholarships;
+      unchangedPages = listing.unchanged;
+      if (unchangedPages > 0) {
+        console.log(`♻️ ${unchangedPages} detail pages unchanged since their last parse, skipped`);
+      }
     } catch (error) {
       console.error('Error during CareerOneStop scraping:', error);
       errors.push(error instanceof Error ? error.message : 'Unknown error during scraping');
     }
 
     const processResult = await this.processScholarships(scholarships);
+
+    // Move past this listing page and skip these detail pages next run only if their scholarships were saved
+    if (processResult.errors.length === 0) {
+      try {
+        if (frontier && listingPage && listingPage.rowCount > 0) {
+          await frontier.recordPage(listingPage.page, listingPage.rowCount);
+        }
+        const pageCache = await this.getPageCache();
+        for (const url of this.parsedDetailUrls) {
+          await pageCache.markParsed(url, 1);
+        }
+      } catch (error) {
+        console.error('Error updating crawl frontier or page cache:', error);
+      }
+    }
+
+    if (frontier) {
+      coverage = frontier.coverage();
+      console.log(`Catalog coverage for CareerOneStop: ${coverage.pagesVisited}/${coverage.catalogPages ?? '?'} pages this pass (cycle ${coverage.cycle})`);
+    }
     
     const result: ScrapingResult = {
       success: errors.length === 0,
       scholarships,
       errors: [...errors, ...processResult.errors],
       metadata: {
-        totalFound: scholarships.length,
+        totalFound: scholarships.length + unchangedPages,
         totalProcessed: scholarships.length,
         totalInserted: processResult.inserted,
         totalUpdated: processResult.updated,
+        totalUnchanged: processResult.unchanged + unchangedPages,
       },
+      coverage,
     };
     
     await this.updateJobStatus('completed', {
@@ -273,9 +370,17 @@ export class CareerOneStopScraper extends BaseScraper {
       recordsProcessed: result.metadata.totalProcessed,
       recordsInserted: result.metadata.totalInserted,
       recordsUpdated: result.metadata.totalUpdated,
+      recordsUnchanged: result.metadata.totalUnchanged,
       errors: result.errors,
     });
     
     return result;
   }
-} 
\ No newline at end of file
+}
+
+ScraperRegistry.register('CareerOneStopScraper', CareerOneStopScraper, {
+  displayName: 'CareerOneStop',
+  description: 'Scrapes the CareerOneStop scholarship finder listing and detail pages',
+  type: 'scrape',
+  aliases: ['careeronestop'],
+});
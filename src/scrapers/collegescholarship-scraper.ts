@@ -1,11 +1,13 @@
 import { BaseScraper } from './base-scraper';
+import { ScraperRegistry } from './scraper-registry';
 import { ScrapingResult } from '../utils/types';
+import { ProvenanceUtils, FieldProvenanceMap } from '../utils/provenance-utils';
+import { AmountUtils } from '../utils/amount-utils';
+import { AcademicLevelUtils } from '../utils/academic-level-utils';
 import { Scholarship } from '../shared-types/scholarship.types';
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { 
   ScrapingUtils, 
-  NetworkUtils, 
   ScholarshipUtils, 
   TextUtils 
 } from '../utils/helper';
@@ -19,6 +21,7 @@ import {
   DESCRIPTION_MAX_LENGTH,
   ELIGIBILITY_MAX_LENGTH
 } from '../utils/constants';
+import { httpClient } from '../utils/http-client';
 
 export class CollegeScholarshipScraper extends BaseScraper {
   private defaultOptions = {
@@ -51,11 +54,12 @@ export class CollegeScholarshipScraper extends BaseScraper {
 
   async fetchScholarshipDetails(url: string): Promise<any> {
     try {
-      const response = await axios.get(url, {
+      const html = await httpClient.fetchText(url, {
         headers: ScrapingUtils.SCRAPING_HEADERS,
-        timeout: Math.min(AXIOS_GET_TIMEOUT, 10000) // Cap at 10 seconds to prevent hanging
+        timeoutMs: Math.min(AXIOS_GET_TIMEOUT, 10000), // Cap at 10 seconds to prevent hanging
+        render: await this.getRenderOptions('#scholarship-view')
       });
-      const $ = cheerio.load(response.data);
+      const $ = cheerio.load(html);
       const details: any = {};
       
       // Extract detailed description
@@ -65,6 +69,7 @@ export class CollegeScholarshipScraper extends BaseScraper {
       }
       
       // Extract details from the callout-details section
+      const awardText: string[] = [];
       $('#scholarship-view .callout-details dl dt').each((i, elem) => {
         const $dt = $(elem);
         const $dd = $dt.next('dd');
@@ -73,21 +78,27 @@ export class CollegeScholarshipScraper extends BaseScraper {
         
         switch (label) {
           case 'deadline:':
-            details.deadline = ScholarshipUtils.formatDeadline(value);
+            details.deadline = value;
             break;
           case 'renewable':
             details.renewable = value.toLowerCase().includes('yes') || value.toLowerCase().includes('renewable');
             break;
           case 'min. award:':
-            const minAmount = ScholarshipUtils.cleanAmount(value);
-            details.min_award = parseFloat(minAmount) || 0;
+            awardText.unshift(value);
             break;
           case 'max. award:':
-            const maxAmount = ScholarshipUtils.cleanAmount(value);
-            details.max_award = parseFloat(maxAmount) || 0;
+            awardText.push(value);
             break;
         }
       });
+
+      // Min and max callouts read as one range ("$500 - $2,000")
+      if (awardText.length > 0) {
+        const award = AmountUtils.parseAward(awardText.join(' - '));
+        if (award.min !== null || award.max !== null || award.nonMonetary.length > 0) {
+          Object.assign(details, AmountUtils.toAwardFields(award));
+        }
+      }
       
       // Extract misc information
       $('#scholarship-view .callout-misc dl dt').each((i, elem) => {
@@ -97,9 +108,14 @@ export class CollegeScholarshipScraper extends BaseScraper {
         const value = $dd.text().trim();
         
         switch (label) {
-          case 'enrollment level:':
-            details.academic_level = ScholarshipUtils.cleanAcademicLevel(value) || '';
+          case 'enrollment level:': {
+            // Unrecognized levels keep whatever the listing row had
+            const academicLevel = AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(value));
+            if (academicLevel) {
+              details.academic_level = academicLevel;
+            }
             break;
+          }
           case 'country:':
             details.country = TextUtils.cleanText(value, { quotes: true });
             break;
@@ -131,6 +147,9 @@ export class CollegeScholarshipScraper extends BaseScraper {
     const opts = { ...this.defaultOptions };
     let scholarships: any[] = [];
     let errors: string[] = [];
+    let inserted = 0;
+    let updated = 0;
+    let unchanged = 0;
     let consecutiveErrors = 0;
     const maxConsecutiveErrors = 5; // Stop if 5 consecutive errors
     const startTime = Date.now();
@@ -142,158 +161,262 @@ export class CollegeScholarshipScraper extends BaseScraper {
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsUnchanged: 0,
         errors: [],
       });
 
-      scholarships = await NetworkUtils.withRetry(async () => {
-        const baseOffset = COLLEGESCHOLARSHIPS_PAGE_OFFSET;
-        const pageOffset = ScrapingUtils.calculatePageOffset({ baseOffset });
-        const searchUrl = ScrapingUtils.buildPageUrl(COLLEGESCHOLARSHIPS_URL, pageOffset);
-        
-        const response = await axios.get(searchUrl, {
-          headers: ScrapingUtils.SCRAPING_HEADERS,
-          timeout: opts.timeout
-        });
-        
-        const $ = cheerio.load(response.data);
-        const scholarshipPromises: Promise<any>[] = [];
-        
-        for (let i = 0; i < $('.row').length && consecutiveErrors < maxConsecutiveErrors && (Date.now() - startTime) < maxProcessingTime; i++) {
-          const elem = $('.row')[i];
-          const $row = $(elem);
-          
-          const $summary = $row.find('.scholarship-summary');
-          const $description = $row.find('.scholarship-description');
-          
-          if ($summary.length > 0 && $description.length > 0) {
-            let amount = $summary.find('.lead strong').text().trim() || 'Amount varies';
-            amount = ScholarshipUtils.cleanAmount(amount);
-            const min_award = parseFloat(amount) || 0;
-            const max_award = min_award;
-            
-            const rawDeadline = $summary.find('p').last().find('strong').text().trim() || 'No deadline specified';
-            
-            const titleElement = $description.find('h4 a');
-            const title = titleElement.text().trim();
-            const link = titleElement.attr('href');
-            const description = $description.find('p').not('.visible-xs').first().text().trim();
-            
-            const eligibilityItems: string[] = [];
-            let academicLevelItems: string[] = [];
-            let geographicRestrictionsItems: string[] = [];
+      const frontier = await this.loadCrawlFrontier('CollegeScholarships', COLLEGESCHOLARSHIPS_PAGE_OFFSET);
+      const checkpoint = await this.loadCheckpoint(frontier.nextPage);
+      const processedUrls = new Set(checkpoint.processedUrls);
+      let stopReason: string | null = null;
 
-            $description.find('ul.fa-ul li').each((j, li) => {
-              const $li = $(li);
-              const text = $li.find('.trim').text().trim();
-              
-              const $icon = $li.find('i');
-              const iconClasses = $icon.attr('class') || '';
-              if (text.length > 0 && !text.includes('No Geographic Restrictions')) {
-                if (iconClasses.includes('fa-map-marker')) {
-                  geographicRestrictionsItems.push(text);
-                } else if (iconClasses.includes('fa-graduation-cap')) {
-                  academicLevelItems.push(text);
-                } else {
-                  eligibilityItems.push(text);
-                }
+      if (checkpoint.status === 'completed') {
+        console.log(`Checkpoint ${checkpoint.checkpointId} already covers the full listing, nothing to resume`);
+      }
+
+      // Work through whole listing pages until the result limit, the end of the
+      // listing or a stop condition; progress is checkpointed after every page
+      while (checkpoint.status !== 'completed' && scholarships.length < opts.maxResults) {
+        if ((Date.now() - startTime) >= maxProcessingTime) {
+          stopReason = 'Processing time limit reached';
+          break;
+        }
+        if (consecutiveErrors >= maxConsecutiveErrors) {
+          stopReason = `Stopped after ${maxConsecutiveErrors} consecutive errors`;
+          break;
+        }
+
+        const page = checkpoint.nextPage;
+        const searchUrl = ScrapingUtils.buildPageUrl(COLLEGESCHOLARSHIPS_URL, page);
+        let listing: { rowCount: number; pageScholarships: any[]; unchanged: boolean };
+
+        try {
+          // The HTTP client retries transient failures; parse errors fail the page
+          listing = await (async () => {
+            const pageCache = await this.getPageCache();
+            const fetched = await pageCache.fetch(searchUrl, {
+              headers: ScrapingUtils.SCRAPING_HEADERS,
+              timeoutMs: opts.timeout,
+              maxRetries: opts.retryAttempts,
+              render: await this.getRenderOptions('.scholarship-description'),
+              // Only the scholarship rows are parsed, so layout changes around them don't count
+              extract: body => {
+                const $page = cheerio.load(body);
+                return $page('.scholarship-summary, .scholarship-description').toArray().map(elem => $page(elem).html()).join('\n');
               }
             });
+            if (!fetched.changed) {
+              // fetch only skips pages whose parse was confirmed, so the item count is set
+              const rowCount = fetched.entry.itemCount ?? 0;
+              console.log(`♻️ Listing page ${page} unchanged since its last parse, skipping its ${rowCount} scholarships`);
+              return { rowCount, pageScholarships: [], unchanged: true };
+            }
+            const html = fetched.body;
             
-            const eligibility = eligibilityItems.join(' | ');
-            const academicLevel = academicLevelItems.join(' | ');
-            const geographicRestrictions = geographicRestrictionsItems.join(' | ');
+            const $ = cheerio.load(html);
+            const scholarshipPromises: Promise<any>[] = [];
+            let rowCount = 0;
             
-            if (title && !title.includes('Find Scholarships') && scholarshipPromises.length < opts.maxResults) {
-              const cleanName = TextUtils.cleanText(title, { quotes: true });
-              const cleanDeadline = TextUtils.cleanText(ScholarshipUtils.formatDeadline(rawDeadline), { quotes: true });
-              const rawDescription = TextUtils.cleanText(description || '', { quotes: true });
-              const rawEligibility = TextUtils.cleanText(eligibility || '', { quotes: true });
-              const cleanedAcademicLevel = ScholarshipUtils.cleanAcademicLevel(academicLevel || '') || '';
-              const cleanGeographicRestrictions = TextUtils.cleanText(geographicRestrictions || '', { quotes: true });
-              
-              const targetTypeRaw = ScholarshipUtils.determineTargetType(`${title} ${description} ${eligibility}`);
-              const target_type = (targetTypeRaw === 'Merit' ? 'merit' : targetTypeRaw === 'Need' ? 'need' : 'both') as 'need' | 'merit' | 'both';
+            for (let i = 0; i < $('.row').length && consecutiveErrors < maxConsecutiveErrors && (Date.now() - startTime) < maxProcessingTime; i++) {
+              const elem = $('.row')[i];
+              const $row = $(elem);
               
-              const ethnicity = ScholarshipUtils.extractEthnicity(`${title} ${description} ${eligibility}`);
-              const gender = ScholarshipUtils.extractGender(`${title} ${description} ${eligibility}`);
+              const $summary = $row.find('.scholarship-summary');
+              const $description = $row.find('.scholarship-description');
               
-              const scholarshipPromise = (async () => {
-                                const scholarship: any = {
-                  scholarship_id: ScholarshipUtils.createScholarshipId(),
+              if ($summary.length > 0 && $description.length > 0) {
+                const amount = $summary.find('.lead strong').text().trim() || 'Amount varies';
+                const award = AmountUtils.toAwardFields(AmountUtils.parseAward(amount));
+                
+                const rawDeadline = $summary.find('p').last().find('strong').text().trim() || 'No deadline specified';
+                
+                const titleElement = $description.find('h4 a');
+                const title = titleElement.text().trim();
+                const link = titleElement.attr('href');
+                const description = $description.find('p').not('.visible-xs').first().text().trim();
+                
+                const eligibilityItems: string[] = [];
+                let academicLevelItems: string[] = [];
+                let geographicRestrictionsItems: string[] = [];
+
+                $description.find('ul.fa-ul li').each((j, li) => {
+                  const $li = $(li);
+                  const text = $li.find('.trim').text().trim();
+                  
+                  const $icon = $li.find('i');
+                  const iconClasses = $icon.attr('class') || '';
+                  if (text.length > 0 && !text.includes('No Geographic Restrictions')) {
+                    if (iconClasses.includes('fa-map-marker')) {
+                      geographicRestrictionsItems.push(text);
+                    } else if (iconClasses.includes('fa-graduation-cap')) {
+                      academicLevelItems.push(text);
+                    } else {
+                      eligibilityItems.push(text);
+                    }
+                  }
+                });
+                
+                const eligibility = eligibilityItems.join(' | ');
+                const academicLevel = academicLevelItems.join(' | ');
+                const geographicRestrictions = geographicRestrictionsItems.join(' | ');
+                
+                if (!title || title.includes('Find Scholarships')) {
+                  continue;
+                }
+                rowCount++;
+
+                // Skip rows a previous attempt already saved
+                if (processedUrls.has(link || TextUtils.cleanText(title, { quotes: true }))) {
+                  continue;
+                }
+
+                const cleanName = TextUtils.cleanText(title, { quotes: true });
+                const cleanDeadline = TextUtils.cleanText(rawDeadline, { quotes: true });
+                const rawDescription = TextUtils.cleanText(description || '', { quotes: true });
+                const rawEligibility = TextUtils.cleanText(eligibility || '', { quotes: true });
+                const cleanedAcademicLevel = AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(academicLevel));
+                const cleanGeographicRestrictions = TextUtils.cleanText(geographicRestrictions || '', { quotes: true });
+                
+                const targetTypeRaw = ScholarshipUtils.determineTargetType(`${title} ${description} ${eligibility}`);
+                const target_type = (targetTypeRaw === 'Merit' ? 'merit' : targetTypeRaw === 'Need' ? 'need' : 'both') as 'need' | 'merit' | 'both';
+                
+                const ethnicity = ScholarshipUtils.extractEthnicity(`${title} ${description} ${eligibility}`);
+                const gender = ScholarshipUtils.extractGender(`${title} ${description} ${eligibility}`);
+                
+                const provenance: FieldProvenanceMap = {};
+                ProvenanceUtils.annotateValues(provenance, {
                   name: cleanName,
                   deadline: cleanDeadline,
-                  url: link || '',
-                  description: TextUtils.truncateText(TextUtils.removeRedundantPhrases(rawDescription), DESCRIPTION_MAX_LENGTH),
-                  eligibility: TextUtils.truncateText(TextUtils.removeRedundantPhrases(rawEligibility), ELIGIBILITY_MAX_LENGTH),
-                  source: 'CollegeScholarships',
-                  organization: '',
+                  url: link,
+                  description: rawDescription,
+                  eligibility: rawEligibility,
                   academic_level: cleanedAcademicLevel,
-                  geographic_restrictions: cleanGeographicRestrictions || '',
-                  target_type,
-                  ethnicity: TextUtils.ensureNonEmptyString(ethnicity, 'unspecified'),
-                  gender: TextUtils.ensureNonEmptyString(gender, 'unspecified'),
-                  min_award,
-                  max_award,
-                  renewable: false,
-                  country: 'US',
-                  apply_url: '',
-                  is_active: true,
-                  essay_required: false,
-                  recommendations_required: false,
-                  created_at: new Date().toISOString(),
-                  updated_at: new Date().toISOString()
-                };
-                
-                // Fetch detailed information if enabled and we have a valid URL (optimized)
-                if (!this.defaultOptions.skipDetailFetching && link && link.startsWith('http') && consecutiveErrors < maxConsecutiveErrors) {
-                  try {
-                    const details = await this.fetchScholarshipDetails(link);
-                    Object.assign(scholarship, details);
-                    consecutiveErrors = 0; // Reset error counter on success
-                    await new Promise(resolve => setTimeout(resolve, this.defaultOptions.requestDelay));
-                  } catch (error) {
-                    consecutiveErrors++;
-                    console.warn(`Failed to fetch details for ${title} (error ${consecutiveErrors}/${maxConsecutiveErrors}): ${error instanceof Error ? error.message : error}`);
-                    
-                    if (consecutiveErrors >= maxConsecutiveErrors) {
-                      console.warn('Too many consecutive errors, skipping remaining detail fetches');
-                      // Continue without fetching details for this scholarship
+                  geographic_restrictions: cleanGeographicRestrictions,
+                  ...award,
+                }, 'listing_table');
+                ProvenanceUtils.annotate(provenance, ['target_type', 'ethnicity', 'gender'], 'keyword_heuristic');
+
+                const scholarshipPromise = (async () => {
+                  const scholarship: any = {
+                    name: cleanName,
+                    deadline: cleanDeadline,
+                    url: link || '',
+                    description: TextUtils.truncateText(TextUtils.removeRedundantPhrases(rawDescription), DESCRIPTION_MAX_LENGTH),
+                    eligibility: TextUtils.truncateText(TextUtils.removeRedundantPhrases(rawEligibility), ELIGIBILITY_MAX_LENGTH),
+                    source: 'CollegeScholarships',
+                    organization: '',
+                    academic_level: cleanedAcademicLevel,
+                    geographic_restrictions: cleanGeographicRestrictions || '',
+                    target_type,
+                    ethnicity: TextUtils.ensureNonEmptyString(ethnicity, 'unspecified'),
+                    gender: TextUtils.ensureNonEmptyString(gender, 'unspecified'),
+                    ...award,
+                    renewable: false,
+                    country: 'US',
+                    apply_url: '',
+                    is_active: true,
+                    essay_required: false,
+                    recommendations_required: false,
+                    created_at: new Date().toISOString(),
+                    updated_at: new Date().toISOString(),
+                    field_provenance: provenance
+                  };
+                  
+                  // Fetch detailed information if enabled and we have a valid URL (optimized)
+                  if (!this.defaultOptions.skipDetailFetching && link && link.startsWith('http') && consecutiveErrors < maxConsecutiveErrors) {
+                    try {
+                      const details = await this.fetchScholarshipDetails(link);
+                      Object.assign(scholarship, details);
+                      ProvenanceUtils.annotateValues(provenance, details, 'detail_page');
+                      consecutiveErrors = 0; // Reset error counter on success
+                      await new Promise(resolve => setTimeout(resolve, this.defaultOptions.requestDelay));
+                    } catch (error) {
+                      consecutiveErrors++;
+                      console.warn(`Failed to fetch details for ${title} (error ${consecutiveErrors}/${maxConsecutiveErrors}): ${error instanceof Error ? error.message : error}`);
+                      
+                      if (consecutiveErrors >= maxConsecutiveErrors) {
+                        console.warn('Too many consecutive errors, skipping remaining detail fetches');
+                        // Continue without fetching details for this scholarship
+                      }
                     }
+                  } else if (this.defaultOptions.skipDetailFetching) {
+                    console.log(`Skipping detail fetch for ${title} (detail fetching disabled)`);
                   }
-                } else if (this.defaultOptions.skipDetailFetching) {
-                  console.log(`Skipping detail fetch for ${title} (detail fetching disabled)`);
-                }
+                  
+                  return scholarship;
+                })();
                 
-                return scholarship;
-              })();
-              
-              scholarshipPromises.push(scholarshipPromise);
+                scholarshipPromises.push(scholarshipPromise);
+              }
             }
-          }
+            
+            console.log(`Processing ${scholarshipPromises.length} scholarships from page ${page} in batches of ${this.defaultOptions.concurrentRequests}...`);
+            if ((Date.now() - startTime) > maxProcessingTime * 0.8) {
+              console.warn('Approaching time limit, processing remaining scholarships without detail fetching');
+            }
+            const pageScholarships = await this.processScholarshipBatch(scholarshipPromises, this.defaultOptions.concurrentRequests);
+            console.log(`Successfully processed ${pageScholarships.length} scholarships`);
+            return { rowCount, pageScholarships, unchanged: false };
+          })();
+        } catch (error) {
+          stopReason = `Failed to fetch listing page ${page}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          break;
         }
-        
-        console.log(`Processing ${scholarshipPromises.length} scholarships in batches of ${this.defaultOptions.concurrentRequests}...`);
-        if ((Date.now() - startTime) > maxProcessingTime * 0.8) {
-          console.warn('Approaching time limit, processing remaining scholarships without detail fetching');
+
+        if (listing.rowCount === 0) {
+          console.log(`Listing page ${page} has no scholarships, reached the end of the listing`);
+          await frontier.recordPage(page, 0);
+          checkpoint.status = 'completed';
+          await this.saveCheckpoint(checkpoint);
+          break;
         }
-        const scholarships = await this.processScholarshipBatch(scholarshipPromises, this.defaultOptions.concurrentRequests);
-        console.log(`Successfully processed ${scholarships.length} scholarships`);
-        return scholarships.slice(0, opts.maxResults);
-      }, opts.retryAttempts || 3);
 
-      const { inserted, updated, errors: processErrors } = await this.processScholarships(scholarships);
-      errors = errors.concat(processErrors);
+        // Save this page before checkpointing it, so a checkpointed URL is always in MySQL
+        const pageResult = await this.processScholarships(listing.pageScholarships);
+        inserted += pageResult.inserted;
+        updated += pageResult.updated;
+        unchanged += pageResult.unchanged + (listing.unchanged ? listing.rowCount : 0);
+        errors = errors.concat(pageResult.errors);
+        scholarships = scholarships.concat(listing.pageScholarships);
+
+        listing.pageScholarships.forEach(scholarship => processedUrls.add(scholarship.url || scholarship.name));
+        checkpoint.processedUrls = Array.from(processedUrls);
+
+        // A page cut short by errors or the time limit is revisited; its saved rows are skipped
+        const pageFinished = consecutiveErrors < maxConsecutiveErrors && (Date.now() - startTime) < maxProcessingTime;
+        if (pageFinished) {
+          checkpoint.completedPages.push(page);
+          checkpoint.nextPage = page + 1;
+          await frontier.recordPage(page, listing.rowCount);
+          // Skip the page next run only if every scholarship on it was saved
+          if (!listing.unchanged && pageResult.errors.length === 0) {
+            await (await this.getPageCache()).markParsed(searchUrl, listing.rowCount);
+          }
+        }
+        await this.saveCheckpoint(checkpoint);
+      }
+
+      const coverage = frontier.coverage();
+      console.log(`Catalog coverage for CollegeScholarships: ${coverage.pagesVisited}/${coverage.catalogPages ?? '?'} pages this pass (cycle ${coverage.cycle})`);
 
-      await this.updateJobStatus('completed', {
+      if (stopReason) {
+        errors.push(`${stopReason}; progress saved to checkpoint ${checkpoint.checkpointId} at page ${checkpoint.nextPage}`);
+      }
+
+      // A stop Batch will retry leaves the job running, so the parent isn't rolled up as finished
+      const finalStatus = stopReason ? 'failed' : 'completed';
+      await this.updateJobStatus(stopReason && this.hasRetriesLeft() ? 'running' : finalStatus, {
         recordsFound: scholarships.length,
         recordsProcessed: scholarships.length,
         recordsInserted: inserted,
         recordsUpdated: updated,
+        recordsUnchanged: unchanged,
         errors,
       });
 
       return {
-        success: true,
+        success: !stopReason,
+        resumable: !!stopReason,
         scholarships,
         errors,
         metadata: {
@@ -301,7 +424,9 @@ export class CollegeScholarshipScraper extends BaseScraper {
           totalProcessed: scholarships.length,
           totalInserted: inserted,
           totalUpdated: updated,
+          totalUnchanged: unchanged,
         },
+        coverage,
       };
 
     } catch (error) {
@@ -311,8 +436,9 @@ export class CollegeScholarshipScraper extends BaseScraper {
       await this.updateJobStatus('failed', {
         recordsFound: scholarships.length,
         recordsProcessed: scholarships.length,
-        recordsInserted: 0,
-        recordsUpdated: 0,
+        recordsInserted: inserted,
+        recordsUpdated: updated,
+        recordsUnchanged: unchanged,
         errors,
       });
 
@@ -325,8 +451,16 @@ export class CollegeScholarshipScraper extends BaseScraper {
           totalProcessed: 0,
           totalInserted: 0,
           totalUpdated: 0,
+          totalUnchanged: 0,
         },
       };
     }
   }
-} 
\ No newline at end of file
+}
+
+ScraperRegistry.register('CollegeScholarshipScraper', CollegeScholarshipScraper, {
+  displayName: 'CollegeScholarships.org',
+  description: 'Scrapes the CollegeScholarships.org scholarship directory',
+  type: 'scrape',
+  aliases: ['collegescholarship'],
+});
@@ -1,4 +1,5 @@
 import { BaseScraper } from './base-scraper';
+import { ScraperRegistry } from './scraper-registry';
 import { ScrapingResult } from '../utils/types';
 import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
 import { Scholarship } from '../shared-types/scholarship.types';
@@ -7,16 +8,17 @@ import {
   MAX_SCHOLARSHIP_SEARCH_RESULTS,
   DESCRIPTION_MAX_LENGTH,
   ELIGIBILITY_MAX_LENGTH,
-  REQUEST_TIMEOUT_MS,
-  MAX_RETRY_ATTEMPTS,
   AWS_BEDROCK_VERSION
 } from '../utils/constants';
-import { NetworkUtils, TextUtils, ScholarshipUtils } from '../utils/helper';
-import { RateLimiter } from './RateLimiter';
+import { TextUtils, ScholarshipUtils } from '../utils/helper';
+import { DedupUtils } from '../utils/dedup-utils';
+import { ProvenanceUtils, FieldProvenanceMap } from '../utils/provenance-utils';
+import { AmountUtils } from '../utils/amount-utils';
+import { AcademicLevelUtils } from '../utils/academic-level-utils';
+import { createBedrockClient } from '../utils/bedrock-client';
 
 export class GeneralSearchScraper extends BaseScraper {
   private bedrockClient: BedrockRuntimeClient;
-  private rateLimiter: RateLimiter;
 
   constructor(
     scholarshipsTable: string,
@@ -26,8 +28,8 @@ export class GeneralSearchScraper extends BaseScraper {
     rawDataBucket?: string
   ) {
     super(scholarshipsTable, jobsTable, jobId, environment, rawDataBucket);
-    this.bedrockClient = new BedrockRuntimeClient({});
-    this.rateLimiter = new RateLimiter(1); // 1 call per second
+    // Rate limited and retried by the shared HTTP client
+    this.bedrockClient = createBedrockClient();
   }
 
   async scrape(): Promise<ScrapingResult> {
@@ -40,6 +42,7 @@ export class GeneralSearchScraper extends BaseScraper {
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsUnchanged: 0,
         errors: [],
       });
 
@@ -47,7 +50,7 @@ export class GeneralSearchScraper extends BaseScraper {
       const scholarships = await this.getBedrockScholarships();
 
       // Process scholarships
-      const { inserted, updated, errors } = await this.processScholarships(scholarships);
+      const { inserted, updated, unchanged, errors } = await this.processScholarships(scholarships);
 
       // Update job status to completed
       await this.updateJobStatus('completed', {
@@ -55,6 +58,7 @@ export class GeneralSearchScraper extends BaseScraper {
         recordsProcessed: scholarships.length,
         recordsInserted: inserted,
         recordsUpdated: updated,
+        recordsUnchanged: unchanged,
         errors,
       });
 
@@ -67,6 +71,7 @@ export class GeneralSearchScraper extends BaseScraper {
           totalProcessed: scholarships.length,
           totalInserted: inserted,
           totalUpdated: updated,
+          totalUnchanged: unchanged,
         },
       };
 
@@ -78,6 +83,7 @@ export class GeneralSearchScraper extends BaseScraper {
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsUnchanged: 0,
         errors: [error instanceof Error ? error.message : 'Unknown error'],
       });
 
@@ -90,6 +96,7 @@ export class GeneralSearchScraper extends BaseScraper {
           totalProcessed: 0,
           totalInserted: 0,
           totalUpdated: 0,
+          totalUnchanged: 0,
         },
       };
     }
@@ -122,9 +129,7 @@ export class GeneralSearchScraper extends BaseScraper {
   private async performSearch(searchFocuses: string[], maxScholarshipsPerFocus: number, allScholarships: Partial<Scholarship>[]): Promise<Partial<Scholarship>[]> {
     for (const searchFocus of searchFocuses) {
       try {
-        const scholarships = await NetworkUtils.withRetry(async () => {
-          return await this.getScholarshipsForFocus(searchFocus, maxScholarshipsPerFocus);
-        }, MAX_RETRY_ATTEMPTS);
+        const scholarships = await this.getScholarshipsForFocus(searchFocus, maxScholarshipsPerFocus);
         
         allScholarships.push(...scholarships);
         console.log(`Found ${scholarships.length} scholarships for focus: ${searchFocus}`);
@@ -148,9 +153,6 @@ export class GeneralSearchScraper extends BaseScraper {
   }
 
   private async getScholarshipsForFocus(searchFocus: string, maxResults: number): Promise<any[]> { // Changed to any[]
-    // Wait for rate limiter before making API call
-    await this.rateLimiter.waitForNextCall();
-    
     const userMessage = this.buildSearchPrompt(searchFocus, maxResults);
 
     const payload = {
@@ -175,14 +177,7 @@ export class GeneralSearchScraper extends BaseScraper {
     try {
       console.log(`Making Bedrock API call for focus: ${searchFocus}`);
       
-      // Add timeout to the request
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), REQUEST_TIMEOUT_MS);
-      });
-      
-      const responsePromise = this.bedrockClient.send(command);
-      
-      const response = await Promise.race([responsePromise, timeoutPromise]) as any;
+      const response = await this.bedrockClient.send(command);
       const responseBody = JSON.parse(new TextDecoder().decode(response.body));
       
       const scholarshipsData = this.parseAIResponse(responseBody);
@@ -197,8 +192,14 @@ export class GeneralSearchScraper extends BaseScraper {
           const cleanDescription = TextUtils.truncateText(TextUtils.removeRedundantPhrases(rawDescription), DESCRIPTION_MAX_LENGTH);
           const cleanOrganization = TextUtils.cleanText(String(scholarship.organization || scholarship.sponsor || scholarship.institution || ''), { quotes: true });
           const cleanGeographicRestrictions = TextUtils.cleanText(String(scholarship.geographic_restrictions || scholarship.location || scholarship.region || ''), { quotes: true });
-          const cleanMinAward = ScholarshipUtils.cleanAmount(String(scholarship.min_amount || scholarship.amount || scholarship.award_amount || 'Amount varies'));
-          const cleanMaxAward = ScholarshipUtils.cleanAmount(String(scholarship.max_amount || scholarship.amount || scholarship.award_amount || 'Amount varies'));
+          // Prefer the award as written; otherwise read the min/max pair as a range
+          const amountRange = [
+            scholarship.min_amount ?? scholarship.minAmount,
+            scholarship.max_amount ?? scholarship.maxAmount,
+          ].filter(value => value !== undefined && value !== null && value !== '').join(' - ');
+          const award = AmountUtils.toAwardFields(
+            AmountUtils.parseAward(String(scholarship.amount || scholarship.award_amount || amountRange || 'Amount varies'))
+          );
           const cleanRenewable = TextUtils.cleanText(String(scholarship.renewable || ''), { quotes: true });
           const cleanCountry = TextUtils.cleanText(String(scholarship.country || scholarship.nationality || ''), { quotes: true });
           const cleanApplyUrl = TextUtils.cleanText(String(scholarship.apply_url || scholarship.application_url || scholarship.url || ''), { quotes: true });
@@ -207,11 +208,10 @@ export class GeneralSearchScraper extends BaseScraper {
           const cleanEligibility = TextUtils.truncateText(TextUtils.removeRedundantPhrases(TextUtils.cleanText(rawEligibility, { quotes: true })), ELIGIBILITY_MAX_LENGTH);
           
           const allText = `${scholarship.title || ''} ${scholarship.description || ''} ${rawEligibility} ${scholarship.academic_level || ''} ${scholarship.level_of_study || ''} ${scholarship.education_level || ''}`;
-          const extractedAcademicLevel = ScholarshipUtils.extractAcademicLevel(allText);
-          const cleanedAcademicLevel = ScholarshipUtils.cleanAcademicLevel(extractedAcademicLevel);
+          const cleanedAcademicLevel = AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(allText));
           
-          const combinedEligibility = extractedAcademicLevel 
-            ? `${cleanEligibility}${cleanEligibility ? ' | ' : ''}${extractedAcademicLevel}`
+          const combinedEligibility = cleanedAcademicLevel 
+            ? `${cleanEligibility}${cleanEligibility ? ' | ' : ''}${cleanedAcademicLevel}`
             : cleanEligibility;
           
           const targetType = ScholarshipUtils.determineTargetType(`${scholarship.title || ''} ${scholarship.description || ''} ${rawEligibility}`);
@@ -219,8 +219,16 @@ export class GeneralSearchScraper extends BaseScraper {
           const ethnicity = ScholarshipUtils.extractEthnicity(`${scholarship.title || ''} ${scholarship.description || ''} ${rawEligibility}`);
           const gender = ScholarshipUtils.extractGender(`${scholarship.title || ''} ${scholarship.description || ''} ${rawEligibility}`);
           
+          // Everything comes from the model; keyword heuristics run over model output
+          const provenance: FieldProvenanceMap = {};
+          ProvenanceUtils.annotate(provenance, [
+            'name', 'deadline', 'url', 'description', 'eligibility', 'organization',
+            'geographic_restrictions', 'renewable', 'country', 'apply_url',
+          ], 'llm');
+          ProvenanceUtils.annotateValues(provenance, award, 'llm');
+          ProvenanceUtils.annotate(provenance, ['academic_level', 'target_type', 'ethnicity', 'gender'], 'keyword_heuristic');
+
           const scholarshipObj: any = {
-            scholarship_id: ScholarshipUtils.createScholarshipId(),
             name: cleanTitle,
             deadline: cleanDeadline,
             url: scholarship.url || scholarship.website || scholarship.application_url || '',
@@ -233,8 +241,7 @@ export class GeneralSearchScraper extends BaseScraper {
             target_type: (targetType as 'need' | 'merit' | 'both'),
             ethnicity: TextUtils.ensureNonEmptyString(ethnicity, 'unspecified'),
             gender: TextUtils.ensureNonEmptyString(gender, 'unspecified'),
-            min_award: parseFloat(cleanMinAward.toString()) || 0,
-            max_award: parseFloat(cleanMaxAward.toString()) || 0,
+            ...award,
             renewable: cleanRenewable.toLowerCase().includes('true') || cleanRenewable.toLowerCase().includes('yes'),
             country: cleanCountry || 'US',
             apply_url: cleanApplyUrl,
@@ -242,7 +249,8 @@ export class GeneralSearchScraper extends BaseScraper {
             essay_required: false,
             recommendations_required: false,
             created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
+            updated_at: new Date().toISOString(),
+            field_provenance: provenance
           };
           return scholarshipObj;
         });
@@ -250,31 +258,27 @@ export class GeneralSearchScraper extends BaseScraper {
       
       return [];
     } catch (error) {
-      // Enhanced error logging for different types of errors
+      // Throttling and timeouts were already retried by the HTTP client
       if (error instanceof Error) {
-        if (NetworkUtils.isThrottlingError(error)) {
-          console.error(`Bedrock throttling error for focus "${searchFocus}":`, error.message);
-          console.log('This error will be handled by the retry mechanism with exponential backoff');
-        } else if (NetworkUtils.isTimeoutError(error)) {
-          console.error(`Bedrock timeout error for focus "${searchFocus}":`, error.message);
-          console.log('This error will be handled by the retry mechanism with exponential backoff');
-        } else {
-          console.error(`Bedrock API error for focus "${searchFocus}":`, error.message);
-        }
+        console.error(`Bedrock API error for focus "${searchFocus}":`, error.message);
       }
-      throw error; // Re-throw to be handled by withRetry
+      throw error;
     }
   }
 
   private removeDuplicates(scholarships: any[]): any[] { // Changed to any[]
-    const seen = new Set<string>();
-    return scholarships.filter(scholarship => {
-      const key = `${scholarship.name?.toLowerCase()}-${scholarship.organization?.toLowerCase() || 'unknown'}`;
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
+    // Cluster near-duplicate results across search focuses and keep one merged record each
+    const candidates = scholarships.map(scholarship => ({
+      ...scholarship,
+      applyUrl: scholarship.apply_url,
+      minAward: scholarship.min_award,
+      maxAward: scholarship.max_award,
+    }));
+
+    return DedupUtils.clusterScholarships(candidates).map(cluster => {
+      const { canonical } = DedupUtils.mergeCluster(cluster);
+      const { applyUrl, minAward, maxAward, ...scholarship } = canonical;
+      return scholarship;
     });
   }
 
@@ -302,6 +306,7 @@ export class GeneralSearchScraper extends BaseScraper {
 - organization: Sponsoring organization
 - url: Scholarship page link
 - description: Brief description (1-2 sentences)
+- amount: Award amount as written (e.g. "$500 - $2,000 per year", "Up to $10,000", "Full tuition")
 - minAmount: Minimum award amount
 - maxAmount: Maximum award amount
 - eligibility: Key eligibility criteria
@@ -337,4 +342,11 @@ Focus on active, accessible scholarships with clear application processes. Retur
       return { rawResponse: responseBody.content?.[0]?.text || responseBody.completion || 'Unable to parse response' };
     }
   }
-} 
\ No newline at end of file
+}
+
+ScraperRegistry.register('GeneralSearchScraper', GeneralSearchScraper, {
+  displayName: 'General Search (Bedrock)',
+  description: 'Discovers scholarships by prompting a Bedrock model with search focuses',
+  type: 'search',
+  aliases: ['general_search'],
+});
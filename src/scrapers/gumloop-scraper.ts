@@ -1,5 +1,9 @@
 import { BaseScraper } from './base-scraper';
-import { ScrapingResult, Scholarship } from '../utils/types';
+import { ScraperRegistry } from './scraper-registry';
+import { ScrapingResult, Scholarship, ScrapedScholarship } from '../utils/types';
+import { ProvenanceUtils } from '../utils/provenance-utils';
+import { AmountUtils } from '../utils/amount-utils';
+import { AcademicLevelUtils } from '../utils/academic-level-utils';
 import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
 import { 
   AWS_BEDROCK_MODEL_ID, 
@@ -7,8 +11,10 @@ import {
   ELIGIBILITY_MAX_LENGTH,
   AWS_BEDROCK_VERSION
 } from '../utils/constants';
-import { TextUtils, ScholarshipUtils, ConfigUtils } from '../utils/helper';
-import { RateLimiter } from './RateLimiter';
+import { TextUtils, ConfigUtils } from '../utils/helper';
+import { WebsiteRecord } from '../utils/website-repository';
+import { httpClient } from '../utils/http-client';
+import { createBedrockClient } from '../utils/bedrock-client';
 
 interface GumLoopCrawlResult {
   url: string;
@@ -23,8 +29,8 @@ interface GumLoopCrawlResult {
   };
 }
 
-interface GumLoopWebsite {
-  name: string;
+// A crawl website whose config passed the registered schema
+interface GumLoopWebsite extends WebsiteRecord {
   url: string;
   type: 'crawl';
   crawlUrl: string;
@@ -36,12 +42,10 @@ interface GumLoopWebsite {
     description?: string;
     organization?: string;
   };
-  enabled: boolean;
 }
 
 export class GumLoopScraper extends BaseScraper {
   private bedrockClient: BedrockRuntimeClient;
-  private rateLimiter: RateLimiter;
   private gumloopBaseUrl: string;
 
   constructor(
@@ -52,12 +56,13 @@ export class GumLoopScraper extends BaseScraper {
     rawDataBucket?: string
   ) {
     super(scholarshipsTable, jobsTable, jobId, environment, rawDataBucket);
-    this.bedrockClient = new BedrockRuntimeClient({});
-    this.rateLimiter = new RateLimiter(2); // 2 calls per second for GumLoop API
+    // Rate limited and retried by the shared HTTP client
+    this.bedrockClient = createBedrockClient();
     
     // Load GumLoop configuration
     const gumloopConfig = ConfigUtils.loadConfigFile('scraper-config.json').gumloopConfig;
     this.gumloopBaseUrl = gumloopConfig.baseUrl;
+    httpClient.setHostInterval(new URL(this.gumloopBaseUrl).hostname, 500); // 2 calls per second for GumLoop API
   }
 
   async scrape(): Promise<ScrapingResult> {
@@ -69,13 +74,14 @@ export class GumLoopScraper extends BaseScraper {
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsUnchanged: 0,
         errors: [],
       });
 
       // Load website configuration from DynamoDB
       const websites = await this.getWebsitesFromDynamoDB();
       const crawlWebsites = websites.filter(
-        (site: any) => site.type === 'crawl' && site.enabled
+        site => site.type === 'crawl' && site.enabled
       ) as GumLoopWebsite[];
 
       // Crawl each website
@@ -85,10 +91,6 @@ export class GumLoopScraper extends BaseScraper {
           console.log(`Crawling ${website.name}...`);
           const results = await this.crawlWebsite(website);
           allCrawlResults.push(...results);
-          
-          // Rate limiting between websites
-          await this.rateLimiter.waitForNextCall();
-          
         } catch (error) {
           console.error(`Error crawling ${website.name}:`, error);
           continue;
@@ -99,13 +101,14 @@ export class GumLoopScraper extends BaseScraper {
       const scholarships = await this.analyzeCrawledContent(allCrawlResults);
 
       // Process scholarships
-      const { inserted, updated, errors } = await this.processScholarships(scholarships);
+      const { inserted, updated, unchanged, errors } = await this.processScholarships(scholarships);
 
       await this.updateJobStatus('completed', {
         recordsFound: scholarships.length,
         recordsProcessed: scholarships.length,
         recordsInserted: inserted,
         recordsUpdated: updated,
+        recordsUnchanged: unchanged,
         errors,
       });
 
@@ -118,6 +121,7 @@ export class GumLoopScraper extends BaseScraper {
           totalProcessed: scholarships.length,
           totalInserted: inserted,
           totalUpdated: updated,
+          totalUnchanged: unchanged,
         },
       };
 
@@ -129,6 +133,7 @@ export class GumLoopScraper extends BaseScraper {
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsUnchanged: 0,
         errors: [error instanceof Error ? error.message : 'Unknown error'],
       });
 
@@ -141,6 +146,7 @@ export class GumLoopScraper extends BaseScraper {
           totalProcessed: 0,
           totalInserted: 0,
           totalUpdated: 0,
+          totalUnchanged: 0,
         },
       };
     }
@@ -192,19 +198,16 @@ export class GumLoopScraper extends BaseScraper {
       }
     };
 
-    const response = await fetch(`${this.gumloopBaseUrl}/crawl`, {
+    // Starting a crawl isn't idempotent, so a failed attempt isn't retried
+    const responseData = await httpClient.fetchJson(`${this.gumloopBaseUrl}/crawl`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify(requestBody),
+      maxRetries: 0,
+      respectRobots: false,
     });
-
-    if (!response.ok) {
-      throw new Error(`GumLoop API error: ${response.status} ${response.statusText}`);
-    }
-
-    const responseData = await response.json();
     
     // Store raw API request and response in S3
     await this.storeRawData(
@@ -226,17 +229,7 @@ export class GumLoopScraper extends BaseScraper {
     const maxAttempts = 30; // 5 minutes with 10-second intervals
     
     while (attempts < maxAttempts) {
-      const response = await fetch(`${this.gumloopBaseUrl}/crawl/${jobId}`, {
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`GumLoop API error: ${response.status} ${response.statusText}`);
-      }
-
-      const jobStatus = await response.json();
+      const jobStatus = await httpClient.fetchJson(`${this.gumloopBaseUrl}/crawl/${jobId}`, { respectRobots: false });
       
       if (jobStatus.status === 'completed') {
         const results = jobStatus.results || [];
@@ -295,10 +288,6 @@ export class GumLoopScraper extends BaseScraper {
       try {
         const batchScholarships = await this.analyzeBatchWithAI(batch);
         scholarships.push(...batchScholarships);
-        
-        // Rate limiting for AI calls
-        await this.rateLimiter.waitForNextCall();
-        
       } catch (error) {
         console.error(`Error analyzing batch ${i / batchSize + 1}:`, error);
         continue;
@@ -382,7 +371,7 @@ If no scholarship information is found, return null.`;
       const extractedData = JSON.parse(jsonMatch[0]);
       
       // Transform to Scholarship format
-      const scholarship: Partial<Scholarship> = {
+      const scholarship: Partial<ScrapedScholarship> = {
         title: TextUtils.cleanText(extractedData.title || '', { quotes: true }),
         deadline: TextUtils.cleanText(extractedData.deadline || '', { quotes: true }),
         url: crawlResult.url,
@@ -390,18 +379,27 @@ If no scholarship information is found, return null.`;
         eligibility: TextUtils.truncateText(TextUtils.cleanText(extractedData.eligibility || '', { quotes: true }), ELIGIBILITY_MAX_LENGTH),
         source: 'GumLoop Crawling',
         organization: TextUtils.cleanText(extractedData.organization || '', { quotes: true }),
-        academic_level: ScholarshipUtils.cleanAcademicLevel(extractedData.academic_level || '') || '',
+        academic_level: AcademicLevelUtils.toAcademicLevelField(AcademicLevelUtils.normalizeAcademicLevels(extractedData.academic_level)),
         geographic_restrictions: TextUtils.cleanText(extractedData.geographic_restrictions || '', { quotes: true }),
         target_type: (extractedData.target_type as 'need' | 'merit' | 'both') || 'both',
         ethnicity: TextUtils.ensureNonEmptyString(extractedData.ethnicity, 'unspecified'),
         gender: TextUtils.ensureNonEmptyString(extractedData.gender, 'unspecified'),
-        min_award: parseFloat(ScholarshipUtils.cleanAmount(extractedData.min_award || '0')) || 0,
-        max_award: parseFloat(ScholarshipUtils.cleanAmount(extractedData.max_award || '0')) || 0,
+        ...AmountUtils.toAwardFields(AmountUtils.parseAward(
+          [extractedData.min_award, extractedData.max_award].filter(Boolean).join(' - ')
+        )),
         renewable: extractedData.renewable || false,
         country: extractedData.country || 'US',
         essay_required: false,
         recommendation_required: false
       };
+
+      // The page URL comes from the crawl; every other field is model output
+      const provenance = ProvenanceUtils.annotate({}, ['url'], 'detail_page');
+      scholarship.field_provenance = ProvenanceUtils.annotate(provenance, [
+        'name', 'deadline', 'description', 'eligibility', 'organization', 'academic_level',
+        'geographic_restrictions', 'target_type', 'ethnicity', 'gender', 'min_award', 'max_award',
+        'award_varies', 'renewable', 'country',
+      ], 'llm');
       
       return scholarship;
       
@@ -410,4 +408,14 @@ If no scholarship information is found, return null.`;
       return null;
     }
   }
-} 
\ No newline at end of file
+}
+
+ScraperRegistry.register('GumLoopScraper', GumLoopScraper, {
+  displayName: 'GumLoop Crawler',
+  description: 'Crawls configured scholarship websites with GumLoop and extracts records with Bedrock',
+  type: 'crawl',
+  aliases: ['gumloop'],
+}, {
+  crawlUrl: { type: 'string', required: true, description: 'Start URL for the crawl' },
+  selectors: { type: 'object', required: true, description: 'CSS selectors for scholarship fields' },
+});
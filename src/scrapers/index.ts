@@ -0,0 +1,16 @@
+// Importing each scraper module registers it with the ScraperRegistry
+import './careeronestop-scraper';
+import './collegescholarship-scraper';
+import './general-search-scraper';
+import './gumloop-scraper';
+
+export { BaseScraper } from './base-scraper';
+export {
+  ScraperRegistry,
+  ScraperRegistration,
+  ScraperMetadata,
+  ScraperConfigSchema,
+  ScraperConfigField,
+  ScraperConstructor,
+  CreateScraperOptions,
+} from './scraper-registry';
@@ -0,0 +1,135 @@
+import type { BaseScraper } from './base-scraper';
+
+export type ScraperConstructor = new (
+  scholarshipsTable: string,
+  jobsTable: string,
+  jobId: string,
+  environment: string,
+  rawDataBucket?: string
+) => BaseScraper;
+
+export interface ScraperMetadata {
+  displayName: string;
+  description: string;
+  type: 'api' | 'scrape' | 'search' | 'crawl';
+  aliases?: string[];
+}
+
+export interface ScraperConfigField {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  required?: boolean;
+  description?: string;
+}
+
+export type ScraperConfigSchema = Record<string, ScraperConfigField>;
+
+export interface ScraperRegistration {
+  name: string;
+  scraperClass: ScraperConstructor;
+  metadata: ScraperMetadata;
+  configSchema: ScraperConfigSchema;
+}
+
+export interface CreateScraperOptions {
+  jobsTable: string;
+  jobId: string;
+  environment: string;
+  rawDataBucket?: string;
+}
+
+/**
+ * Central registry of scraper implementations. Each scraper module registers
+ * itself under the class name stored in `websites.scraper_class`, so the batch
+ * entrypoint and orchestrator can resolve scrapers without a hard-coded switch.
+ */
+export class ScraperRegistry {
+  private static scrapers = new Map<string, ScraperRegistration>();
+  private static aliases = new Map<string, string>();
+
+  static register(
+    name: string,
+    scraperClass: ScraperConstructor,
+    metadata: ScraperMetadata,
+    configSchema: ScraperConfigSchema = {}
+  ): void {
+    if (this.scrapers.has(name)) {
+      throw new Error(`Scraper "${name}" is already registered`);
+    }
+
+    this.scrapers.set(name, { name, scraperClass, metadata, configSchema });
+
+    // Aliases keep the legacy WEBSITE values (e.g. 'careeronestop') working
+    for (const alias of metadata.aliases || []) {
+      this.aliases.set(alias.toLowerCase(), name);
+    }
+  }
+
+  static has(name: string): boolean {
+    return this.resolveName(name) !== undefined;
+  }
+
+  static get(name: string): ScraperRegistration {
+    const resolvedName = this.resolveName(name);
+    if (!resolvedName) {
+      throw new Error(
+        `Unknown scraper class "${name}". Registered scrapers: ${this.list().join(', ') || 'none'}`
+      );
+    }
+    return this.scrapers.get(resolvedName)!;
+  }
+
+  static list(): string[] {
+    return Array.from(this.scrapers.keys()).sort();
+  }
+
+  static getAll(): ScraperRegistration[] {
+    return this.list().map(name => this.scrapers.get(name)!);
+  }
+
+  static create(name: string, options: CreateScraperOptions): BaseScraper {
+    const { scraperClass } = this.get(name);
+    return new scraperClass(
+      '', // scholarshipsTable - no longer used
+      options.jobsTable,
+      options.jobId,
+      options.environment,
+      options.rawDataBucket
+    );
+  }
+
+  /**
+   * Validates a website's scraper configuration against the registered schema
+   * @param name - The registered scraper name or alias
+   * @param config - The configuration object (e.g. a WebsiteRecord from the websites table)
+   * @returns List of validation errors, empty if the config is valid
+   */
+  static validateConfig(name: string, config: Record<string, any>): string[] {
+    const { configSchema } = this.get(name);
+    const errors: string[] = [];
+
+    Object.entries(configSchema).forEach(([key, field]) => {
+      const value = config[key];
+
+      if (value === undefined || value === null || value === '') {
+        if (field.required) {
+          errors.push(`Missing required config "${key}" for scraper ${name}`);
+        }
+        return;
+      }
+
+      const actualType = Array.isArray(value) ? 'array' : typeof value;
+      if (actualType !== field.type) {
+        errors.push(`Config "${key}" for scraper ${name} should be ${field.type}, got ${actualType}`);
+      }
+    });
+
+    return errors;
+  }
+
+  private static resolveName(name: string): string | undefined {
+    if (this.scrapers.has(name)) {
+      return name;
+    }
+    return this.aliases.get(name.toLowerCase());
+  }
+}
@@ -0,0 +1,53 @@
+import { AcademicLevelUtils } from '../academic-level-utils';
+
+const { normalizeAcademicLevels } = AcademicLevelUtils;
+
+const ALL_HIGH_SCHOOL = ['high_school_freshman', 'high_school_sophomore', 'high_school_junior', 'high_school_senior'];
+const ALL_UNDERGRADUATE = ['undergraduate_freshman', 'undergraduate_sophomore', 'undergraduate_junior', 'undergraduate_senior'];
+
+describe('AcademicLevelUtils.normalizeAcademicLevels', () => {
+  // Level of Study values as CareerOneStop's scholarship listing shows them
+  it.each([
+    ['High School', ALL_HIGH_SCHOOL],
+    ['First-Year Undergraduate', ['undergraduate_freshman']],
+    ["Associate's Degree", ['community_college']],
+    ["Bachelor's Degree", ALL_UNDERGRADUATE],
+    ["Master's Degree", ['masters']],
+    ['Doctoral Degree', ['doctoral']],
+    ['Graduate Degree', ['masters', 'doctoral']],
+    ['Professional Degree', ['professional']],
+    ['Certificate', ['vocational']],
+  ])('maps CareerOneStop level "%s"', (text, levels) => {
+    expect(normalizeAcademicLevels(text)).toEqual(levels);
+  });
+
+  it('maps every level of a combined CareerOneStop listing', () => {
+    expect(normalizeAcademicLevels("High School, Associate's Degree, Bachelor's Degree")).toEqual([
+      ...ALL_HIGH_SCHOOL, 'community_college', ...ALL_UNDERGRADUATE,
+    ]);
+  });
+
+  it('limits a stage named with a year to that year', () => {
+    expect(normalizeAcademicLevels('High School Senior')).toEqual(['high_school_senior']);
+    expect(normalizeAcademicLevels('Junior or senior in high school')).toEqual(['high_school_junior', 'high_school_senior']);
+    expect(normalizeAcademicLevels('Second-year undergraduate')).toEqual(['undergraduate_sophomore']);
+    expect(normalizeAcademicLevels('High school seniors or college freshmen')).toEqual([
+      'high_school_senior', 'undergraduate_freshman',
+    ]);
+  });
+
+  it('does not read graduate years as college years', () => {
+    expect(normalizeAcademicLevels('First-year graduate students')).toEqual(['masters', 'doctoral']);
+  });
+
+  it('passes normalized values through unchanged', () => {
+    expect(normalizeAcademicLevels('high_school_junior,undergraduate_freshman')).toEqual([
+      'high_school_junior', 'undergraduate_freshman',
+    ]);
+  });
+
+  it('returns no levels for text that names none', () => {
+    expect(normalizeAcademicLevels('Open to all')).toEqual([]);
+    expect(normalizeAcademicLevels(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import { AmountUtils } from '../amount-utils';
+
+describe('AmountUtils.toAwardFields', () => {
+  const fields = (text: string) => AmountUtils.toAwardFields(AmountUtils.parseAward(text));
+
+  it('stores ranges and single amounts as they are written', () => {
+    expect(fields('$500 - $2,000')).toMatchObject({ min_award: 500, max_award: 2000, award_varies: false });
+    expect(fields('$1,000')).toMatchObject({ min_award: 1000, max_award: 1000, award_varies: false });
+  });
+
+  it('leaves a missing bound null instead of 0', () => {
+    expect(fields('Up to $10,000')).toMatchObject({ min_award: null, max_award: 10000 });
+    expect(fields('$500+')).toMatchObject({ min_award: 500, max_award: null });
+  });
+
+  it('keeps unknown amounts null and flags them as varying', () => {
+    expect(fields('Varies')).toMatchObject({ min_award: null, max_award: null, award_varies: true });
+  });
+
+  it('keeps non-cash awards without an amount null', () => {
+    expect(fields('Full tuition')).toMatchObject({
+      min_award: null, max_award: null, non_monetary_awards: 'full_tuition',
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { DeadlineUtils } from '../deadline-utils';
+
+describe('DeadlineUtils.parseDeadline', () => {
+  // Fixed reference so recurring deadlines resolve the same way every run
+  const reference = new Date(2026, 0, 15);
+
+  it('parses full dates as fixed deadlines', () => {
+    expect(DeadlineUtils.parseDeadline('03/15/2026', reference)).toMatchObject({ kind: 'fixed', date: '2026-03-15' });
+    expect(DeadlineUtils.parseDeadline('March 1, 2026', reference)).toMatchObject({ kind: 'fixed', date: '2026-03-01' });
+    expect(DeadlineUtils.parseDeadline('2026-04-30', reference)).toMatchObject({ kind: 'fixed', date: '2026-04-30' });
+  });
+
+  it('parses MM/YYYY as the last day of that month', () => {
+    expect(DeadlineUtils.parseDeadline('05/2026', reference)).toMatchObject({ kind: 'fixed', date: '2026-05-31' });
+    expect(DeadlineUtils.parseDeadline('2/2028', reference)).toMatchObject({ kind: 'fixed', date: '2028-02-29' });
+  });
+
+  it('parses dates without a year as recurring deadlines', () => {
+    expect(DeadlineUtils.parseDeadline('March 1', reference)).toMatchObject({
+      kind: 'recurring', date: '2026-03-01', month: 3, day: 1,
+    });
+    expect(DeadlineUtils.parseDeadline('January 1', reference)).toMatchObject({ kind: 'recurring', date: '2027-01-01' });
+  });
+
+  it('takes the end of an application window', () => {
+    expect(DeadlineUtils.parseDeadline('January 1, 2026 - March 31, 2026', reference)).toMatchObject({
+      kind: 'fixed', date: '2026-03-31',
+    });
+  });
+
+  it('recognizes rolling, varying and unknown deadlines', () => {
+    expect(DeadlineUtils.parseDeadline('Rolling', reference).kind).toBe('rolling');
+    expect(DeadlineUtils.parseDeadline('Varies', reference).kind).toBe('varies');
+    expect(DeadlineUtils.parseDeadline('No deadline specified', reference).kind).toBe('unknown');
+  });
+});
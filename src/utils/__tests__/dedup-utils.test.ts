@@ -0,0 +1,143 @@
+import { DedupUtils, DedupCandidate, DEFAULT_MATCH_THRESHOLD } from '../dedup-utils';
+
+const { tokenize, tokenSimilarity, similarityScore, findBestMatch, clusterScholarships, mergeCluster } = DedupUtils;
+
+const isMatch = (a: DedupCandidate, b: DedupCandidate) => similarityScore(a, b) >= DEFAULT_MATCH_THRESHOLD;
+
+describe('DedupUtils.tokenize', () => {
+  it('drops stop words, case and punctuation', () => {
+    expect(Array.from(tokenize('The XYZ Foundation Scholarship for Nurses!'))).toEqual(['xyz', 'nurses']);
+    expect(tokenize(null).size).toBe(0);
+  });
+});
+
+describe('DedupUtils.tokenSimilarity', () => {
+  it('is the Dice coefficient of the token sets', () => {
+    expect(tokenSimilarity(new Set(['a', 'b']), new Set(['a', 'b']))).toBe(1);
+    expect(tokenSimilarity(new Set(['a', 'b']), new Set(['b', 'c']))).toBe(0.5);
+    expect(tokenSimilarity(new Set(['a']), new Set())).toBe(0);
+  });
+});
+
+describe('DedupUtils.similarityScore', () => {
+  it('matches a name with and without filler words from the same organization', () => {
+    expect(isMatch(
+      { name: 'The XYZ Foundation Scholarship', organization: 'XYZ Foundation', url: 'https://xyz.org/apply' },
+      { name: 'XYZ Scholarship', organization: 'The XYZ Foundation', url: 'https://www.xyz.org/apply/' },
+    )).toBe(true);
+  });
+
+  it('matches the same name when no other signal is known', () => {
+    expect(similarityScore({ name: 'Future Nurses Scholarship' }, { name: 'Future Nurses Award' })).toBe(1);
+  });
+
+  it('does not match the same name from different organizations and sites', () => {
+    const a = { name: 'Women in STEM Scholarship', organization: 'Society of Women Engineers', url: 'https://swe.org/women-in-stem' };
+    const b = { name: 'Women in STEM Scholarship', organization: 'Acme Robotics', url: 'https://acme.com/women-in-stem' };
+    expect(similarityScore(a, b)).toBeCloseTo(0.55 / 0.9);
+    expect(isMatch(a, b)).toBe(false);
+  });
+
+  it('does not match different names that share a URL', () => {
+    // Directory sites list many scholarships under one apply page
+    const a = { name: 'Dream Big Award', url: 'https://example.org/apply' };
+    const b = { name: 'Future Leaders Grant', url: 'https://example.org/apply' };
+    expect(similarityScore(a, b)).toBeCloseTo(0.15 / 0.7);
+    expect(isMatch(a, b)).toBe(false);
+  });
+
+  it('counts equal amounts for, and different amounts against, a match', () => {
+    const base = { name: 'Rural Teachers Scholarship Fund', organization: 'Rural Education Alliance' };
+    const sameAmount = similarityScore({ ...base, maxAward: 2500 }, { ...base, name: 'Rural Teachers Scholarship', maxAward: 2500 });
+    const closeAmount = similarityScore({ ...base, maxAward: 2500 }, { ...base, name: 'Rural Teachers Scholarship', maxAward: 2400 });
+    const otherAmount = similarityScore({ ...base, maxAward: 2500 }, { ...base, name: 'Rural Teachers Scholarship', maxAward: 10000 });
+
+    expect(sameAmount).toBe(1);
+    expect(closeAmount).toBeCloseTo((0.55 + 0.2 + 0.1 * 0.5) / 0.85);
+    expect(otherAmount).toBeCloseTo((0.55 + 0.2) / 0.85);
+  });
+
+  it('treats URLs on the same host as weaker evidence than the same URL', () => {
+    const a = { name: 'Coastal Science Scholarship', url: 'https://ocean.org/scholarships/coastal' };
+    expect(similarityScore(a, { ...a, url: 'https://ocean.org/scholarships/coastal/' })).toBe(1);
+    expect(similarityScore(a, { ...a, url: 'https://ocean.org/other' })).toBeCloseTo((0.55 + 0.15 * 0.5) / 0.7);
+  });
+});
+
+describe('DedupUtils.findBestMatch', () => {
+  const records = [
+    { id: 1, name: 'Hispanic Heritage Youth Award', organization: 'Hispanic Heritage Foundation' },
+    { id: 2, name: 'Hispanic Heritage Scholarship', organization: 'Hispanic Heritage Foundation' },
+    { id: 3, name: 'Veterans Memorial Scholarship', organization: 'American Legion' },
+  ];
+
+  it('returns the highest-scoring record above the threshold', () => {
+    const match = findBestMatch({ name: 'Hispanic Heritage Scholarship Program', organization: 'Hispanic Heritage Foundation' }, records);
+    expect(match?.record.id).toBe(2);
+    expect(match?.score).toBe(1);
+  });
+
+  it('returns null when nothing reaches the threshold', () => {
+    expect(findBestMatch({ name: 'Veterans Memorial Scholarship', organization: 'VFW' }, records)).toBeNull();
+    expect(findBestMatch({ name: 'Unrelated Award' }, records)).toBeNull();
+  });
+});
+
+describe('DedupUtils.clusterScholarships', () => {
+  it('groups transitive near-duplicates and keeps the rest apart', () => {
+    const records = [
+      { name: 'The Gates Scholarship', organization: 'Gates Foundation', source: 'a' },
+      { name: 'Gates Scholarship', organization: 'Bill & Melinda Gates Foundation', source: 'b' },
+      { name: 'Gates Scholarship Program', source: 'c' },
+      { name: 'Coca-Cola Scholars Program', source: 'a' },
+      { name: 'Women in STEM Scholarship', organization: 'Society of Women Engineers', source: 'a' },
+      { name: 'Women in STEM Scholarship', organization: 'Acme Robotics', source: 'b' },
+    ];
+
+    const clusters = clusterScholarships(records).map(cluster => cluster.map(record => `${record.source}:${record.name}`));
+
+    expect(clusters).toEqual([
+      ['a:The Gates Scholarship', 'b:Gates Scholarship', 'c:Gates Scholarship Program'],
+      ['a:Coca-Cola Scholars Program'],
+      ['a:Women in STEM Scholarship'],
+      ['b:Women in STEM Scholarship'],
+    ]);
+  });
+
+  it('returns no clusters for no records', () => {
+    expect(clusterScholarships([])).toEqual([]);
+  });
+});
+
+describe('DedupUtils.mergeCluster', () => {
+  it('keeps the most complete record and fills its gaps from the others', () => {
+    const merged = mergeCluster([
+      { name: 'Gates Scholarship', url: 'https://gates.org', source: 'search' },
+      {
+        name: 'The Gates Scholarship',
+        organization: 'Gates Foundation',
+        url: 'https://thegatesscholarship.org',
+        maxAward: 0,
+        source: 'careeronestop',
+      },
+      { name: 'Gates Scholarship Program', maxAward: 50000, applyUrl: '', source: 'collegescholarship' },
+    ]);
+
+    expect(merged.canonical).toEqual({
+      name: 'The Gates Scholarship',
+      organization: 'Gates Foundation',
+      url: 'https://thegatesscholarship.org',
+      maxAward: 50000,
+      source: 'careeronestop',
+    });
+    expect(merged.fieldSources).toEqual({
+      name: 'careeronestop',
+      organization: 'careeronestop',
+      url: 'careeronestop',
+      maxAward: 'collegescholarship',
+      source: 'careeronestop',
+    });
+    expect(merged.provenance.map(entry => entry.source)).toEqual(['careeronestop', 'search', 'collegescholarship']);
+    expect(merged.provenance[0].score).toBe(1);
+  });
+});
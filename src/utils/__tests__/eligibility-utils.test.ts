@@ -0,0 +1,116 @@
+import { EligibilityUtils } from '../eligibility-utils';
+
+const { parseEligibility } = EligibilityUtils;
+
+describe('EligibilityUtils.parseEligibility', () => {
+  describe('minimum GPA', () => {
+    it.each([
+      ['Applicants must have a 3.0 GPA', 3],
+      ['Minimum 3.5/4.0 cumulative GPA required', 3.5],
+      ['A 2.75 grade point average or better', 2.75],
+      ['GPA of 3.25 or higher', 3.25],
+      ['minimum GPA: 2.5', 2.5],
+      ['Grade point average of at least 3.2', 3.2],
+      ['GPA of 3 or higher', 3],
+      ['3.5 GPA to apply, 3.0 GPA to renew', 3],
+    ])('reads "%s" as %s', (text, gpa) => {
+      expect(parseEligibility(text).minGpa).toBe(gpa);
+    });
+
+    it.each([
+      ['Open to members of the 4 USGPA chapters'],
+      ['Submit 3 recommendation letters and your GPAs from every school'],
+      ['Awards of 4,000 dollars for graduating seniors'],
+      ['GPA of 5.0 on a weighted scale'],
+      ['Strong academic record required'],
+    ])('finds no GPA in "%s"', text => {
+      expect(parseEligibility(text).minGpa).toBeNull();
+    });
+  });
+
+  describe('residency states', () => {
+    it.each([
+      ['Open to residents of Ohio and New York', '', ['NY', 'OH']],
+      ['Must attend a college in West Virginia', '', ['WV']],
+      ['For students in Washington, D.C.', '', ['DC']],
+      ['For students in Washington State', '', ['WA']],
+      ['', 'CA, NV, AZ', ['AZ', 'CA', 'NV']],
+      ['Residents of Texas', 'TX', ['TX']],
+    ])('reads "%s" with restrictions "%s" as %j', (text, restrictions, states) => {
+      expect(parseEligibility(text, restrictions).residencyStates).toEqual(states);
+    });
+
+    it.each([
+      // Capitalized codes that are also words are ignored even in the restrictions list
+      ['', 'Residents of CA OR NV', ['CA', 'NV']],
+      ['', 'IN ME OK HI', []],
+      // Codes only count in the restrictions field, never in the eligibility text
+      ['Students in the CS or IT program, GA or TA positions', '', []],
+      // State names are matched as capitalized proper nouns only
+      ['A georgia peach and a virginia creeper', '', []],
+    ])('finds only real states in "%s" / "%s"', (text, restrictions, states) => {
+      expect(parseEligibility(text, restrictions).residencyStates).toEqual(states);
+    });
+  });
+
+  describe('citizenship', () => {
+    it.each([
+      ['Must be a U.S. citizen or permanent resident', ['us_citizen', 'permanent_resident']],
+      ['Open to DACA recipients and undocumented students', ['daca']],
+      ['International students on an F-1 visa are eligible', ['international']],
+      ['Citizens of the United States or eligible noncitizens', ['us_citizen', 'permanent_resident']],
+      ['Open to all students', []],
+    ])('reads "%s" as %j', (text, citizenship) => {
+      expect(parseEligibility(text).citizenship).toEqual(citizenship);
+    });
+  });
+
+  describe('standardized test scores', () => {
+    it.each([
+      ['SAT score of 1200 or ACT score of 25', [{ test: 'SAT', minScore: 1200 }, { test: 'ACT', minScore: 25 }]],
+      ['A 1300 SAT is recommended', [{ test: 'SAT', minScore: 1300 }]],
+      ['TOEFL 80+ for international applicants', [{ test: 'TOEFL', minScore: 80 }]],
+      ['Submit your GRE scores', [{ test: 'GRE', minScore: null }]],
+      // 2024 is out of the ACT range, so it is not taken as a score
+      ['ACT results from 2024', [{ test: 'ACT', minScore: null }]],
+    ])('reads "%s"', (text, testScores) => {
+      expect(parseEligibility(text).testScores).toEqual(testScores);
+    });
+
+    it('does not read "act" or "sat" as test names in lowercase text', () => {
+      expect(parseEligibility('Students who act as mentors and sat on the council').testScores).toEqual([]);
+    });
+  });
+
+  describe('other criteria', () => {
+    it.each([
+      ['fieldsOfStudy', 'Nursing or public health majors', ['health_sciences', 'nursing']],
+      ['fieldsOfStudy', 'Students pursuing STEM degrees', ['stem']],
+      ['fieldsOfStudy', 'Must explain their academic history', []],
+      ['enrollmentStatus', 'Full-time or half-time enrollment', ['full_time', 'part_time']],
+      ['militaryAffiliation', 'Veterans and children of military service members', ['veteran', 'military_family']],
+      ['militaryAffiliation', 'Members of the National Guard', ['reserve_guard']],
+      ['firstGeneration', 'First-generation college students', true],
+      ['firstGeneration', 'Neither parent has graduated from college', true],
+      ['firstGeneration', 'Second-generation immigrants', false],
+      ['disability', 'Students who are deaf or hard of hearing', true],
+      ['disability', 'Students with the ability to lead', false],
+    ] as const)('reads %s from "%s"', (field, text, expected) => {
+      expect(parseEligibility(text)[field]).toEqual(expected);
+    });
+  });
+
+  it('returns empty criteria for missing text', () => {
+    expect(parseEligibility(null)).toEqual({
+      minGpa: null,
+      residencyStates: [],
+      citizenship: [],
+      fieldsOfStudy: [],
+      enrollmentStatus: [],
+      firstGeneration: false,
+      militaryAffiliation: [],
+      disability: false,
+      testScores: [],
+    });
+  });
+});
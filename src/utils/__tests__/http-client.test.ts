@@ -0,0 +1,141 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient, HttpRequestMetrics } from '../http-client';
+
+interface ServedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+describe('HttpClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let client: HttpClient;
+  // Responses served per path in turn; the last one repeats
+  let responses: Record<string, ServedResponse[]>;
+  let hits: Record<string, number>;
+
+  function serve(path: string, ...served: ServedResponse[]): string {
+    responses[path] = served;
+    return `${baseUrl}${path}`;
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const path = request.url || '/';
+      hits[path] = (hits[path] || 0) + 1;
+      const queue = responses[path] || [{ status: 404 }];
+      const { status, headers = {}, body = '' } = queue.length > 1 ? queue.shift()! : queue[0];
+      response.writeHead(status, { 'Content-Type': 'text/plain', ...headers });
+      response.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responses = {};
+    hits = {};
+    client = new HttpClient();
+    client.setHostInterval('127.0.0.1', 0);
+    // Backoff takes the low end of its jitter range: 500ms, then 1000ms
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns a non-transient error status without retrying', async () => {
+    const url = serve('/missing', { status: 404, body: 'Not found' });
+
+    const response = await client.request(url);
+
+    expect(response.status).toBe(404);
+    expect(response.ok).toBe(false);
+    expect(response.metrics.attempts).toBe(1);
+    expect(hits['/missing']).toBe(1);
+  });
+
+  it('retries transient statuses with exponential backoff', async () => {
+    const url = serve('/flaky', { status: 503 }, { status: 502 }, { status: 200, body: 'listing' });
+
+    const response = await client.request(url, { maxRetries: 3 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBe('listing');
+    expect(response.metrics.attempts).toBe(3);
+    expect(response.metrics.waitMs).toBe(500 + 1000);
+  }, 10000);
+
+  it('returns the last transient status once the retries are used up', async () => {
+    const url = serve('/down', { status: 500 });
+
+    const response = await client.request(url, { maxRetries: 1 });
+
+    expect(response.status).toBe(500);
+    expect(response.metrics.attempts).toBe(2);
+    expect(hits['/down']).toBe(2);
+  }, 10000);
+
+  it('waits as long as Retry-After asks instead of the backoff delay', async () => {
+    const url = serve('/limited', { status: 429, headers: { 'Retry-After': '1' } }, { status: 200 });
+
+    const response = await client.request(url, { maxRetries: 1 });
+
+    expect(response.status).toBe(200);
+    expect(response.metrics.waitMs).toBeGreaterThanOrEqual(1000);
+    expect(response.metrics.waitMs).toBeLessThan(1500);
+  }, 10000);
+
+  it('retries network failures and throws once the retries are used up', async () => {
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    const reported: HttpRequestMetrics[] = [];
+    client.onMetrics(metrics => reported.push(metrics));
+
+    await expect(client.request(`http://127.0.0.1:${port}/`, { maxRetries: 1 })).rejects.toThrow();
+    expect(reported).toHaveLength(1);
+    expect(reported[0]).toMatchObject({ attempts: 2, status: null });
+    expect(reported[0].error).not.toBeNull();
+  }, 10000);
+
+  it('spaces requests to a host by its minimum interval', async () => {
+    const url = serve('/page', { status: 200 });
+    client.setHostInterval('127.0.0.1', 300);
+
+    const [first, second] = await Promise.all([client.request(url), client.request(url)]);
+
+    expect(first.metrics.waitMs).toBe(0);
+    expect(second.metrics.waitMs).toBeGreaterThanOrEqual(290);
+  });
+
+  it('fails a response larger than maxBytes without retrying', async () => {
+    const url = serve('/huge', { status: 200, body: 'x'.repeat(5000) });
+
+    await expect(client.request(url, { maxBytes: 1000 })).rejects.toThrow(/maxContentLength/);
+    expect(hits['/huge']).toBe(1);
+  });
+
+  it('reports metrics to listeners until they are removed', async () => {
+    const url = serve('/page', { status: 200, body: 'hello' });
+    const listener = jest.fn();
+    const remove = client.onMetrics(listener);
+
+    await client.request(url);
+    remove();
+    await client.request(url);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ url, status: 200, attempts: 1, bytes: 5, blocked: false });
+  });
+});
@@ -0,0 +1,163 @@
+import { InMemoryJobStore, listScrapingJobs, rollUpParentJob } from '../job-store';
+import { ScrapingJob } from '../types';
+
+function job(jobId: string, overrides: Partial<ScrapingJob> = {}): ScrapingJob {
+  return {
+    jobId,
+    startTime: '2026-10-01T08:00:00.000Z',
+    status: 'running',
+    website: jobId,
+    recordsFound: 0,
+    recordsProcessed: 0,
+    recordsInserted: 0,
+    recordsUpdated: 0,
+    recordsUnchanged: 0,
+    errors: [],
+    environment: 'test',
+    ...overrides,
+  };
+}
+
+describe('InMemoryJobStore', () => {
+  it('gives every save a new revision', async () => {
+    const store = new InMemoryJobStore();
+    await store.saveJob(job('job-1'));
+    const first = await store.getJob('job-1');
+    await store.saveJob(job('job-1'));
+    const second = await store.getJob('job-1');
+
+    expect(first!.revision).toBeDefined();
+    expect(second!.revision).not.toBe(first!.revision);
+  });
+
+  it('saves a job only if nobody wrote it since it was read', async () => {
+    const store = new InMemoryJobStore();
+    await store.saveJob(job('job-1'));
+    const read = (await store.getJob('job-1'))!;
+
+    expect(await store.saveJobIfUnchanged({ ...read, status: 'completed' })).toBe(true);
+    // The read copy's revision is now stale
+    expect(await store.saveJobIfUnchanged({ ...read, status: 'failed' })).toBe(false);
+    expect((await store.getJob('job-1'))!.status).toBe('completed');
+  });
+
+  it('lists jobs newest first, filtered by website, status and start time', async () => {
+    const store = new InMemoryJobStore();
+    await store.saveJob(job('a', { website: 'careeronestop', startTime: '2026-10-01T08:00:00.000Z' }));
+    await store.saveJob(job('b', { website: 'careeronestop', startTime: '2026-10-03T08:00:00.000Z', status: 'failed' }));
+    await store.saveJob(job('c', { website: 'collegescholarship', startTime: '2026-10-02T08:00:00.000Z' }));
+
+    expect((await store.listJobs()).map(found => found.jobId)).toEqual(['b', 'c', 'a']);
+    expect((await store.listJobs({ website: 'careeronestop' })).map(found => found.jobId)).toEqual(['b', 'a']);
+    expect((await store.listJobs({ status: 'failed' })).map(found => found.jobId)).toEqual(['b']);
+    expect((await store.listJobs({ since: '2026-10-02', limit: 1 })).map(found => found.jobId)).toEqual(['b']);
+  });
+});
+
+describe('rollUpParentJob', () => {
+  let store: InMemoryJobStore;
+
+  beforeEach(async () => {
+    store = new InMemoryJobStore();
+    await store.saveJob(job('parent', { website: 'all', childJobIds: ['parent-a', 'parent-b'] }));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the parent running while a child is still running and sums the counts so far', async () => {
+    await store.saveJob(job('parent-a', { website: 'a', status: 'completed', recordsFound: 5, recordsInserted: 3, endTime: '2026-10-01T09:00:00.000Z' }));
+    await store.saveJob(job('parent-b', { website: 'b', status: 'running', recordsFound: 2 }));
+
+    const parent = await rollUpParentJob(store, 'parent');
+
+    expect(parent).toMatchObject({ status: 'running', recordsFound: 7, recordsInserted: 3 });
+    expect(parent!.endTime).toBeUndefined();
+  });
+
+  it('completes the parent once every child completed, ending with the last child', async () => {
+    await store.saveJob(job('parent-a', { website: 'a', status: 'completed', recordsUpdated: 1, endTime: '2026-10-01T09:00:00.000Z' }));
+    await store.saveJob(job('parent-b', { website: 'b', status: 'completed', recordsUpdated: 2, endTime: '2026-10-01T10:00:00.000Z' }));
+
+    await rollUpParentJob(store, 'parent');
+
+    expect(await store.getJob('parent')).toMatchObject({
+      status: 'completed',
+      recordsUpdated: 3,
+      endTime: '2026-10-01T10:00:00.000Z',
+    });
+  });
+
+  it('fails the parent if any child failed and labels the children\'s errors', async () => {
+    await store.saveJob(job('parent-a', { website: 'a', status: 'completed', endTime: '2026-10-01T09:00:00.000Z' }));
+    await store.saveJob(job('parent-b', { website: 'b', status: 'failed', errors: ['Listing page timed out'], endTime: '2026-10-01T09:30:00.000Z' }));
+
+    const parent = await rollUpParentJob(store, 'parent');
+
+    expect(parent!.status).toBe('failed');
+    expect(parent!.errors).toEqual(['[b] Listing page timed out']);
+  });
+
+  it('replaces a child\'s earlier errors rather than repeating them', async () => {
+    await store.saveJob(job('parent-a', { website: 'a', errors: ['first'] }));
+    await rollUpParentJob(store, 'parent');
+    await store.saveJob(job('parent-a', { website: 'a', errors: ['first', 'second'] }));
+
+    const parent = await rollUpParentJob(store, 'parent');
+
+    expect(parent!.errors).toEqual(['[a] first', '[a] second']);
+  });
+
+  it('redoes the roll-up when another child writes the parent first', async () => {
+    await store.saveJob(job('parent-a', { website: 'a', status: 'completed', endTime: '2026-10-01T09:00:00.000Z' }));
+    await store.saveJob(job('parent-b', { website: 'b', status: 'completed', endTime: '2026-10-01T09:30:00.000Z' }));
+
+    // A concurrent roll-up saves the parent between this one's read and write
+    const save = store.saveJobIfUnchanged.bind(store);
+    const conflicting = jest.spyOn(store, 'saveJobIfUnchanged').mockImplementationOnce(async rolledUp => {
+      await store.saveJob(job('parent', { website: 'all', childJobIds: ['parent-a', 'parent-b'] }));
+      return save(rolledUp);
+    });
+
+    const parent = await rollUpParentJob(store, 'parent');
+
+    expect(conflicting).toHaveBeenCalledTimes(2);
+    expect(parent!.status).toBe('completed');
+    expect((await store.getJob('parent'))!.status).toBe('completed');
+  });
+
+  it('gives up after repeated conflicting writes', async () => {
+    jest.spyOn(store, 'saveJobIfUnchanged').mockResolvedValue(false);
+
+    await expect(rollUpParentJob(store, 'parent')).rejects.toThrow('after 5 conflicting writes');
+    expect(store.saveJobIfUnchanged).toHaveBeenCalledTimes(5);
+  });
+
+  it('leaves a job without children as it is', async () => {
+    await store.saveJob(job('solo'));
+    expect(await rollUpParentJob(store, 'solo')).toMatchObject({ jobId: 'solo', status: 'running' });
+    expect(await rollUpParentJob(store, 'unknown')).toBeNull();
+  });
+});
+
+describe('listScrapingJobs', () => {
+  it('adds the duration and error count of each job', async () => {
+    const store = new InMemoryJobStore();
+    await store.saveJob(job('done', {
+      status: 'completed',
+      startTime: '2026-10-01T08:00:00.000Z',
+      endTime: '2026-10-01T08:01:30.000Z',
+      errors: ['one', 'two'],
+    }));
+    await store.saveJob(job('running', { startTime: '2026-10-01T07:00:00.000Z' }));
+
+    const jobs = await listScrapingJobs({}, store);
+
+    expect(jobs.map(({ jobId, durationSeconds, errorCount }) => ({ jobId, durationSeconds, errorCount }))).toEqual([
+      { jobId: 'done', durationSeconds: 90, errorCount: 2 },
+      { jobId: 'running', durationSeconds: null, errorCount: 0 },
+    ]);
+  });
+});
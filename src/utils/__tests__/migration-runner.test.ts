@@ -0,0 +1,163 @@
+import { Migration, MigrationRunner } from '../migration-runner';
+import { baselineSchema } from '../../batch/migrations/001-baseline-schema';
+
+/**
+ * A connection stub that keeps schema_migrations in memory and records the order
+ * migrations ran in
+ */
+function stubConnection(options: { applied?: number[]; lockAvailable?: boolean } = {}) {
+  const applied = new Map<number, { version: number; name: string; applied_at: Date; execution_ms: number }>();
+  (options.applied || []).forEach(version => applied.set(version, {
+    version, name: `migration-${version}`, applied_at: new Date('2026-10-01T00:00:00Z'), execution_ms: 5,
+  }));
+  const locks: string[] = [];
+
+  const connection = {
+    execute: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('INSERT INTO schema_migrations')) {
+        const [version, name, executionMs] = params;
+        applied.set(version, { version, name, applied_at: new Date(), execution_ms: executionMs });
+      } else if (sql.includes('DELETE FROM schema_migrations')) {
+        applied.delete(params[0]);
+      } else if (sql.includes('FROM schema_migrations')) {
+        return [Array.from(applied.values()).sort((a, b) => a.version - b.version)];
+      }
+      return [{}];
+    }),
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('GET_LOCK')) {
+        locks.push('get');
+        return [[{ acquired: options.lockAvailable === false ? 0 : 1 }]];
+      }
+      locks.push('release');
+      return [[{}]];
+    }),
+  };
+
+  return { connection: connection as any, applied, locks };
+}
+
+describe('MigrationRunner', () => {
+  let calls: string[];
+
+  function migration(version: number): Migration {
+    return {
+      version,
+      name: `migration-${version}`,
+      up: async () => {
+        calls.push(`up ${version}`);
+      },
+      down: async () => {
+        calls.push(`down ${version}`);
+      },
+    };
+  }
+
+  beforeEach(() => {
+    calls = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects duplicate and invalid versions', () => {
+    const { connection } = stubConnection();
+    expect(() => new MigrationRunner(connection, [migration(1), migration(1)])).toThrow('Duplicate migration version 1');
+    expect(() => new MigrationRunner(connection, [migration(0)])).toThrow('Invalid migration version 0');
+  });
+
+  it('applies pending migrations in version order and records them', async () => {
+    const { connection, applied, locks } = stubConnection();
+    const runner = new MigrationRunner(connection, [migration(3), migration(1), migration(2)]);
+
+    const ran = await runner.migrate();
+
+    expect(ran.map(item => item.version)).toEqual([1, 2, 3]);
+    expect(calls).toEqual(['up 1', 'up 2', 'up 3']);
+    expect(Array.from(applied.keys())).toEqual([1, 2, 3]);
+    expect(locks).toEqual(['get', 'release']);
+  });
+
+  it('skips versions that are already applied', async () => {
+    const { connection } = stubConnection({ applied: [1, 2] });
+    const runner = new MigrationRunner(connection, [migration(1), migration(2), migration(3)]);
+
+    expect((await runner.migrate()).map(item => item.version)).toEqual([3]);
+    expect(calls).toEqual(['up 3']);
+    expect(await runner.migrate()).toEqual([]);
+  });
+
+  it('stops at the target version', async () => {
+    const { connection, applied } = stubConnection();
+    const runner = new MigrationRunner(connection, [migration(1), migration(2), migration(3)]);
+
+    await runner.migrate(2);
+
+    expect(calls).toEqual(['up 1', 'up 2']);
+    expect(applied.has(3)).toBe(false);
+  });
+
+  it('does not record a migration whose up() fails', async () => {
+    const { connection, applied, locks } = stubConnection();
+    const failing: Migration = { ...migration(2), up: async () => { throw new Error('duplicate column'); } };
+    const runner = new MigrationRunner(connection, [migration(1), failing, migration(3)]);
+
+    await expect(runner.migrate()).rejects.toThrow('duplicate column');
+    expect(Array.from(applied.keys())).toEqual([1]);
+    expect(calls).toEqual(['up 1']);
+    expect(locks).toEqual(['get', 'release']);
+  });
+
+  it('rolls back the newest migrations first', async () => {
+    const { connection, applied } = stubConnection({ applied: [1, 2, 3] });
+    const runner = new MigrationRunner(connection, [migration(1), migration(2), migration(3)]);
+
+    const reverted = await runner.rollback(2);
+
+    expect(reverted.map(item => item.version)).toEqual([3, 2]);
+    expect(calls).toEqual(['down 3', 'down 2']);
+    expect(Array.from(applied.keys())).toEqual([1]);
+  });
+
+  it('refuses to roll back a migration this build does not know, before reverting anything', async () => {
+    const { connection, applied } = stubConnection({ applied: [1, 2, 4] });
+    const runner = new MigrationRunner(connection, [migration(1), migration(2)]);
+
+    await expect(runner.rollback(2)).rejects.toThrow('Cannot roll back migration 4');
+    expect(calls).toEqual([]);
+    expect(Array.from(applied.keys())).toEqual([1, 2, 4]);
+  });
+
+  it('refuses to roll back the baseline schema', async () => {
+    const { connection, applied } = stubConnection({ applied: [1] });
+    const runner = new MigrationRunner(connection, [baselineSchema]);
+
+    await expect(runner.rollback()).rejects.toThrow('The baseline schema cannot be rolled back');
+    expect(applied.has(1)).toBe(true);
+  });
+
+  it('reports applied, pending and missing migrations in version order', async () => {
+    const { connection } = stubConnection({ applied: [1, 5] });
+    const runner = new MigrationRunner(connection, [migration(2), migration(1)]);
+
+    const statuses = await runner.status();
+
+    expect(statuses.map(({ version, state }) => ({ version, state }))).toEqual([
+      { version: 1, state: 'applied' },
+      { version: 2, state: 'pending' },
+      { version: 5, state: 'missing' },
+    ]);
+    expect(statuses[0].executionMs).toBe(5);
+    expect(statuses[1].appliedAt).toBeNull();
+  });
+
+  it('fails when another run holds the migration lock', async () => {
+    const { connection } = stubConnection({ lockAvailable: false });
+    const runner = new MigrationRunner(connection, [migration(1)]);
+
+    await expect(runner.migrate()).rejects.toThrow('waiting for another schema migration');
+    expect(calls).toEqual([]);
+  });
+});
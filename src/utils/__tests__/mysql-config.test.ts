@@ -0,0 +1,94 @@
+import { MySQLDatabase } from '../mysql-config';
+
+const NO_CRITERIA = { residencyStates: [], fieldsOfStudy: [], testScores: [] };
+
+describe('MySQLDatabase side-table replacements', () => {
+  let db: MySQLDatabase;
+  let transactions: Array<Array<{ sql: string; params: any[] }>>;
+
+  beforeEach(() => {
+    // The pool only connects on first use, and every statement goes through the stubbed transaction
+    db = new MySQLDatabase({ host: 'localhost', port: 3306, user: 'test', password: 'test', database: 'test' });
+    transactions = [];
+    jest.spyOn(db, 'transaction').mockImplementation(async callback => {
+      const statements: Array<{ sql: string; params: any[] }> = [];
+      transactions.push(statements);
+      return callback({
+        execute: jest.fn(async (sql: string, params: any[]) => {
+          statements.push({ sql: sql.replace(/\s+/g, ' ').trim(), params });
+          return [{ affectedRows: 1 }];
+        }),
+      } as any);
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  it('replaces many scholarships\' academic levels with one DELETE and one INSERT', async () => {
+    await db.bulkReplaceAcademicLevels([
+      { scholarshipId: 1, levels: ['undergraduate_senior'] },
+      { scholarshipId: 2, levels: [] },
+      // A later entry for the same scholarship replaces the earlier one
+      { scholarshipId: 1, levels: ['masters', 'doctoral'] },
+    ]);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toEqual([
+      { sql: 'DELETE FROM scholarship_academic_levels WHERE scholarship_id IN (?, ?)', params: [1, 2] },
+      {
+        sql: 'INSERT INTO scholarship_academic_levels (scholarship_id, academic_level) VALUES (?, ?), (?, ?)',
+        params: [1, 'masters', 1, 'doctoral'],
+      },
+    ]);
+  });
+
+  it('only clears academic levels when no scholarship has any', async () => {
+    await db.replaceAcademicLevels(3, []);
+
+    expect(transactions[0].map(statement => statement.sql)).toEqual([
+      'DELETE FROM scholarship_academic_levels WHERE scholarship_id IN (?)',
+    ]);
+  });
+
+  it('replaces many scholarships\' eligibility criteria with one statement per table', async () => {
+    await db.bulkReplaceEligibilityCriteria([
+      { scholarshipId: 1, eligibility: { ...NO_CRITERIA, residencyStates: ['OH', 'PA'] } },
+      { scholarshipId: 2, eligibility: { ...NO_CRITERIA, residencyStates: ['TX'], testScores: [{ test: 'SAT', minScore: 1200 }] } },
+    ]);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0].map(statement => statement.sql)).toEqual([
+      'DELETE FROM scholarship_residency_states WHERE scholarship_id IN (?, ?)',
+      'DELETE FROM scholarship_fields_of_study WHERE scholarship_id IN (?, ?)',
+      'DELETE FROM scholarship_test_scores WHERE scholarship_id IN (?, ?)',
+      'INSERT INTO scholarship_residency_states (scholarship_id, state_code) VALUES (?, ?), (?, ?), (?, ?)',
+      'INSERT INTO scholarship_test_scores (scholarship_id, test, min_score) VALUES (?, ?, ?)',
+    ]);
+    expect(transactions[0][3].params).toEqual([1, 'OH', 1, 'PA', 2, 'TX']);
+    expect(transactions[0][4].params).toEqual([2, 'SAT', 1200]);
+  });
+
+  it('retries a replacement that deadlocks with another writer', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const replace = (db.transaction as jest.Mock).getMockImplementation()!;
+    (db.transaction as jest.Mock)
+      .mockImplementationOnce(async () => { throw Object.assign(new Error('Deadlock found'), { code: 'ER_LOCK_DEADLOCK' }); })
+      .mockImplementation(replace);
+
+    await db.bulkReplaceEligibilityCriteria([{ scholarshipId: 1, eligibility: NO_CRITERIA }]);
+
+    expect(db.transaction).toHaveBeenCalledTimes(2);
+    expect(transactions).toHaveLength(1);
+  });
+
+  it('does nothing for no entries', async () => {
+    await db.bulkReplaceAcademicLevels([]);
+    await db.bulkReplaceEligibilityCriteria([]);
+
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+});
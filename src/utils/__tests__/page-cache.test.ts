@@ -0,0 +1,158 @@
+import { PageCache } from '../page-cache';
+import { HttpResponse } from '../http-client';
+
+const URL = 'https://example.org/scholarships/1';
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A database stub that keeps page_cache rows in memory, keyed by url_hash
+ */
+function stubDatabase() {
+  const rows = new Map<string, Record<string, any>>();
+
+  const db = {
+    queryOne: jest.fn(async (_sql: string, [urlHash]: any[]) => rows.get(urlHash) || null),
+    query: jest.fn(async (sql: string, params: any[]) => {
+      if (sql.includes('INSERT INTO page_cache')) {
+        const [urlHash, url, etag, lastModified, contentHash, contextHash, parsedAt, checkedAt] = params;
+        const existing = rows.get(urlHash);
+        rows.set(urlHash, {
+          url_hash: urlHash,
+          url,
+          etag,
+          last_modified: lastModified,
+          content_hash: contentHash,
+          context_hash: contextHash,
+          item_count: null,
+          parsed_at: existing ? existing.parsed_at : parsedAt,
+          checked_at: checkedAt,
+        });
+      } else if (sql.includes('SET item_count')) {
+        const [itemCount, parsedAt, urlHash] = params;
+        Object.assign(rows.get(urlHash)!, { item_count: itemCount, parsed_at: parsedAt });
+      } else if (sql.includes('SET etag')) {
+        const [etag, lastModified, checkedAt, urlHash] = params;
+        Object.assign(rows.get(urlHash)!, { etag, last_modified: lastModified, checked_at: checkedAt });
+      }
+      return [];
+    }),
+  };
+
+  return { db: db as any, rows };
+}
+
+function response(status: number, body = '', headers: Record<string, string> = {}): HttpResponse {
+  return { url: URL, status, ok: status >= 200 && status < 300, headers, body, metrics: {} as any };
+}
+
+describe('PageCache', () => {
+  let db: ReturnType<typeof stubDatabase>;
+  let client: { request: jest.Mock };
+  let cache: PageCache;
+
+  beforeEach(() => {
+    db = stubDatabase();
+    client = { request: jest.fn() };
+    cache = new PageCache(db.db, client as any, 24 * HOUR_MS);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function fetchAndParse(body: string, headers: Record<string, string> = {}, context?: string) {
+    client.request.mockResolvedValueOnce(response(200, body, headers));
+    const result = await cache.fetch(URL, { context });
+    await cache.markParsed(URL, 3);
+    return result;
+  }
+
+  it('returns the body of a page it has not seen and records it unparsed', async () => {
+    client.request.mockResolvedValueOnce(response(200, '<html>listing</html>', { etag: '"v1"' }));
+
+    const result = await cache.fetch(URL);
+
+    expect(result).toEqual({ changed: true, url: URL, body: '<html>listing</html>' });
+    expect(client.request.mock.calls[0][1].headers).toEqual({});
+    expect(await cache.get(URL)).toMatchObject({ etag: '"v1"', itemCount: null });
+  });
+
+  it('makes the fetch conditional once a parse is confirmed and skips the page on a 304', async () => {
+    await fetchAndParse('<html>listing</html>', { etag: '"v1"', 'last-modified': 'Thu, 01 Oct 2026 08:00:00 GMT' });
+    client.request.mockResolvedValueOnce(response(304));
+
+    const result = await cache.fetch(URL);
+
+    expect(client.request.mock.calls[1][1].headers).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Thu, 01 Oct 2026 08:00:00 GMT',
+    });
+    expect(result).toMatchObject({ changed: false, entry: { itemCount: 3 } });
+    expect((await cache.get(URL))!.etag).toBe('"v1"');
+  });
+
+  it('does not send validators for a page whose parse was never confirmed', async () => {
+    client.request.mockResolvedValueOnce(response(200, '<html>listing</html>', { etag: '"v1"' }));
+    await cache.fetch(URL);
+    client.request.mockResolvedValueOnce(response(200, '<html>listing</html>', { etag: '"v1"' }));
+
+    const result = await cache.fetch(URL);
+
+    expect(client.request.mock.calls[1][1].headers).toEqual({});
+    expect(result.changed).toBe(true);
+  });
+
+  it('skips a re-sent page whose extracted content hashes the same', async () => {
+    const extract = (body: string) => body.replace(/<footer>.*<\/footer>/, '');
+    client.request.mockResolvedValueOnce(response(200, '<main>a</main><footer>10:00</footer>'));
+    await cache.fetch(URL, { extract });
+    await cache.markParsed(URL, 3);
+
+    client.request.mockResolvedValueOnce(response(200, '<main>a</main><footer>11:00</footer>'));
+    expect(await cache.fetch(URL, { extract })).toMatchObject({ changed: false });
+
+    client.request.mockResolvedValueOnce(response(200, '<main>b</main><footer>12:00</footer>'));
+    expect(await cache.fetch(URL, { extract })).toMatchObject({ changed: true });
+  });
+
+  it('parses an unchanged page again when its context changed', async () => {
+    await fetchAndParse('<html>detail</html>', {}, 'deadline: 2026-12-01');
+    client.request.mockResolvedValueOnce(response(200, '<html>detail</html>'));
+
+    const result = await cache.fetch(URL, { context: 'deadline: 2027-01-15' });
+
+    expect(result.changed).toBe(true);
+    expect((await cache.get(URL))!.itemCount).toBeNull();
+  });
+
+  it('parses an unchanged page again once its parse is older than the maximum age', async () => {
+    await fetchAndParse('<html>detail</html>', { etag: '"v1"' });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * HOUR_MS);
+    client.request.mockResolvedValueOnce(response(200, '<html>detail</html>', { etag: '"v1"' }));
+
+    const result = await cache.fetch(URL);
+
+    expect(client.request.mock.calls[1][1].headers).toEqual({});
+    expect(result.changed).toBe(true);
+  });
+
+  it('throws on an error status, and on a 304 it did not ask for', async () => {
+    client.request.mockResolvedValueOnce(response(503));
+    await expect(cache.fetch(URL)).rejects.toThrow(`HTTP 503 fetching ${URL}`);
+
+    client.request.mockResolvedValueOnce(response(304));
+    await expect(cache.fetch(URL)).rejects.toThrow(`HTTP 304 fetching ${URL}`);
+  });
+
+  it('records the item count and parse time with markParsed', async () => {
+    client.request.mockResolvedValueOnce(response(200, '<html>listing</html>'));
+    await cache.fetch(URL);
+    const before = Date.now();
+
+    await cache.markParsed(URL, 12);
+
+    const entry = (await cache.get(URL))!;
+    expect(entry.itemCount).toBe(12);
+    expect(entry.parsedAt.getTime()).toBeGreaterThanOrEqual(before);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import puppeteer from 'puppeteer';
+import { HttpClient } from '../http-client';
+
+// The injected text is assembled by the script, so it never appears in the served HTML
+const PAGE = `<!DOCTYPE html>
+<html>
+  <head>
+    <link rel="stylesheet" href="/style.css">
+  </head>
+  <body>
+    <img src="/logo.png" alt="Logo">
+    <video src="/clip.mp4" autoplay muted preload="auto"></video>
+    <div id="listing"></div>
+    <script>
+      setTimeout(function () {
+        var item = document.createElement('p');
+        item.id = 'injected';
+        item.textContent = ['Nursing', 'Scholarship', 'Fund'].join(' ');
+        document.getElementById('listing').appendChild(item);
+      }, 50);
+    </script>
+  </body>
+</html>`;
+
+// The stylesheet is fetched in browser mode; the font it names is not
+const STYLESHEET = `@font-face { font-family: "Brand"; src: url("/brand.woff2") format("woff2"); }
+body { font-family: "Brand", sans-serif; }`;
+
+const INJECTED_TEXT = 'Nursing Scholarship Fund';
+
+/**
+ * Whether puppeteer's Chromium is installed. Decided before any test runs, so without it
+ * the browser-mode tests show as skipped; an installed Chromium that fails to start fails them.
+ */
+function chromiumInstalled(): boolean {
+  try {
+    return fs.existsSync(puppeteer.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+const itWithBrowser = chromiumInstalled() ? it : it.skip;
+
+describe('PageRenderer through HttpClient', () => {
+  let server: http.Server;
+  let url: string;
+  let client: HttpClient;
+  let requestedPaths: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      requestedPaths.push(request.url || '');
+      if (request.url === '/scholarships') {
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(PAGE);
+      } else if (request.url === '/style.css') {
+        response.writeHead(200, { 'Content-Type': 'text/css' });
+        response.end(STYLESHEET);
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/scholarships`;
+
+    client = new HttpClient();
+    client.setHostInterval('127.0.0.1', 0);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    requestedPaths = [];
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('does not see script-injected content in http mode', async () => {
+    const response = await client.request(url);
+
+    expect(response.status).toBe(200);
+    expect(response.metrics.rendered).toBe(false);
+    expect(response.body).toContain('<div id="listing"></div>');
+    expect(response.body).not.toContain(INJECTED_TEXT);
+  });
+
+  itWithBrowser('returns the DOM after scripts ran in browser mode', async () => {
+    const response = await client.request(url, { render: { waitForSelector: '#injected' }, maxRetries: 0 });
+
+    expect(response.status).toBe(200);
+    expect(response.metrics.rendered).toBe(true);
+    expect(response.body).toContain(`<p id="injected">${INJECTED_TEXT}</p>`);
+  }, 60000);
+
+  itWithBrowser('never downloads images, fonts or media in browser mode', async () => {
+    await client.request(url, { render: { waitForSelector: '#injected' }, maxRetries: 0 });
+
+    expect(requestedPaths).toContain('/scholarships');
+    expect(requestedPaths).toContain('/style.css');
+    expect(requestedPaths).not.toContain('/logo.png');
+    expect(requestedPaths).not.toContain('/brand.woff2');
+    expect(requestedPaths).not.toContain('/clip.mp4');
+  }, 60000);
+});
@@ -0,0 +1,57 @@
+import { EXTRACTOR_CONFIDENCE, FieldProvenanceMap, ProvenanceUtils } from '../provenance-utils';
+
+const { annotate, annotateValues } = ProvenanceUtils;
+
+describe('ProvenanceUtils.annotate', () => {
+  it('records the extractor with its baseline confidence for each field', () => {
+    const provenance = annotate({}, ['min_award', 'max_award'], 'listing_table');
+
+    expect(provenance).toEqual({
+      min_award: { extractor: 'listing_table', confidence: EXTRACTOR_CONFIDENCE.listing_table },
+      max_award: { extractor: 'listing_table', confidence: EXTRACTOR_CONFIDENCE.listing_table },
+    });
+  });
+
+  it('uses an explicit confidence over the baseline', () => {
+    expect(annotate({}, ['deadline'], 'llm', 0.8)).toEqual({ deadline: { extractor: 'llm', confidence: 0.8 } });
+  });
+
+  it('updates the map in place, letting a later extractor override a field', () => {
+    const provenance: FieldProvenanceMap = {};
+    annotate(provenance, ['deadline', 'description'], 'keyword_heuristic');
+
+    const returned = annotate(provenance, ['deadline'], 'detail_page');
+
+    expect(returned).toBe(provenance);
+    expect(provenance.deadline.extractor).toBe('detail_page');
+    expect(provenance.description.extractor).toBe('keyword_heuristic');
+  });
+});
+
+describe('ProvenanceUtils.annotateValues', () => {
+  it('annotates only the fields that have a value', () => {
+    const provenance = annotateValues({}, {
+      title: 'Future Nurses Scholarship',
+      description: '',
+      min_award: 0,
+      max_award: 5000,
+      deadline: null,
+      apply_url: undefined,
+      renewable: false,
+    }, 'detail_page');
+
+    expect(Object.keys(provenance)).toEqual(['title', 'max_award', 'renewable']);
+    expect(provenance.max_award).toEqual({ extractor: 'detail_page', confidence: EXTRACTOR_CONFIDENCE.detail_page });
+  });
+
+  it('leaves fields annotated earlier when a later extractor has no value for them', () => {
+    const provenance = annotate({}, ['max_award'], 'listing_table');
+
+    annotateValues(provenance, { max_award: 0, deadline: '2026-12-01' }, 'llm');
+
+    expect(provenance).toEqual({
+      max_award: { extractor: 'listing_table', confidence: EXTRACTOR_CONFIDENCE.listing_table },
+      deadline: { extractor: 'llm', confidence: EXTRACTOR_CONFIDENCE.llm },
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { ALLOW_ALL, DISALLOW_ALL, RobotsFetcher, RobotsTxtCache, RobotsUtils } from '../robots-txt';
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ScholarshipBot/1.0; +https://example.org/bot)';
+
+describe('RobotsUtils.parseRobotsTxt', () => {
+  it('groups consecutive User-agent lines and their rules', () => {
+    const robots = RobotsUtils.parseRobotsTxt([
+      '# Example robots.txt',
+      'User-agent: ScholarshipBot',
+      'User-agent: OtherBot',
+      'Disallow: /private # staff only',
+      'Allow: /private/public',
+      'Crawl-delay: 5',
+      '',
+      'User-agent: *',
+      'Disallow: /',
+      'Sitemap: https://example.org/sitemap.xml',
+    ].join('\n'));
+
+    expect(robots.groups).toEqual([
+      {
+        userAgents: ['scholarshipbot', 'otherbot'],
+        rules: [
+          { allow: false, pattern: '/private' },
+          { allow: true, pattern: '/private/public' },
+        ],
+        crawlDelaySeconds: 5,
+      },
+      { userAgents: ['*'], rules: [{ allow: false, pattern: '/' }], crawlDelaySeconds: null },
+    ]);
+  });
+
+  it('ignores rules before the first User-agent line and empty Disallow lines', () => {
+    const robots = RobotsUtils.parseRobotsTxt('Disallow: /orphan\r\nUser-agent: *\r\nDisallow:\r\nCrawl-delay: soon');
+    expect(robots.groups).toEqual([{ userAgents: ['*'], rules: [], crawlDelaySeconds: null }]);
+  });
+});
+
+describe('RobotsUtils.policyFor', () => {
+  const robots = RobotsUtils.parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /everyone',
+    'Crawl-delay: 1',
+    'User-agent: scholarshipbot',
+    'Disallow: /bots',
+    'Crawl-delay: 2',
+    'User-agent: ScholarshipBot',
+    'Crawl-delay: 10',
+  ].join('\n'));
+
+  it('merges every group naming the product token and ignores the * group', () => {
+    expect(RobotsUtils.policyFor(robots, USER_AGENT)).toEqual({
+      rules: [{ allow: false, pattern: '/bots' }],
+      crawlDelaySeconds: 10,
+    });
+  });
+
+  it('falls back to the * group for other crawlers', () => {
+    expect(RobotsUtils.policyFor(robots, 'OtherBot/2.0')).toEqual({
+      rules: [{ allow: false, pattern: '/everyone' }],
+      crawlDelaySeconds: 1,
+    });
+  });
+});
+
+describe('RobotsUtils.isPathAllowed', () => {
+  const policy = (...lines: string[]) =>
+    RobotsUtils.policyFor(RobotsUtils.parseRobotsTxt(['User-agent: *', ...lines].join('\n')), USER_AGENT);
+
+  it('allows everything when no rule matches', () => {
+    expect(RobotsUtils.isPathAllowed(ALLOW_ALL, '/anything')).toBe(true);
+    expect(RobotsUtils.isPathAllowed(policy('Disallow: /private'), '/public')).toBe(true);
+  });
+
+  it('matches rules as path prefixes', () => {
+    const rules = policy('Disallow: /private');
+    expect(RobotsUtils.isPathAllowed(rules, '/private')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/private/page.html')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/privately')).toBe(false);
+  });
+
+  it('matches * against any characters, including the query string', () => {
+    const rules = policy('Disallow: /*.pdf', 'Disallow: /search*sort=');
+    expect(RobotsUtils.isPathAllowed(rules, '/files/guide.pdf')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/files/guide.pdf.html')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/search?q=nursing&sort=deadline')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/search?q=nursing')).toBe(true);
+  });
+
+  it('anchors a trailing $ to the end of the path', () => {
+    const rules = policy('Disallow: /*.pdf$', 'Disallow: /exact$');
+    expect(RobotsUtils.isPathAllowed(rules, '/files/guide.pdf')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/files/guide.pdf?download=1')).toBe(true);
+    expect(RobotsUtils.isPathAllowed(rules, '/exact')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/exact/more')).toBe(true);
+  });
+
+  it('lets the longest matching rule win, Allow or Disallow', () => {
+    const rules = policy('Disallow: /scholarships', 'Allow: /scholarships/public', 'Disallow: /scholarships/public/drafts');
+    expect(RobotsUtils.isPathAllowed(rules, '/scholarships/private')).toBe(false);
+    expect(RobotsUtils.isPathAllowed(rules, '/scholarships/public/nursing')).toBe(true);
+    expect(RobotsUtils.isPathAllowed(rules, '/scholarships/public/drafts/1')).toBe(false);
+  });
+
+  it('prefers Allow when matching rules are equally long', () => {
+    const rules = policy('Disallow: /page', 'Allow: /page');
+    expect(RobotsUtils.isPathAllowed(rules, '/page')).toBe(true);
+  });
+
+  it('always allows /robots.txt', () => {
+    expect(RobotsUtils.isPathAllowed(DISALLOW_ALL, '/robots.txt')).toBe(true);
+  });
+});
+
+describe('RobotsTxtCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function cacheWith(fetcher: RobotsFetcher): { cache: RobotsTxtCache; fetcher: jest.Mock } {
+    const mock = jest.fn(fetcher);
+    return { cache: new RobotsTxtCache(mock, USER_AGENT), fetcher: mock };
+  }
+
+  it('applies the fetched rules and caches them per origin', async () => {
+    const { cache, fetcher } = cacheWith(async () => ({ status: 200, body: 'User-agent: *\nDisallow: /private' }));
+
+    expect(await cache.isAllowed('https://example.org/private/page')).toBe(false);
+    expect(await cache.isAllowed('https://example.org/public')).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher).toHaveBeenCalledWith('https://example.org/robots.txt');
+
+    await cache.isAllowed('https://other.example.org/');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one fetch between concurrent requests to an origin', async () => {
+    const { cache, fetcher } = cacheWith(async () => ({ status: 200, body: '' }));
+    await Promise.all([cache.isAllowed('https://example.org/a'), cache.isAllowed('https://example.org/b')]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('allows everything when robots.txt is missing (404)', async () => {
+    const { cache } = cacheWith(async () => ({ status: 404, body: 'Not found' }));
+    expect(await cache.policyFor('https://example.org/')).toBe(ALLOW_ALL);
+    expect(await cache.isAllowed('https://example.org/anything')).toBe(true);
+  });
+
+  it('disallows everything on a server error (5xx) and tries again after ten minutes', async () => {
+    const { cache, fetcher } = cacheWith(async () => ({ status: 503, body: 'Unavailable' }));
+    expect(await cache.isAllowed('https://example.org/page')).toBe(false);
+
+    now += 9 * 60 * 1000;
+    await cache.isAllowed('https://example.org/page');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    now += 2 * 60 * 1000;
+    await cache.isAllowed('https://example.org/page');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats rate limiting (429) as unreachable rather than missing', async () => {
+    const { cache, fetcher } = cacheWith(async () => ({ status: 429, body: 'Too Many Requests' }));
+    expect(await cache.policyFor('https://example.org/')).toBe(DISALLOW_ALL);
+
+    fetcher.mockImplementation(async () => ({ status: 200, body: 'User-agent: *\nAllow: /' }));
+    now += 11 * 60 * 1000;
+    expect(await cache.isAllowed('https://example.org/page')).toBe(true);
+  });
+
+  it('disallows everything when the fetch times out, until the retry succeeds', async () => {
+    const { cache, fetcher } = cacheWith(async () => {
+      throw new Error('timeout of 30000ms exceeded');
+    });
+    expect(await cache.policyFor('https://example.org/')).toBe(DISALLOW_ALL);
+
+    fetcher.mockImplementation(async () => ({ status: 200, body: 'User-agent: *\nAllow: /' }));
+    now += 11 * 60 * 1000;
+    expect(await cache.isAllowed('https://example.org/page')).toBe(true);
+  });
+
+  it('keeps a fetched robots.txt for a day', async () => {
+    const { cache, fetcher } = cacheWith(async () => ({ status: 200, body: '' }));
+    await cache.isAllowed('https://example.org/');
+
+    now += 23 * 60 * 60 * 1000;
+    await cache.isAllowed('https://example.org/');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    now += 2 * 60 * 60 * 1000;
+    await cache.isAllowed('https://example.org/');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,138 @@
+import { ExpectedColumn, SCHOLARSHIP_COLUMN_TYPES, SchemaDriftUtils } from '../schema-drift';
+import { SCHOLARSHIP_FIELD_MAPPING } from '../mysql-config';
+
+const { compareScholarshipSchema, formatDrift } = SchemaDriftUtils;
+
+interface Column {
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  COLUMN_TYPE: string;
+}
+
+const COLUMN_TYPES: Record<ExpectedColumn['kind'], [string, string]> = {
+  integer: ['int', 'int'],
+  decimal: ['decimal', 'decimal(10,2)'],
+  string: ['varchar', 'varchar(255)'],
+  boolean: ['tinyint', 'tinyint(1)'],
+  date: ['date', 'date'],
+  datetime: ['timestamp', 'timestamp'],
+  enum: ['enum', ''],
+  set: ['set', ''],
+  json: ['json', 'json'],
+};
+
+function column(name: string, dataType: string, columnType: string): Column {
+  return { COLUMN_NAME: name, DATA_TYPE: dataType, COLUMN_TYPE: columnType };
+}
+
+function valueList(kind: string, values: readonly string[]): string {
+  return `${kind}(${values.map(value => `'${value}'`).join(',')})`;
+}
+
+// INFORMATION_SCHEMA rows for a scholarships table that matches the code exactly
+function matchingColumns(): Column[] {
+  return Object.entries(SCHOLARSHIP_COLUMN_TYPES).map(([field, expected]) => {
+    const [dataType, columnType] = COLUMN_TYPES[expected.kind];
+    return column(
+      SCHOLARSHIP_FIELD_MAPPING[field],
+      dataType,
+      expected.values ? valueList(expected.kind, expected.values) : columnType
+    );
+  });
+}
+
+function withColumn(columns: Column[], name: string, dataType: string, columnType: string): Column[] {
+  return columns.map(live => live.COLUMN_NAME === name ? column(name, dataType, columnType) : live);
+}
+
+describe('SchemaDriftUtils.compareScholarshipSchema', () => {
+  it('finds no drift when the table matches the code', () => {
+    expect(compareScholarshipSchema(matchingColumns())).toEqual([]);
+  });
+
+  it('reports a column the code expects but the table lacks', () => {
+    const columns = matchingColumns().filter(live => live.COLUMN_NAME !== 'job_id');
+
+    expect(compareScholarshipSchema(columns)).toEqual([
+      { kind: 'missing_column', field: 'jobId', column: 'job_id', expected: 'string', actual: null },
+    ]);
+  });
+
+  it('reports a column the table has but no field maps to', () => {
+    const columns = [...matchingColumns(), column('legacy_notes', 'text', 'text')];
+
+    expect(compareScholarshipSchema(columns)).toEqual([
+      { kind: 'extra_column', field: null, column: 'legacy_notes', expected: null, actual: 'text' },
+    ]);
+  });
+
+  it.each([
+    ['a string stored as a number', 'name', 'int', 'int', 'string'],
+    ['a boolean wider than TINYINT(1)', 'is_active', 'tinyint', 'tinyint(4)', 'boolean'],
+    ['a date stored with a time', 'deadline', 'datetime', 'datetime', 'date'],
+    ['an unrecognized type', 'min_award', 'blob', 'blob', 'decimal'],
+  ])('reports %s as the wrong type', (_description, name, dataType, columnType, expected) => {
+    const drift = compareScholarshipSchema(withColumn(matchingColumns(), name, dataType, columnType));
+
+    expect(drift).toEqual([expect.objectContaining({ kind: 'wrong_type', column: name, expected, actual: columnType })]);
+  });
+
+  it('accepts TINYINT(1) as a boolean and any text column as a string', () => {
+    let columns = withColumn(matchingColumns(), 'description', 'mediumtext', 'mediumtext');
+    columns = withColumn(columns, 'renewable', 'tinyint', 'tinyint(1) unsigned');
+
+    expect(compareScholarshipSchema(columns)).toEqual([]);
+  });
+
+  describe('ENUM and SET value lists', () => {
+    it('accepts the same values in another order', () => {
+      const columns = withColumn(matchingColumns(), 'target_type', 'enum', "enum('both','merit','need')");
+
+      expect(compareScholarshipSchema(columns)).toEqual([]);
+    });
+
+    it.each([
+      ['a value the code writes is missing', "enum('need','merit')"],
+      ['the table allows a value the code does not know', "enum('need','merit','both','other')"],
+      ['a value is spelled differently', "enum('need','merit','Both')"],
+    ])('reports a mismatch when %s', (_description, columnType) => {
+      const drift = compareScholarshipSchema(withColumn(matchingColumns(), 'target_type', 'enum', columnType));
+
+      expect(drift).toEqual([{
+        kind: 'wrong_type',
+        field: 'targetType',
+        column: 'target_type',
+        expected: 'enum(need, merit, both)',
+        actual: columnType,
+      }]);
+    });
+
+    it('reports an ENUM where the code expects a SET even with the same values', () => {
+      const expected = SCHOLARSHIP_COLUMN_TYPES.citizenship.values!;
+      const drift = compareScholarshipSchema(withColumn(matchingColumns(), 'citizenship', 'enum', valueList('enum', expected)));
+
+      expect(drift).toEqual([expect.objectContaining({ kind: 'wrong_type', column: 'citizenship' })]);
+    });
+
+    it('reads a quoted value containing a comma as one value', () => {
+      // Split on commas, this would read as need, merit, both
+      const drift = compareScholarshipSchema(withColumn(matchingColumns(), 'target_type', 'enum', "enum('need','merit,both')"));
+
+      expect(drift).toEqual([expect.objectContaining({ kind: 'wrong_type', column: 'target_type' })]);
+    });
+  });
+});
+
+describe('SchemaDriftUtils.formatDrift', () => {
+  it('marks missing columns with -, extra ones with + and mismatches with ~', () => {
+    let columns = matchingColumns().filter(live => live.COLUMN_NAME !== 'job_id');
+    columns = withColumn(columns, 'target_type', 'enum', "enum('need','merit')");
+    columns = [...columns, column('legacy_notes', 'text', 'text')];
+
+    expect(formatDrift(compareScholarshipSchema(columns)).split('\n')).toEqual([
+      "~ target_type (targetType): expected enum(need, merit, both), database has enum('need','merit')",
+      '- job_id (jobId): column missing from database, expected string',
+      '+ legacy_notes text: column not mapped to any field',
+    ]);
+  });
+});
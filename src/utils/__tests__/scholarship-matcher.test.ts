@@ -0,0 +1,210 @@
+import { MatchReason, ScholarshipMatcher, StudentProfile } from '../scholarship-matcher';
+
+const REFERENCE = new Date('2026-10-18T12:00:00');
+
+interface Fixture {
+  row: Record<string, any>;
+  academicLevels?: string[];
+  residencyStates?: string[];
+  fieldsOfStudy?: string[];
+  testScores?: Array<{ test: string; minScore: number | null }>;
+}
+
+function scholarship(scholarshipId: number, overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    scholarship_id: scholarshipId,
+    name: `Scholarship ${scholarshipId}`,
+    url: `https://example.org/${scholarshipId}`,
+    apply_url: null,
+    deadline: null,
+    deadline_type: 'rolling',
+    min_award: null,
+    max_award: null,
+    award_varies: 0,
+    award_currency: 'USD',
+    min_gpa: null,
+    citizenship: '',
+    enrollment_status: '',
+    first_generation: 0,
+    military_affiliation: '',
+    disability: 0,
+    gender: 'unspecified',
+    ethnicity: 'unspecified',
+    target_type: 'both',
+    ...overrides,
+  };
+}
+
+/**
+ * A matcher over a database stub that answers the scholarships query and the
+ * child-table queries from the fixtures
+ */
+function matcherFor(...fixtures: Fixture[]): ScholarshipMatcher {
+  const childRows = (read: (fixture: Fixture) => Record<string, any>[]) => fixtures.flatMap(read);
+
+  const db = {
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('FROM scholarship_academic_levels')) {
+        return childRows(({ row, academicLevels = [] }) =>
+          academicLevels.map(level => ({ scholarship_id: row.scholarship_id, academic_level: level })));
+      }
+      if (sql.includes('FROM scholarship_residency_states')) {
+        return childRows(({ row, residencyStates = [] }) =>
+          residencyStates.map(state => ({ scholarship_id: row.scholarship_id, state_code: state })));
+      }
+      if (sql.includes('FROM scholarship_fields_of_study')) {
+        return childRows(({ row, fieldsOfStudy = [] }) =>
+          fieldsOfStudy.map(field => ({ scholarship_id: row.scholarship_id, field_of_study: field })));
+      }
+      if (sql.includes('FROM scholarship_test_scores')) {
+        return childRows(({ row, testScores = [] }) =>
+          testScores.map(score => ({ scholarship_id: row.scholarship_id, test: score.test, min_score: score.minScore })));
+      }
+      return fixtures.map(fixture => fixture.row);
+    }),
+  };
+
+  return new ScholarshipMatcher(db as any);
+}
+
+function outcomes(reasons: MatchReason[]): Record<string, string> {
+  return Object.fromEntries(reasons.map(reason => [reason.criterion, `${reason.kind}:${reason.outcome}`]));
+}
+
+async function evaluate(fixture: Fixture, profile: StudentProfile) {
+  const [match] = await matcherFor(fixture).match(profile, { includeExcluded: true, reference: REFERENCE });
+  return match;
+}
+
+describe('ScholarshipMatcher hard constraints', () => {
+  const restricted: Fixture = {
+    row: scholarship(1, { min_gpa: '3.00', citizenship: 'us_citizen,permanent_resident', first_generation: 1 }),
+    residencyStates: ['OH'],
+    academicLevels: ['undergraduate_junior'],
+  };
+
+  it('reports each stated restriction as met, failed or unknown', async () => {
+    const match = await evaluate(restricted, { state: 'Ohio', gpa: 2.5, citizenship: 'us_citizen' });
+
+    expect(outcomes(match.reasons)).toEqual({
+      residency: 'hard:met',
+      gpa: 'hard:failed',
+      citizenship: 'hard:met',
+      academic_level: 'hard:unknown',
+      first_generation: 'hard:unknown',
+    });
+    expect(match.eligible).toBe(false);
+  });
+
+  it('keeps a scholarship whose restrictions the profile has no answer for', async () => {
+    const match = await evaluate(restricted, {});
+
+    expect(Object.values(outcomes(match.reasons))).toEqual(Array(5).fill('hard:unknown'));
+    expect(match.eligible).toBe(true);
+    expect(match.score).toBe(0);
+  });
+
+  it.each([
+    ['residency', { state: 'tx' }, { residencyStates: ['TX'] }, 'met'],
+    ['residency', { state: 'Texas' }, { residencyStates: ['OH', 'PA'] }, 'failed'],
+    ['academic_level', { academicLevel: 'College Junior' }, { academicLevels: ['undergraduate_junior'] }, 'met'],
+    ['academic_level', { academicLevel: 'high school senior' }, { academicLevels: ['undergraduate_junior'] }, 'failed'],
+    ['enrollment_status', { enrollmentStatus: 'part_time' }, { row: { enrollment_status: 'full_time' } }, 'failed'],
+    ['military', { militaryAffiliation: ['veteran'] }, { row: { military_affiliation: 'veteran,military_family' } }, 'met'],
+    ['military', { militaryAffiliation: [] }, { row: { military_affiliation: 'veteran' } }, 'failed'],
+    ['disability', { disability: false }, { row: { disability: 1 } }, 'failed'],
+    ['gender', { gender: 'Female' }, { row: { gender: 'female' } }, 'met'],
+    ['gender', { gender: 'male' }, { row: { gender: 'female' } }, 'failed'],
+    // Listed tests are alternatives: meeting any one of them is enough
+    ['test_scores', { testScores: { ACT: 27 } }, { testScores: [{ test: 'SAT', minScore: 1200 }, { test: 'ACT', minScore: 25 }] }, 'met'],
+    ['test_scores', { testScores: { SAT: 1100 } }, { testScores: [{ test: 'SAT', minScore: 1200 }] }, 'failed'],
+    ['test_scores', { testScores: { SAT: 1100 } }, { testScores: [{ test: 'ACT', minScore: 25 }] }, 'unknown'],
+  ] as const)('reads %s for %j against %j as %s', async (criterion, profile, fixture, outcome) => {
+    const { row = {}, ...children } = fixture as Partial<Fixture>;
+
+    const match = await evaluate({ row: scholarship(1, row), ...children }, profile as StudentProfile);
+
+    expect(outcomes(match.reasons)[criterion]).toBe(`hard:${outcome}`);
+    expect(match.eligible).toBe(outcome !== 'failed');
+  });
+
+  it('skips restrictions the scholarship does not state', async () => {
+    const match = await evaluate({ row: scholarship(1), testScores: [{ test: 'GRE', minScore: null }] }, { gpa: 2.0, state: 'OH' });
+
+    expect(match.reasons).toEqual([]);
+    expect(match.eligible).toBe(true);
+  });
+});
+
+describe('ScholarshipMatcher soft preferences', () => {
+  it('lowers the score for a failed soft preference without excluding the scholarship', async () => {
+    const match = await evaluate(
+      { row: scholarship(1, { ethnicity: 'hispanic' }), fieldsOfStudy: ['nursing'] },
+      { majors: ['computer_science'], ethnicity: 'Asian' }
+    );
+
+    expect(outcomes(match.reasons)).toEqual({ field_of_study: 'soft:failed', ethnicity: 'soft:failed' });
+    expect(match.eligible).toBe(true);
+    expect(match.score).toBe(-25);
+  });
+
+  it('raises the score for matching majors, need and a close deadline, and counts met restrictions', async () => {
+    const match = await evaluate(
+      {
+        row: scholarship(1, { target_type: 'need', deadline: '2026-11-01', deadline_type: 'fixed', min_gpa: '3.00' }),
+        fieldsOfStudy: ['nursing', 'health_sciences'],
+      },
+      { majors: ['Nursing'], financialNeed: true, gpa: 3.5 }
+    );
+
+    expect(outcomes(match.reasons)).toEqual({
+      gpa: 'hard:met',
+      field_of_study: 'soft:met',
+      financial_need: 'soft:met',
+      deadline: 'soft:met',
+    });
+    expect(match.score).toBe(5 + 20 + 10 + 5);
+    expect(match.deadline).toBe('2026-11-01');
+  });
+
+  it('scores larger awards higher, up to the ceiling', async () => {
+    const points = async (row: Record<string, any>) =>
+      (await evaluate({ row: scholarship(1, row) }, {})).reasons.find(reason => reason.criterion === 'award')?.points;
+
+    expect(await points({ max_award: '500.00' })).toBeLessThan(await points({ max_award: '5000.00' }) as number);
+    expect(await points({ max_award: '50000.00' })).toBe(20);
+    expect(await points({ max_award: '250000.00' })).toBe(20);
+    expect(await points({ min_award: '1000.00' })).toBeGreaterThan(0);
+    expect(await points({ max_award: '0.00' })).toBeUndefined();
+  });
+});
+
+describe('ScholarshipMatcher.match', () => {
+  const fixtures: Fixture[] = [
+    { row: scholarship(1, { max_award: '1000.00' }) },
+    { row: scholarship(2, { max_award: '1000.00', deadline: '2027-03-01', deadline_type: 'fixed' }) },
+    { row: scholarship(3, { max_award: '20000.00' }) },
+    { row: scholarship(4, { max_award: '50000.00', min_gpa: '3.80' }) },
+    { row: scholarship(5, { max_award: '1000.00', deadline: '2027-02-01', deadline_type: 'fixed' }) },
+  ];
+
+  it('ranks eligible scholarships by score, then by the earliest deadline, leaving out excluded ones', async () => {
+    const matches = await matcherFor(...fixtures).match({ gpa: 3.2 }, { reference: REFERENCE });
+
+    expect(matches.map(match => match.scholarshipId)).toEqual([3, 5, 2, 1]);
+  });
+
+  it('ranks excluded scholarships after every eligible one when asked for them', async () => {
+    const matches = await matcherFor(...fixtures).match({ gpa: 3.2 }, { reference: REFERENCE, includeExcluded: true });
+
+    expect(matches.map(match => [match.scholarshipId, match.eligible])).toEqual([
+      [3, true], [5, true], [2, true], [1, true], [4, false],
+    ]);
+  });
+
+  it('returns at most the limit', async () => {
+    const matches = await matcherFor(...fixtures).match({}, { reference: REFERENCE, limit: 2 });
+
+    expect(matches.map(match => match.scholarshipId)).toEqual([4, 3]);
+  });
+});
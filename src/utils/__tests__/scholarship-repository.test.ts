@@ -0,0 +1,153 @@
+import { MySQLDatabase } from '../mysql-config';
+import { ScholarshipRepository, NewScholarship } from '../scholarship-repository';
+
+function scholarship(fingerprint: string, overrides: Partial<NewScholarship> = {}): NewScholarship {
+  return {
+    fingerprint,
+    name: `Scholarship ${fingerprint}`,
+    deadline: '2026-12-01',
+    deadlineType: 'fixed',
+    deadlineText: 'December 1, 2026',
+    url: `https://example.org/${fingerprint}`,
+    description: 'Filled in by a secondary source',
+    eligibility: '',
+    organization: 'Example Foundation',
+    academicLevel: null,
+    geographicRestrictions: '',
+    targetType: 'both',
+    ethnicity: 'unspecified',
+    gender: 'unspecified',
+    minAward: 1000,
+    maxAward: 1000,
+    awardVaries: false,
+    awardCurrency: 'USD',
+    awardPeriod: 'one_time',
+    nonMonetaryAwards: '',
+    minGpa: null,
+    citizenship: '',
+    enrollmentStatus: '',
+    firstGeneration: false,
+    militaryAffiliation: '',
+    disability: false,
+    renewable: false,
+    country: 'US',
+    applyUrl: '',
+    isActive: true,
+    essayRequired: false,
+    recommendationsRequired: false,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    source: 'CareerOneStopScraper',
+    jobId: 'job-1',
+    ...overrides,
+  };
+}
+
+describe('ScholarshipRepository.bulkUpsert', () => {
+  let db: MySQLDatabase;
+  let statements: string[];
+  let transaction: jest.SpyInstance;
+
+  beforeEach(() => {
+    // The pool only connects on first use, and every statement goes through the stubbed transaction
+    db = new MySQLDatabase({ host: 'localhost', port: 3306, user: 'test', password: 'test', database: 'test' });
+    statements = [];
+    const connection = {
+      execute: jest.fn(async (sql: string) => {
+        statements.push(sql.replace(/\s+/g, ' ').trim());
+        if (sql.trim().startsWith('SELECT')) {
+          return [[{ scholarship_id: 1, fingerprint: 'existing' }, { scholarship_id: 2, fingerprint: 'new' }]];
+        }
+        return [{ affectedRows: 1 }];
+      }),
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    transaction = jest.spyOn(db, 'transaction').mockImplementation(async callback => callback(connection as any));
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  function updateClause(): string {
+    const insert = statements.find(sql => sql.startsWith('INSERT INTO scholarships'));
+    return insert!.split('ON DUPLICATE KEY UPDATE ')[1];
+  }
+
+  function lockConflict(code: string): Error {
+    return Object.assign(new Error(`${code}: try restarting transaction`), { code });
+  }
+
+  it('overwrites only the given fields on existing scholarships', async () => {
+    const results = await new ScholarshipRepository(db).bulkUpsert(
+      [scholarship('existing', { deadline: '2027-01-15' })],
+      { updateFields: ['deadline', 'updatedAt', 'jobId'], existingFingerprints: ['existing'] }
+    );
+
+    expect(results).toEqual([{ fingerprint: 'existing', scholarshipId: 1, outcome: 'updated', error: undefined }]);
+    expect(updateClause()).toBe('deadline = VALUES(deadline), updated_at = VALUES(updated_at), job_id = VALUES(job_id)');
+    expect(updateClause()).not.toContain('description');
+  });
+
+  it('overwrites every mutable field when no fields are given', async () => {
+    await new ScholarshipRepository(db).bulkUpsert([scholarship('existing'), scholarship('new')]);
+
+    expect(updateClause()).toContain('description = VALUES(description)');
+    expect(updateClause()).not.toContain('fingerprint');
+    expect(updateClause()).not.toContain('created_at');
+  });
+
+  it('rejects update fields the scholarships do not carry', async () => {
+    await expect(
+      new ScholarshipRepository(db).bulkUpsert([scholarship('existing', { description: undefined })], { updateFields: ['description'] })
+    ).rejects.toThrow('description');
+  });
+
+  it('tells inserted from updated scholarships by the fingerprints known to be stored, without a locking read', async () => {
+    const results = await new ScholarshipRepository(db).bulkUpsert(
+      [scholarship('existing'), scholarship('new'), scholarship('new')],
+      { existingFingerprints: ['existing'] }
+    );
+
+    expect(results.map(({ fingerprint, scholarshipId, outcome }) => ({ fingerprint, scholarshipId, outcome }))).toEqual([
+      { fingerprint: 'existing', scholarshipId: 1, outcome: 'updated' },
+      { fingerprint: 'new', scholarshipId: 2, outcome: 'inserted' },
+      // A repeat within the same write updates the row its first occurrence inserted
+      { fingerprint: 'new', scholarshipId: 2, outcome: 'updated' },
+    ]);
+    expect(statements.some(sql => sql.includes('FOR UPDATE'))).toBe(false);
+  });
+
+  it('retries a chunk that deadlocks with another writer', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const write = transaction.getMockImplementation()!;
+    transaction
+      .mockImplementationOnce(async () => { throw lockConflict('ER_LOCK_DEADLOCK'); })
+      .mockImplementationOnce(async () => { throw lockConflict('ER_LOCK_WAIT_TIMEOUT'); })
+      .mockImplementation(write);
+
+    const results = await new ScholarshipRepository(db).bulkUpsert([scholarship('new')]);
+
+    expect(transaction).toHaveBeenCalledTimes(3);
+    expect(results[0]).toMatchObject({ scholarshipId: 2, outcome: 'inserted' });
+  });
+
+  it('reports a chunk as failed once its retries are used up, or at once for other errors', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    transaction.mockImplementation(async () => { throw lockConflict('ER_LOCK_DEADLOCK'); });
+
+    const deadlocked = await new ScholarshipRepository(db).bulkUpsert([scholarship('new')]);
+
+    expect(transaction).toHaveBeenCalledTimes(3);
+    expect(deadlocked[0]).toMatchObject({ scholarshipId: null, outcome: 'failed', error: 'ER_LOCK_DEADLOCK: try restarting transaction' });
+
+    transaction.mockClear().mockImplementation(async () => { throw new Error('Data too long for column name'); });
+
+    const rejected = await new ScholarshipRepository(db).bulkUpsert([scholarship('new')]);
+
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(rejected[0]).toMatchObject({ outcome: 'failed', error: 'Data too long for column name' });
+  });
+});
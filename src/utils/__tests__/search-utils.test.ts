@@ -0,0 +1,93 @@
+import { SearchUtils } from '../search-utils';
+
+const { searchTerms, toBooleanQuery, buildSnippet, matchExpression } = SearchUtils;
+
+describe('SearchUtils.toBooleanQuery', () => {
+  it.each([
+    ['nursing Ohio', '+nursing* +ohio*'],
+    ['Nursing NURSING nursing', '+nursing*'],
+    // InnoDB stopwords and words under the minimum token size are not indexed
+    ['the scholarship for nurses in a rural area', '+scholarship* +nurses* +rural* +area*'],
+    ['AI or ML at MIT', '+mit*'],
+    // Boolean-mode operators in the input are dropped rather than passed through
+    ['+nursing -ohio', '+nursing* +ohio*'],
+    ['<engineering> (math) ~art* "phd"', '+engineering* +math* +art* +phd*'],
+    ['nursing" IN BOOLEAN MODE) OR 1=1 --', '+nursing* +boolean* +mode*'],
+    // A word with an apostrophe is searched as a phrase
+    ["women's engineering", '+"women\'s" +engineering*'],
+    ["'quoted' words", '+quoted* +words*'],
+    ['Educación bilingüe', '+educación* +bilingüe*'],
+  ])('turns %j into %j', (text, expected) => {
+    expect(toBooleanQuery(text)).toBe(expected);
+  });
+
+  it.each([
+    ['the of for in to'],
+    ['+ - < > ( ) ~ * "'],
+    ['+"" -() **'],
+    ['a is it'],
+    [''],
+    [null],
+    [undefined],
+  ])('returns null when %j leaves nothing to search for', text => {
+    expect(toBooleanQuery(text)).toBeNull();
+    expect(searchTerms(text)).toEqual([]);
+  });
+});
+
+describe('SearchUtils.buildSnippet', () => {
+  it('highlights every term as a word prefix', () => {
+    expect(buildSnippet('Nurses and nursing students in Ohio', 'nurs ohio')).toBe(
+      '<mark>Nurses</mark> and <mark>nursing</mark> students in <mark>Ohio</mark>'
+    );
+  });
+
+  it('does not highlight a term in the middle of a word', () => {
+    expect(buildSnippet('Idahohio residents only', 'ohio')).toBeNull();
+    expect(buildSnippet('Residents of Idahohio or Ohio', 'ohio')).toBe('Residents of Idahohio or <mark>Ohio</mark>');
+  });
+
+  it('escapes the surrounding text and the match, so only the highlight tags are HTML', () => {
+    expect(buildSnippet('Tom & Jerry <b>nursing</b> "award"', 'nursing')).toBe(
+      'Tom &amp; Jerry &lt;b&gt;<mark>nursing</mark>&lt;/b&gt; &quot;award&quot;'
+    );
+    expect(buildSnippet('<script>alert(1)</script> nursing', 'nursing')).toBe(
+      '&lt;script&gt;alert(1)&lt;/script&gt; <mark>nursing</mark>'
+    );
+  });
+
+  it('collapses whitespace and uses the given highlight tags', () => {
+    expect(buildSnippet('  For\n\nnursing\tstudents ', 'nursing', { highlightStart: '[', highlightEnd: ']' })).toBe(
+      'For [nursing] students'
+    );
+  });
+
+  it('cuts a window around the first match without splitting words', () => {
+    const text = `${'lorem '.repeat(30)}nursing ${'ipsum '.repeat(30)}`;
+
+    const snippet = buildSnippet(text, 'nursing', { length: 60 })!;
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>nursing</mark>');
+    expect(snippet.length).toBeLessThanOrEqual(60 + '<mark></mark>'.length + 2);
+    expect(snippet.slice(1, -1).split(' ').every(word => ['lorem', 'ipsum', '<mark>nursing</mark>'].includes(word))).toBe(true);
+  });
+
+  it.each([
+    ['no term occurs in the text', 'Engineering scholarship', 'nursing'],
+    ['the query is only stopwords', 'The award for the best essay', 'the for'],
+    ['the query is only operators', 'Award (+bonus) -- "best" essay', '+ - ( ) " ~ * < >'],
+    ['there is no text', null, 'nursing'],
+    ['the text is blank', '   ', 'nursing'],
+  ])('returns null when %s', (_description, text, query) => {
+    expect(buildSnippet(text, query)).toBeNull();
+  });
+});
+
+describe('SearchUtils.matchExpression', () => {
+  it('lists the FULLTEXT index columns, optionally qualified', () => {
+    expect(matchExpression()).toBe('MATCH(name, description, eligibility)');
+    expect(matchExpression('s')).toBe('MATCH(s.name, s.description, s.eligibility)');
+  });
+});
@@ -0,0 +1,183 @@
+// Order matches the scholarship_academic_levels ENUM column
+export const ACADEMIC_LEVELS = [
+  'high_school_freshman',
+  'high_school_sophomore',
+  'high_school_junior',
+  'high_school_senior',
+  'community_college',
+  'undergraduate_freshman',
+  'undergraduate_sophomore',
+  'undergraduate_junior',
+  'undergraduate_senior',
+  'masters',
+  'doctoral',
+  'professional',
+  'vocational',
+] as const;
+
+export type AcademicLevel = typeof ACADEMIC_LEVELS[number];
+
+const HIGH_SCHOOL_YEARS: AcademicLevel[] = [
+  'high_school_freshman',
+  'high_school_sophomore',
+  'high_school_junior',
+  'high_school_senior',
+];
+
+const UNDERGRADUATE_YEARS: AcademicLevel[] = [
+  'undergraduate_freshman',
+  'undergraduate_sophomore',
+  'undergraduate_junior',
+  'undergraduate_senior',
+];
+
+// Year words that refer to graduate or professional study rather than college years
+const NOT_UNDERGRADUATE_STUDY = '(?!\\s+(?:of\\s+)?(?:graduate|grad|law|medical|doctoral|master|phd|ph\\.d))';
+
+// Text about high school students only, where year words mean high school years
+const HIGH_SCHOOL_ONLY = /^(?=.*\bhigh school\b)(?!.*\b(college|university|undergrad))/i;
+
+type LevelRule = { levels: AcademicLevel[]; pattern: RegExp; unless?: RegExp };
+
+/**
+ * A rule for one year of high school: "high school junior", "11th grade", or the year
+ * word alone in text about high school students only ("Junior or senior in high school")
+ */
+function highSchoolYearRule(level: AcademicLevel, year: string, grade: string): LevelRule {
+  return {
+    levels: [level],
+    pattern: new RegExp(`\\bhigh school (${year})\\b|\\b(${grade})\\b|${HIGH_SCHOOL_ONLY.source}.*\\b(${year})\\b`, 'i'),
+  };
+}
+
+const HIGH_SCHOOL_YEAR_RULES: LevelRule[] = [
+  highSchoolYearRule('high_school_freshman', 'freshm[ae]n', '9th grade|ninth grade|grade 9'),
+  highSchoolYearRule('high_school_sophomore', 'sophomores?', '10th grade|tenth grade|grade 10'),
+  highSchoolYearRule('high_school_junior', 'juniors?', '11th grade|eleventh grade|grade 11'),
+  highSchoolYearRule('high_school_senior', 'seniors?', '12th grade|twelfth grade|grade 12'),
+];
+
+// College years; "first-year graduate students" and the like are not undergraduates
+const UNDERGRADUATE_YEAR_RULES: LevelRule[] = [
+  {
+    // Not "high school freshman"
+    levels: ['undergraduate_freshman'],
+    pattern: new RegExp(`(?<!high school )\\b(freshm[ae]n|first[- ]year)\\b${NOT_UNDERGRADUATE_STUDY}`, 'i'),
+    unless: HIGH_SCHOOL_ONLY,
+  },
+  {
+    levels: ['undergraduate_sophomore'],
+    pattern: new RegExp(`(?<!high school )\\b(sophomores?|second[- ]year)\\b${NOT_UNDERGRADUATE_STUDY}`, 'i'),
+    unless: HIGH_SCHOOL_ONLY,
+  },
+  {
+    // Not "high school junior", "junior high" or "junior college"
+    levels: ['undergraduate_junior'],
+    pattern: new RegExp(`(?<!high school )\\b(juniors?|third[- ]year)\\b(?!\\s+(high|colleges?)\\b)${NOT_UNDERGRADUATE_STUDY}`, 'i'),
+    unless: HIGH_SCHOOL_ONLY,
+  },
+  {
+    // Not "high school senior", "graduating senior" (usually high school) or "senior citizen"
+    levels: ['undergraduate_senior'],
+    pattern: new RegExp(`(?<!high school )(?<!graduating )\\b(seniors?|fourth[- ]year|fifth[- ]year)\\b(?!\\s+(in high school|citizens?|high)\\b)${NOT_UNDERGRADUATE_STUDY}`, 'i'),
+    unless: HIGH_SCHOOL_ONLY,
+  },
+];
+
+// Matches text naming one of the rules' years, which then stands in for the whole stage
+function anyOf(rules: LevelRule[]): RegExp {
+  return new RegExp(rules.map(rule => `(?:${rule.pattern.source})`).join('|'), 'i');
+}
+
+// Every pattern is anchored on word boundaries (or an explicit non-letter lookahead for
+// abbreviations ending in a period), so "ms" inside "programs" or "grad" inside
+// "undergraduate" never match. A stage named without a year ("High School",
+// "Undergraduate") covers all its years; one named with a year covers only that year.
+const LEVEL_RULES: LevelRule[] = [
+  {
+    levels: HIGH_SCHOOL_YEARS,
+    pattern: /\b(high school|secondary school)\b/i,
+    unless: anyOf(HIGH_SCHOOL_YEAR_RULES),
+  },
+  ...HIGH_SCHOOL_YEAR_RULES,
+  {
+    levels: ['community_college'],
+    pattern: /\b(community colleges?|junior colleges?|two[- ]year (college|school|institution|program)s?|associate'?s? degrees?|associate of (arts|science|applied science))\b/i,
+  },
+  {
+    levels: UNDERGRADUATE_YEARS,
+    pattern: /\b(undergraduates?|undergrad|bachelor'?s?|baccalaureate|(?<!(junior|community) )college students?|university students?|four[- ]year (college|university|degree)s?)\b/i,
+    unless: anyOf(UNDERGRADUATE_YEAR_RULES),
+  },
+  ...UNDERGRADUATE_YEAR_RULES,
+  {
+    levels: ['masters'],
+    pattern: /\b(master'?s|masters|master of|mba|mfa|msw|mph|m\.s\.|m\.a\.|m\.ed\.?)(?![a-z])/i,
+  },
+  {
+    // "Graduate students", "graduate degree", "postgraduate"; not "high school graduate"
+    // or the verb ("must graduate by June")
+    levels: ['masters', 'doctoral'],
+    pattern: /(?<!high school )\b(post-?)?graduate\b(?!\s+(from|by|in|within|before)\b)|\bgrad (students?|school)\b/i,
+  },
+  {
+    levels: ['doctoral'],
+    pattern: /\b(doctoral|doctorate|ph\.?\s?d\.?|doctor of (philosophy|education)|ed\.d\.?)(?![a-z])/i,
+  },
+  {
+    levels: ['professional'],
+    pattern: /\b(professional (degree|school|program|student|studies)s?|(law|medical|dental|pharmacy|veterinary|nursing) (school|student)s?|juris doctor|doctor of (medicine|dental|pharmacy|veterinary)|j\.d\.|m\.d\.|pharm\.?d\.?|d\.d\.s\.|d\.v\.m\.)(?![a-z])/i,
+  },
+  {
+    levels: ['vocational'],
+    pattern: /\b(vocational|trade schools?|technical (school|college|program|training|education)s?|career and technical|apprenticeships?|certificate programs?|certification)\b|(?<!graduate )\bcertificates?\b/i,
+  },
+];
+
+function isAcademicLevel(value: string): value is AcademicLevel {
+  return (ACADEMIC_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Maps free-text academic level into the controlled vocabulary
+ * @param text - Level as scraped (e.g. "Bachelor's Degree, Master's Degree", "High School Senior | College Freshman")
+ *   or a previously normalized, comma-separated list of levels
+ * @returns Matching levels, in taxonomy order; empty when the text names no level
+ */
+function normalizeAcademicLevels(text: string | null | undefined): AcademicLevel[] {
+  const found = new Set<AcademicLevel>();
+  const freeText: string[] = [];
+
+  // Already normalized values pass straight through, so normalizing is idempotent
+  for (const part of (text || '').split(/[,;|\n]/)) {
+    const token = part.trim().toLowerCase();
+    if (isAcademicLevel(token)) {
+      found.add(token);
+    } else if (token) {
+      freeText.push(token.replace(/[’`]/g, "'").replace(/\s+/g, ' '));
+    }
+  }
+
+  // Rules run on each part separately so lookarounds never span two listed levels
+  for (const part of freeText) {
+    for (const { levels, pattern, unless } of LEVEL_RULES) {
+      if (pattern.test(part) && !(unless && unless.test(part))) {
+        levels.forEach(level => found.add(level));
+      }
+    }
+  }
+
+  return ACADEMIC_LEVELS.filter(level => found.has(level));
+}
+
+/**
+ * Converts normalized levels into the scholarship record's academic_level column
+ */
+function toAcademicLevelField(levels: AcademicLevel[]): string {
+  return ACADEMIC_LEVELS.filter(level => levels.includes(level)).join(',');
+}
+
+export const AcademicLevelUtils = {
+  normalizeAcademicLevels,
+  toAcademicLevelField,
+};
@@ -0,0 +1,186 @@
+export type AwardPeriod = 'one_time' | 'per_year' | 'per_semester';
+
+// Order matches the non_monetary_awards SET column
+export const NON_MONETARY_AWARDS = [
+  'full_tuition',
+  'partial_tuition',
+  'room_and_board',
+  'books',
+  'fees',
+  'travel',
+  'equipment',
+] as const;
+
+export type NonMonetaryAward = typeof NON_MONETARY_AWARDS[number];
+
+export interface ParsedAward {
+  min: number | null; // Null when the text gives no lower bound (e.g. "Up to $5,000")
+  max: number | null; // Null when the text gives no upper bound (e.g. "$500+")
+  currency: string; // ISO 4217 code
+  period: AwardPeriod;
+  nonMonetary: NonMonetaryAward[];
+  varies: boolean; // Amount depends on the recipient, or was not given
+  raw: string;
+}
+
+// Award columns as the scrapers' snake_case records carry them
+export interface AwardFields {
+  min_award: number | null; // Null when the text gives no lower bound
+  max_award: number | null; // Null when the text gives no upper bound
+  award_varies: boolean;
+  award_currency: string;
+  award_period: AwardPeriod;
+  non_monetary_awards: string; // Comma-separated, for the SET column
+}
+
+const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '£': 'GBP',
+  '€': 'EUR',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+const CURRENCY_CODES = ['USD', 'CAD', 'AUD', 'NZD', 'GBP', 'EUR', 'INR', 'JPY'];
+
+// [symbol or code] number [k|thousand|million] [code]
+const AMOUNT_PATTERN = new RegExp(
+  `(?:([$£€¥₹])|\\b(${CURRENCY_CODES.join('|')})\\s*)?` +
+  '(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d{1,2}))?' +
+  '(?:\\s*(k|thousand|million|m)\\b)?' +
+  `(?:\\s*(${CURRENCY_CODES.join('|')})\\b)?`,
+  'gi'
+);
+
+// Bare numbers followed by these words are counts, not money
+const COUNT_UNITS = /^\s*(years?|yrs?|semesters?|terms?|months?|students?|recipients?|awards?|scholarships?|winners?|hours?|words?|gpa|%|st|nd|rd|th)\b/i;
+
+const RANGE_SEPARATOR = /^\s*(-|–|—|to|through|and up to)\s*$/i;
+const UP_TO_PATTERN = /\b(up to|as much as|maximum( of)?|max\.?|not to exceed|no more than)\s*$/i;
+const AT_LEAST_PATTERN = /\b(at least|minimum( of)?|min\.?|starting at|from)\s*$/i;
+const VARIES_PATTERN = /\b(var(y|ies|ious)|not specified|tbd|to be determined|unspecified|determined by)\b/i;
+
+const PERIOD_PATTERNS: Array<{ period: AwardPeriod; pattern: RegExp }> = [
+  { period: 'per_semester', pattern: /\b(per|each|a|every)\s+(semester|term|quarter)\b|\/\s*(semester|term)\b|\bsemesterly\b/i },
+  { period: 'per_year', pattern: /\b(per|each|a|every)\s+(academic\s+|school\s+)?year\b|\/\s*(yr|year)\b|\b(annually|yearly|per annum)\b/i },
+];
+
+const NON_MONETARY_PATTERNS: Array<{ award: NonMonetaryAward; pattern: RegExp }> = [
+  { award: 'full_tuition', pattern: /\b(full[- ]tuition|full[- ]ride|tuition (and fees )?in full|full (cost of )?tuition|tuition waiver)\b/i },
+  { award: 'partial_tuition', pattern: /\b(partial[- ]tuition|tuition (assistance|reduction|discount|remission)|half tuition)\b/i },
+  { award: 'room_and_board', pattern: /\b(room (and|&) board|housing|meal plan|lodging)\b/i },
+  { award: 'books', pattern: /\b(books?|textbooks?)\b/i },
+  { award: 'fees', pattern: /\b(fees|fee waiver)\b/i },
+  { award: 'travel', pattern: /\b(travel|airfare|transportation)\b/i },
+  { award: 'equipment', pattern: /\b(laptop|computer|equipment|supplies)\b/i },
+];
+
+interface AmountMatch {
+  value: number;
+  currency: string | null;
+  index: number;
+  end: number;
+}
+
+function findAmounts(text: string): AmountMatch[] {
+  const amounts: AmountMatch[] = [];
+  AMOUNT_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT_PATTERN.exec(text)) !== null) {
+    const [whole, symbol, leadingCode, digits, cents, multiplier, trailingCode] = match;
+    const currency = symbol
+      ? CURRENCY_SYMBOLS[symbol]
+      : (leadingCode || trailingCode || '').toUpperCase() || null;
+
+    let value = parseFloat(`${digits.replace(/,/g, '')}${cents ? `.${cents}` : ''}`);
+    const scale = (multiplier || '').toLowerCase();
+    if (scale === 'k' || scale === 'thousand') value *= 1000;
+    if (scale === 'm' || scale === 'million') value *= 1000000;
+
+    const end = match.index + whole.length;
+    if (!currency) {
+      // Without a currency marker, skip counts ("4 years") and calendar years
+      if (COUNT_UNITS.test(text.slice(end))) continue;
+      if (!multiplier && /^(19|20)\d{2}$/.test(digits)) continue;
+    }
+
+    amounts.push({ value, currency, index: match.index, end });
+  }
+
+  // When some amounts carry a currency, unmarked numbers are usually counts
+  return amounts.some(amount => amount.currency)
+    ? amounts.filter(amount => amount.currency)
+    : amounts;
+}
+
+/**
+ * Parses free-text award amount into a structured range
+ * @param text - Amount as scraped (e.g. "$500 - $2,000", "Up to $10,000 per year", "Full tuition")
+ * @returns Min/max amounts, currency, payment period and non-monetary award types
+ */
+function parseAward(text: string | number | null | undefined): ParsedAward {
+  const raw = text === null || text === undefined ? '' : String(text).trim();
+  const amounts = findAmounts(raw);
+
+  const period = PERIOD_PATTERNS.find(({ pattern }) => pattern.test(raw))?.period || 'one_time';
+  const nonMonetary = NON_MONETARY_PATTERNS
+    .filter(({ pattern }) => pattern.test(raw))
+    .map(({ award }) => award);
+  const currency = amounts.find(amount => amount.currency)?.currency || DEFAULT_CURRENCY;
+
+  let min: number | null = null;
+  let max: number | null = null;
+
+  if (amounts.length === 1) {
+    const [amount] = amounts;
+    const before = raw.slice(0, amount.index);
+    const after = raw.slice(amount.end);
+
+    if (UP_TO_PATTERN.test(before)) {
+      max = amount.value;
+    } else if (AT_LEAST_PATTERN.test(before) || /^\s*(\+|or more|and up)/i.test(after)) {
+      min = amount.value;
+    } else {
+      min = amount.value;
+      max = amount.value;
+    }
+  } else if (amounts.length > 1) {
+    const [first, second] = amounts;
+    if (RANGE_SEPARATOR.test(raw.slice(first.end, second.index))) {
+      min = Math.min(first.value, second.value);
+      max = Math.max(first.value, second.value);
+    } else {
+      // Several awards listed ("$1,000 and $500 awards"): report their spread
+      const values = amounts.map(amount => amount.value);
+      min = Math.min(...values);
+      max = Math.max(...values);
+    }
+  }
+
+  const varies = (min === null && max === null && nonMonetary.length === 0) || VARIES_PATTERN.test(raw);
+
+  return { min, max, currency, period, nonMonetary, varies, raw };
+}
+
+/**
+ * Converts a parsed award into the scholarship record's award columns.
+ * A missing bound stays null rather than 0, so an unknown amount isn't read as a $0 award.
+ */
+function toAwardFields(award: ParsedAward): AwardFields {
+  return {
+    min_award: award.min,
+    max_award: award.max,
+    award_varies: award.varies,
+    award_currency: award.currency,
+    award_period: award.period,
+    non_monetary_awards: NON_MONETARY_AWARDS.filter(type => award.nonMonetary.includes(type)).join(','),
+  };
+}
+
+export const AmountUtils = {
+  parseAward,
+  toAwardFields,
+};
@@ -0,0 +1,93 @@
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+import { HttpClient, HttpMethod, HttpRequestOptions, httpClient } from './http-client';
+
+// The parts of the AWS SDK's signed request and response this handler uses
+interface SdkHttpRequest {
+  protocol: string;
+  hostname: string;
+  port?: number;
+  method: string;
+  path: string;
+  query?: Record<string, string | Array<string> | null>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+interface SdkHttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: Uint8Array;
+}
+
+function toUrl(request: SdkHttpRequest): string {
+  const query = Object.entries(request.query || {})
+    .flatMap(([name, value]) => (Array.isArray(value) ? value : [value]).map(item =>
+      item === null ? encodeURIComponent(name) : `${encodeURIComponent(name)}=${encodeURIComponent(item)}`
+    ))
+    .join('&');
+  const port = request.port ? `:${request.port}` : '';
+  return `${request.protocol}//${request.hostname}${port}${request.path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Sends AWS SDK requests through the shared HTTP client, so SDK calls get the same
+ * per-host rate limit, retries and metrics as page fetches. The SDK still signs
+ * each request; this handler only sends it.
+ */
+export class HttpClientRequestHandler {
+  private client: HttpClient;
+  private options: HttpRequestOptions;
+
+  /**
+   * @param options - Passed with every request, e.g. a longer timeoutMs for slow model calls
+   */
+  constructor(client: HttpClient = httpClient, options: HttpRequestOptions = {}) {
+    this.client = client;
+    this.options = options;
+  }
+
+  async handle(request: SdkHttpRequest): Promise<{ response: SdkHttpResponse }> {
+    const method = request.method.toUpperCase();
+    if (method !== 'GET' && method !== 'POST') {
+      throw new Error(`Unsupported AWS SDK request method: ${method}`);
+    }
+
+    const body = request.body === undefined || request.body === null || typeof request.body === 'string'
+      ? request.body ?? undefined
+      : Buffer.from(request.body).toString('utf8');
+
+    const response = await this.client.request(toUrl(request), {
+      ...this.options,
+      method: method as HttpMethod,
+      headers: request.headers,
+      body,
+    });
+
+    return {
+      response: {
+        statusCode: response.status,
+        headers: response.headers,
+        body: Buffer.from(response.body, 'utf8'),
+      },
+    };
+  }
+
+  // Part of the SDK's handler interface; this handler has no settings of its own
+  updateHttpClientConfig(): void {}
+
+  httpHandlerConfigs(): Record<string, never> {
+    return {};
+  }
+}
+
+/**
+ * Creates a Bedrock client whose calls go through the shared HTTP client. The SDK's
+ * own retries are off, since the HTTP client already retries throttling and 5xx,
+ * and robots.txt isn't checked, since these are API calls.
+ */
+export function createBedrockClient(options: HttpRequestOptions = {}): BedrockRuntimeClient {
+  return new BedrockRuntimeClient({
+    requestHandler: new HttpClientRequestHandler(httpClient, { respectRobots: false, ...options }),
+    maxAttempts: 1,
+  });
+}
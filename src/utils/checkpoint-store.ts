@@ -0,0 +1,157 @@
+import { S3Utils } from './s3-utils';
+import { MySQLDatabase, createDatabaseFromEnv } from './mysql-config';
+
+export interface ScrapingCheckpoint {
+  checkpointId: string; // Job ID the checkpoint belongs to; continued jobs reuse it
+  website: string;
+  jobId: string; // Job that last wrote the checkpoint
+  nextPage: number; // Listing page to fetch next
+  completedPages: number[];
+  processedUrls: string[]; // Detail URLs already saved to MySQL
+  status: 'in_progress' | 'completed';
+  updatedAt: string; // ISO date string
+}
+
+export interface CheckpointStore {
+  loadCheckpoint(website: string, checkpointId: string): Promise<ScrapingCheckpoint | null>;
+  saveCheckpoint(checkpoint: ScrapingCheckpoint): Promise<void>;
+}
+
+/**
+ * Checkpoint store backed by JSON documents in the raw data bucket
+ */
+export class S3CheckpointStore implements CheckpointStore {
+  private s3Utils: S3Utils;
+
+  constructor(bucketName: string, s3Utils?: S3Utils) {
+    this.s3Utils = s3Utils || new S3Utils({ bucketName });
+  }
+
+  async loadCheckpoint(website: string, checkpointId: string): Promise<ScrapingCheckpoint | null> {
+    return this.s3Utils.getJson<ScrapingCheckpoint>(S3CheckpointStore.key(website, checkpointId));
+  }
+
+  async saveCheckpoint(checkpoint: ScrapingCheckpoint): Promise<void> {
+    await this.s3Utils.putJson(S3CheckpointStore.key(checkpoint.website, checkpoint.checkpointId), checkpoint);
+  }
+
+  static key(website: string, checkpointId: string): string {
+    return `checkpoints/${website}/${checkpointId}.json`;
+  }
+}
+
+/**
+ * Checkpoint store backed by the MySQL scraping_checkpoints table
+ */
+export class MySQLCheckpointStore implements CheckpointStore {
+  private db: MySQLDatabase;
+
+  constructor(db: MySQLDatabase) {
+    this.db = db;
+  }
+
+  async loadCheckpoint(website: string, checkpointId: string): Promise<ScrapingCheckpoint | null> {
+    const row = await this.db.queryOne(
+      'SELECT * FROM scraping_checkpoints WHERE website = ? AND checkpoint_id = ?',
+      [website, checkpointId]
+    );
+    if (!row) return null;
+
+    const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return {
+      checkpointId: row.checkpoint_id,
+      website: row.website,
+      jobId: row.job_id,
+      nextPage: row.next_page,
+      completedPages: row.completed_pages ? parseJson(row.completed_pages) : [],
+      processedUrls: row.processed_urls ? parseJson(row.processed_urls) : [],
+      status: row.status,
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  async saveCheckpoint(checkpoint: ScrapingCheckpoint): Promise<void> {
+    const sql = `
+      INSERT INTO scraping_checkpoints (
+        checkpoint_id, website, job_id, next_page, completed_pages, processed_urls, status, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        job_id = VALUES(job_id),
+        next_page = VALUES(next_page),
+        completed_pages = VALUES(completed_pages),
+        processed_urls = VALUES(processed_urls),
+        status = VALUES(status),
+        updated_at = VALUES(updated_at)
+    `;
+
+    await this.db.query(sql, [
+      checkpoint.checkpointId,
+      checkpoint.website,
+      checkpoint.jobId,
+      checkpoint.nextPage,
+      JSON.stringify(checkpoint.completedPages),
+      JSON.stringify(checkpoint.processedUrls),
+      checkpoint.status,
+      new Date(checkpoint.updatedAt),
+    ]);
+  }
+}
+
+/**
+ * Checkpoint store kept in process memory, for tests and dry runs
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, ScrapingCheckpoint>();
+
+  async loadCheckpoint(website: string, checkpointId: string): Promise<ScrapingCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(`${website}/${checkpointId}`);
+    return checkpoint ? InMemoryCheckpointStore.copy(checkpoint) : null;
+  }
+
+  async saveCheckpoint(checkpoint: ScrapingCheckpoint): Promise<void> {
+    this.checkpoints.set(`${checkpoint.website}/${checkpoint.checkpointId}`, InMemoryCheckpointStore.copy(checkpoint));
+  }
+
+  private static copy(checkpoint: ScrapingCheckpoint): ScrapingCheckpoint {
+    return {
+      ...checkpoint,
+      completedPages: [...checkpoint.completedPages],
+      processedUrls: [...checkpoint.processedUrls],
+    };
+  }
+}
+
+export interface CheckpointStoreOptions {
+  rawDataBucket?: string;
+  db?: MySQLDatabase;
+}
+
+/**
+ * Creates the checkpoint store selected by CHECKPOINT_STORE ('s3', 'mysql' or 'memory').
+ * Defaults to S3 when a raw data bucket is configured.
+ */
+export async function createCheckpointStoreFromEnv(options: CheckpointStoreOptions = {}): Promise<CheckpointStore> {
+  const bucket = options.rawDataBucket || process.env.S3_RAW_DATA_BUCKET;
+  const storeType = process.env.CHECKPOINT_STORE || (bucket ? 's3' : 'memory');
+
+  switch (storeType) {
+    case 's3':
+      if (!bucket) {
+        throw new Error('CHECKPOINT_STORE=s3 requires S3_RAW_DATA_BUCKET to be set');
+      }
+      return new S3CheckpointStore(bucket);
+
+    case 'mysql': {
+      const db = options.db || await createDatabaseFromEnv();
+      return new MySQLCheckpointStore(db);
+    }
+
+    case 'memory':
+      console.warn('⚠️  Using in-memory checkpoint store, progress will not survive a restart');
+      return new InMemoryCheckpointStore();
+
+    default:
+      throw new Error(`Unknown CHECKPOINT_STORE: ${storeType}. Expected s3, mysql or memory`);
+  }
+}
@@ -28,6 +28,12 @@ export const MAX_SCHOLARSHIP_SEARCH_RESULTS = parseInt(process.env.MAX_SCHOLARSH
 export const SCRAPING_DELAY_MS = parseInt(process.env.SCRAPING_DELAY_MS || '2000', 10);
 export const MAX_CONCURRENT_REQUESTS = parseInt(process.env.MAX_CONCURRENT_REQUESTS || '5', 10);
 
+// Database Configuration
+// Rows per multi-row INSERT (and per transaction) when scholarships are written in bulk
+export const BULK_WRITE_CHUNK_SIZE = parseInt(process.env.BULK_WRITE_CHUNK_SIZE || '200', 10);
+// Attempts at a bulk write transaction that deadlocks with another job before its rows count as failed
+export const BULK_WRITE_LOCK_ATTEMPTS = 3;
+
 // Search Configuration
 export const SEARCH_TERMS = [
   'college scholarship',
@@ -48,12 +54,26 @@ export const USER_AGENT = process.env.USER_AGENT || 'Mozilla/5.0 (compatible; Sc
 export const REQUEST_TIMEOUT_MS = parseInt(process.env.REQUEST_TIMEOUT_MS || '30000', 10);
 export const BATCH_JOB_TIMEOUT_MINUTES = parseInt(process.env.BATCH_JOB_TIMEOUT_MINUTES || '60', 10);
 export const LAMBDA_TIMEOUT_MINUTES = parseInt(process.env.LAMBDA_TIMEOUT_MINUTES || '5', 10);
+// Attempts AWS Batch gives a scraper job (the first run plus its retries)
+export const BATCH_JOB_ATTEMPTS = 3;
+// Exit code of a scraper job that stopped early with its progress checkpointed (EX_TEMPFAIL);
+// Batch retries only this code, so a bad config or an unknown scraper fails straight away
+export const RESUMABLE_EXIT_CODE = 75;
 
 // Error Handling Configuration
 export const MAX_RETRY_ATTEMPTS = parseInt(process.env.MAX_RETRY_ATTEMPTS || '3', 10);
 export const RETRY_DELAY_MS = parseInt(process.env.RETRY_DELAY_MS || '1000', 10);
 
+// HTTP Client Configuration
+// RETRY_DELAY_MS is the backoff base; a host's Retry-After is honored up to HTTP_MAX_RETRY_DELAY_MS
+export const HTTP_MAX_RETRY_DELAY_MS = parseInt(process.env.HTTP_MAX_RETRY_DELAY_MS || '30000', 10);
+export const HTTP_MAX_RESPONSE_BYTES = parseInt(process.env.HTTP_MAX_RESPONSE_BYTES || String(5 * 1024 * 1024), 10);
+export const HTTP_HOST_MIN_INTERVAL_MS = parseInt(process.env.HTTP_HOST_MIN_INTERVAL_MS || '1000', 10);
+// A page unchanged this long is fetched unconditionally and parsed again, so parser fixes reach it
+export const PAGE_CACHE_MAX_AGE_MS = parseInt(process.env.PAGE_CACHE_MAX_AGE_MS || String(7 * 24 * 60 * 60 * 1000), 10);
+
 // CareerOneStop Scraper Specific
+// *_PAGE_OFFSET is the first listing page each source's crawl frontier starts from
 export const CAREERONESTOP_URL = process.env.CAREERONESTOP_URL || 'https://www.careeronestop.org/Toolkit/Training/find-scholarships.aspx';
 export const CAREERONESTOP_PAGE_OFFSET = parseInt(process.env.CAREERONESTOP_PAGE_OFFSET || '0', 10);
 export const COLLEGESCHOLARSHIPS_URL = process.env.COLLEGESCHOLARSHIPS_URL || 'https://www.collegescholarships.org/scholarships/';
@@ -0,0 +1,164 @@
+import { MySQLDatabase } from './mysql-config';
+
+export interface CrawlFrontierState {
+  source: string;
+  firstPage: number;
+  nextPage: number; // Listing page the next run starts from
+  lastPageReached: number | null;
+  catalogPages: number | null; // Known once a full pass has reached the end of the listing
+  pagesVisited: number[]; // Pages visited during the current pass
+  cycle: number; // Completed passes over the whole catalog
+  updatedAt: string; // ISO date string
+}
+
+export interface CatalogCoverage {
+  source: string;
+  cycle: number;
+  nextPage: number;
+  lastPageReached: number | null;
+  pagesVisited: number;
+  catalogPages: number | null;
+  coveragePercent: number | null; // Null until the catalog size is known
+  updatedAt: string;
+}
+
+/**
+ * Walks a source's listing pages in order across runs. Each run starts where the
+ * previous one stopped, and the frontier wraps back to the first page once a page
+ * comes back empty, so every page is visited once per pass.
+ */
+export class CrawlFrontier {
+  private db: MySQLDatabase;
+  private state: CrawlFrontierState;
+
+  private constructor(db: MySQLDatabase, state: CrawlFrontierState) {
+    this.db = db;
+    this.state = state;
+  }
+
+  /**
+   * Loads the frontier for a source, starting a new one at firstPage if none exists
+   */
+  static async load(db: MySQLDatabase, source: string, firstPage: number = 0): Promise<CrawlFrontier> {
+    const row = await db.queryOne('SELECT * FROM crawl_frontier WHERE source = ?', [source]);
+    if (row) {
+      return new CrawlFrontier(db, CrawlFrontier.fromRow(row));
+    }
+
+    return new CrawlFrontier(db, {
+      source,
+      firstPage,
+      nextPage: firstPage,
+      lastPageReached: null,
+      catalogPages: null,
+      pagesVisited: [],
+      cycle: 0,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Reports catalog coverage for every source with a frontier
+   */
+  static async listCoverage(db: MySQLDatabase): Promise<CatalogCoverage[]> {
+    const rows = await db.query('SELECT * FROM crawl_frontier ORDER BY source');
+    return rows.map(row => new CrawlFrontier(db, CrawlFrontier.fromRow(row)).coverage());
+  }
+
+  get firstPage(): number {
+    return this.state.firstPage;
+  }
+
+  get nextPage(): number {
+    return this.state.nextPage;
+  }
+
+  /**
+   * Records a visited listing page and advances the frontier
+   * @param page - The page that was fetched
+   * @param rowCount - Listing rows found on the page; 0 marks the end of the catalog
+   */
+  async recordPage(page: number, rowCount: number): Promise<void> {
+    if (rowCount === 0) {
+      // An empty first page means the listing is unavailable, not that it ended
+      if (page > this.state.firstPage) {
+        console.log(`${this.state.source}: page ${page} is past the end of the catalog, wrapping to page ${this.state.firstPage}`);
+        this.state.catalogPages = page - this.state.firstPage;
+        this.state.cycle++;
+        this.state.pagesVisited = [];
+        this.state.nextPage = this.state.firstPage;
+      }
+    } else {
+      if (!this.state.pagesVisited.includes(page)) {
+        this.state.pagesVisited.push(page);
+      }
+      this.state.lastPageReached = page;
+      this.state.nextPage = page + 1;
+      if (this.state.catalogPages !== null && page - this.state.firstPage + 1 > this.state.catalogPages) {
+        this.state.catalogPages = page - this.state.firstPage + 1;
+      }
+    }
+
+    await this.save();
+  }
+
+  coverage(): CatalogCoverage {
+    const { catalogPages } = this.state;
+    return {
+      source: this.state.source,
+      cycle: this.state.cycle,
+      nextPage: this.state.nextPage,
+      lastPageReached: this.state.lastPageReached,
+      pagesVisited: this.state.pagesVisited.length,
+      catalogPages,
+      coveragePercent: catalogPages
+        ? Math.min(100, Math.round((this.state.pagesVisited.length / catalogPages) * 1000) / 10)
+        : null,
+      updatedAt: this.state.updatedAt,
+    };
+  }
+
+  private async save(): Promise<void> {
+    this.state.updatedAt = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO crawl_frontier (
+        source, first_page, next_page, last_page_reached, catalog_pages, pages_visited, cycle, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        next_page = VALUES(next_page),
+        last_page_reached = VALUES(last_page_reached),
+        catalog_pages = VALUES(catalog_pages),
+        pages_visited = VALUES(pages_visited),
+        cycle = VALUES(cycle),
+        updated_at = VALUES(updated_at)
+    `;
+
+    await this.db.query(sql, [
+      this.state.source,
+      this.state.firstPage,
+      this.state.nextPage,
+      this.state.lastPageReached,
+      this.state.catalogPages,
+      JSON.stringify(this.state.pagesVisited),
+      this.state.cycle,
+      new Date(this.state.updatedAt),
+    ]);
+  }
+
+  private static fromRow(row: any): CrawlFrontierState {
+    const pagesVisited = typeof row.pages_visited === 'string' ? JSON.parse(row.pages_visited) : row.pages_visited;
+
+    return {
+      source: row.source,
+      firstPage: row.first_page,
+      nextPage: row.next_page,
+      lastPageReached: row.last_page_reached,
+      catalogPages: row.catalog_pages,
+      pagesVisited: pagesVisited || [],
+      cycle: row.cycle,
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
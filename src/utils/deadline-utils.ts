@@ -0,0 +1,200 @@
+export type DeadlineKind =
+  | 'fixed' // A specific calendar date
+  | 'recurring' // The same month and day every year
+  | 'rolling' // Applications accepted continuously
+  | 'varies' // Deadline depends on program, location, etc.
+  | 'unknown'; // No deadline given, or text we could not read
+
+export interface ParsedDeadline {
+  kind: DeadlineKind;
+  date: string | null; // YYYY-MM-DD: the fixed date, or the next occurrence of a recurring deadline
+  month?: number; // Recurring deadlines: month (1-12)
+  day?: number; // Recurring deadlines: day of month
+  raw: string;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DAY_PATTERN = '(\\d{1,2})(?:st|nd|rd|th)?';
+
+const ROLLING_PATTERN = /\b(rolling|ongoing|continuous(ly)?|year[- ]round|open until filled|any ?time|always open)\b/i;
+const VARIES_PATTERN = /\b(var(y|ies|ious)|multiple|several|depends|see (the )?(website|details))\b/i;
+const RANGE_PATTERN = /(-|–|—|\bto\b|\bthrough\b|\bthru\b|\buntil\b)/i;
+
+interface DateMatch {
+  index: number;
+  length: number;
+  year: number | null; // Null when the text gives no year, i.e. an annual deadline
+  month: number;
+  day: number | null; // Null for month-only deadlines (treated as the last day of the month)
+}
+
+// Date formats, most specific first; overlapping matches from later formats are dropped
+const DATE_FORMATS: Array<{ pattern: RegExp; read: (match: RegExpExecArray) => Omit<DateMatch, 'index' | 'length'> }> = [
+  {
+    // 2025-03-01
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    read: m => ({ year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) }),
+  },
+  {
+    // 03/01/2025, 3-1-25, 3.1.2025 (US month-first order)
+    pattern: /\b(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4}|\d{2})\b/g,
+    read: m => ({ year: expandYear(m[3]), month: Number(m[1]), day: Number(m[2]) }),
+  },
+  {
+    // March 1, 2025 / Mar. 1st 2025 / March 1
+    pattern: new RegExp(`\\b${MONTH_PATTERN}\\s+${DAY_PATTERN}\\b(?:,?\\s+(\\d{4})\\b)?`, 'gi'),
+    read: m => ({ year: m[3] ? Number(m[3]) : null, month: monthNumber(m[1]), day: Number(m[2]) }),
+  },
+  {
+    // 1 March 2025 / 1st of March
+    pattern: new RegExp(`\\b${DAY_PATTERN}\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4})\\b)?`, 'gi'),
+    read: m => ({ year: m[3] ? Number(m[3]) : null, month: monthNumber(m[2]), day: Number(m[1]) }),
+  },
+  {
+    // March 2025
+    pattern: new RegExp(`\\b${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'gi'),
+    read: m => ({ year: Number(m[2]), month: monthNumber(m[1]), day: null }),
+  },
+  {
+    // 05/2026 (month and year, as CareerOneStop lists some deadlines)
+    pattern: /\b(\d{1,2})\/(\d{4})\b/g,
+    read: m => ({ year: Number(m[2]), month: Number(m[1]), day: null }),
+  },
+  {
+    // 3/1 (no year)
+    pattern: /\b(\d{1,2})\/(\d{1,2})\b/g,
+    read: m => ({ year: null, month: Number(m[1]), day: Number(m[2]) }),
+  },
+];
+
+function monthNumber(name: string): number {
+  return MONTHS[name.toLowerCase().slice(0, 3)];
+}
+
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+function toIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function localIsoDate(date: Date): string {
+  return toIsoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+/**
+ * Finds every date in the text, keeping the most specific format where matches overlap
+ */
+function findDates(text: string): DateMatch[] {
+  const matches: DateMatch[] = [];
+
+  for (const format of DATE_FORMATS) {
+    format.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = format.pattern.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlaps = matches.some(existing => start < existing.index + existing.length && end > existing.index);
+      if (overlaps) continue;
+
+      const date = { index: start, length: match[0].length, ...format.read(match) };
+      const validDay = date.day === null || (date.day >= 1 && date.day <= daysInMonth(date.year ?? 2024, date.month));
+      if (date.month >= 1 && date.month <= 12 && validDay) {
+        matches.push(date);
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Next occurrence of an annual month/day on or after the reference date.
+ * Feb 29 falls back to Feb 28 in non-leap years.
+ */
+function nextOccurrence(month: number, day: number, reference: Date): string {
+  const today = localIsoDate(reference);
+  let year = reference.getFullYear();
+
+  for (let attempt = 0; attempt < 2; attempt++, year++) {
+    const candidate = toIsoDate(year, month, Math.min(day, daysInMonth(year, month)));
+    if (candidate >= today) return candidate;
+  }
+  return toIsoDate(year, month, Math.min(day, daysInMonth(year, month)));
+}
+
+/**
+ * Parses free-text deadline into a typed value
+ * @param text - Deadline as scraped (e.g. "March 1", "03/15/2025", "Rolling", "Varies")
+ * @param reference - Date used to pick the next occurrence of annual deadlines
+ * @returns The deadline kind and, for fixed and recurring deadlines, its date
+ */
+function parseDeadline(text: string | null | undefined, reference: Date = new Date()): ParsedDeadline {
+  const raw = (text || '').trim();
+  const dates = findDates(raw);
+
+  if (dates.length > 0) {
+    // "January 1 - March 31" is an application window; the deadline is its end
+    const between = dates.length > 1
+      ? raw.slice(dates[0].index + dates[0].length, dates[dates.length - 1].index)
+      : '';
+    const chosen = dates.length > 1 && RANGE_PATTERN.test(between) ? dates[dates.length - 1] : dates[0];
+
+    if (chosen.year !== null) {
+      const day = chosen.day ?? daysInMonth(chosen.year, chosen.month);
+      return { kind: 'fixed', date: toIsoDate(chosen.year, chosen.month, day), raw };
+    }
+
+    const day = chosen.day ?? daysInMonth(2024, chosen.month);
+    return {
+      kind: 'recurring',
+      date: nextOccurrence(chosen.month, day, reference),
+      month: chosen.month,
+      day,
+      raw,
+    };
+  }
+
+  // A bare month name ("March") repeats every year at the end of that month
+  const monthOnly = raw.match(new RegExp(`^${MONTH_PATTERN}$`, 'i'));
+  if (monthOnly) {
+    const month = monthNumber(monthOnly[1]);
+    const day = daysInMonth(2024, month);
+    return { kind: 'recurring', date: nextOccurrence(month, day, reference), month, day, raw };
+  }
+
+  if (ROLLING_PATTERN.test(raw)) {
+    return { kind: 'rolling', date: null, raw };
+  }
+  if (VARIES_PATTERN.test(raw)) {
+    return { kind: 'varies', date: null, raw };
+  }
+  return { kind: 'unknown', date: null, raw };
+}
+
+/**
+ * Whether a deadline has passed. Only fixed dates can expire: recurring
+ * deadlines roll over to next year, and the other kinds have no date.
+ * @param deadline - Deadline text or an already parsed deadline
+ * @param reference - The date to compare against
+ */
+function isDeadlineExpired(deadline: string | ParsedDeadline | null | undefined, reference: Date = new Date()): boolean {
+  const parsed = typeof deadline === 'object' && deadline !== null ? deadline : parseDeadline(deadline, reference);
+  return parsed.kind === 'fixed' && parsed.date !== null && parsed.date < localIsoDate(reference);
+}
+
+export const DeadlineUtils = {
+  parseDeadline,
+  isDeadlineExpired,
+  nextOccurrence,
+};
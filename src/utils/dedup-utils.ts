@@ -0,0 +1,262 @@
+import { ScholarshipUtils } from './helper';
+
+export interface DedupCandidate {
+  name: string;
+  organization?: string;
+  url?: string;
+  applyUrl?: string;
+  minAward?: number;
+  maxAward?: number;
+  source?: string;
+}
+
+export interface DedupMatch<T extends DedupCandidate> {
+  record: T;
+  score: number;
+}
+
+export interface MergedScholarship<T extends DedupCandidate> {
+  canonical: T;
+  provenance: Array<{ source: string; name: string; url: string; score: number }>;
+  fieldSources: Record<string, string>;
+}
+
+// Default score at which two records are treated as the same scholarship
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+// Words that appear in most award names and carry no identifying signal
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'in', 'to', 'at', 'on', 'by',
+  'scholarship', 'scholarships', 'award', 'awards', 'grant', 'grants',
+  'program', 'programs', 'fund', 'funds', 'fellowship', 'foundation',
+  'inc', 'llc', 'corp', 'corporation', 'association', 'society',
+]);
+
+/**
+ * Splits text into normalized, meaningful tokens
+ * @param text - The text to tokenize
+ * @returns Set of tokens with stop words removed
+ */
+function tokenize(text: string | undefined | null): Set<string> {
+  const normalized = ScholarshipUtils.normalizeForFingerprint(text);
+  return new Set(normalized.split(' ').filter(token => token && !STOP_WORDS.has(token)));
+}
+
+/**
+ * Dice coefficient between two token sets
+ * @returns Similarity from 0 (disjoint) to 1 (identical)
+ */
+function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+function normalizeUrl(url: string | undefined): string {
+  if (!url) return '';
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * URL signal: identical scholarship or apply URLs are strong evidence,
+ * URLs on the same host are weaker evidence
+ * @returns Similarity from 0 to 1, or null if neither record has a URL
+ */
+function urlSimilarity(a: DedupCandidate, b: DedupCandidate): number | null {
+  const urlsA = [normalizeUrl(a.url), normalizeUrl(a.applyUrl)].filter(Boolean);
+  const urlsB = [normalizeUrl(b.url), normalizeUrl(b.applyUrl)].filter(Boolean);
+  if (urlsA.length === 0 || urlsB.length === 0) return null;
+
+  if (urlsA.some(url => urlsB.includes(url))) return 1;
+
+  const hostsA = urlsA.map(url => url.split('/')[0]);
+  const hostsB = urlsB.map(url => url.split('/')[0]);
+  return hostsA.some(host => hostsB.includes(host)) ? 0.5 : 0;
+}
+
+/**
+ * Amount signal: matching non-zero awards support a match
+ * @returns Similarity from 0 to 1, or null if either record has no amount
+ */
+function amountSimilarity(a: DedupCandidate, b: DedupCandidate): number | null {
+  const amountA = Number(a.maxAward || a.minAward || 0);
+  const amountB = Number(b.maxAward || b.minAward || 0);
+  if (!amountA || !amountB) return null;
+
+  const difference = Math.abs(amountA - amountB) / Math.max(amountA, amountB);
+  if (difference === 0) return 1;
+  if (difference <= 0.1) return 0.5;
+  return 0;
+}
+
+/**
+ * Scores how likely two records describe the same scholarship. Name similarity
+ * dominates; organization, URL and amount signals only count when present.
+ * @returns Weighted score from 0 to 1
+ */
+function similarityScore(a: DedupCandidate, b: DedupCandidate): number {
+  const signals: Array<{ weight: number; value: number | null }> = [
+    { weight: 0.55, value: tokenSimilarity(tokenize(a.name), tokenize(b.name)) },
+    {
+      weight: 0.2,
+      value: a.organization && b.organization
+        ? tokenSimilarity(tokenize(a.organization), tokenize(b.organization))
+        : null,
+    },
+    { weight: 0.15, value: urlSimilarity(a, b) },
+    { weight: 0.1, value: amountSimilarity(a, b) },
+  ];
+
+  let totalWeight = 0;
+  let score = 0;
+  for (const signal of signals) {
+    if (signal.value === null) continue;
+    totalWeight += signal.weight;
+    score += signal.weight * signal.value;
+  }
+
+  return totalWeight > 0 ? score / totalWeight : 0;
+}
+
+/**
+ * Finds the record most similar to a candidate
+ * @param candidate - The incoming record
+ * @param records - Records to compare against
+ * @param threshold - Minimum score to count as a match
+ * @returns The best match, or null if nothing reaches the threshold
+ */
+function findBestMatch<T extends DedupCandidate>(
+  candidate: DedupCandidate,
+  records: T[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): DedupMatch<T> | null {
+  let best: DedupMatch<T> | null = null;
+  const candidateTokens = tokenize(candidate.name);
+
+  for (const record of records) {
+    // Cheap blocking step: skip records that share no name tokens
+    const recordTokens = tokenize(record.name);
+    if (tokenSimilarity(candidateTokens, recordTokens) === 0) continue;
+
+    const score = similarityScore(candidate, record);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { record, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Groups near-duplicate records into clusters
+ * @param records - Records to cluster
+ * @param threshold - Minimum score for two records to share a cluster
+ * @returns Clusters of records, each with at least one record
+ */
+function clusterScholarships<T extends DedupCandidate>(
+  records: T[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): T[][] {
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  // Index records by name token so only records sharing a token are compared
+  const tokenIndex = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    tokenize(record.name).forEach(token => {
+      const bucket = tokenIndex.get(token) || [];
+      bucket.push(index);
+      tokenIndex.set(token, bucket);
+    });
+  });
+
+  const compared = new Set<string>();
+  tokenIndex.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        if (similarityScore(records[bucket[i]], records[bucket[j]]) >= threshold) {
+          parent[find(bucket[j])] = find(bucket[i]);
+        }
+      }
+    }
+  });
+
+  const clusters = new Map<number, T[]>();
+  records.forEach((record, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), record]);
+  });
+  return Array.from(clusters.values());
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === '' || value === 0 || value === 'unspecified';
+}
+
+/**
+ * Merges a cluster into one canonical record. The most complete record wins,
+ * and its empty fields are filled from the other records in the cluster.
+ * @param cluster - Records describing the same scholarship
+ * @returns The canonical record with per-source provenance
+ */
+function mergeCluster<T extends DedupCandidate>(cluster: T[]): MergedScholarship<T> {
+  const completeness = (record: T) =>
+    Object.values(record).filter(value => !isEmptyValue(value)).length;
+  const ordered = [...cluster].sort((a, b) => completeness(b) - completeness(a));
+  const primary = ordered[0];
+
+  const canonical = { ...primary } as T;
+  const fieldSources: Record<string, string> = {};
+  Object.keys(primary).forEach(field => {
+    if (!isEmptyValue((primary as any)[field])) {
+      fieldSources[field] = primary.source || 'unknown';
+    }
+  });
+
+  for (const record of ordered.slice(1)) {
+    Object.entries(record).forEach(([field, value]) => {
+      if (isEmptyValue((canonical as any)[field]) && !isEmptyValue(value)) {
+        (canonical as any)[field] = value;
+        fieldSources[field] = record.source || 'unknown';
+      }
+    });
+  }
+
+  const provenance = ordered.map(record => ({
+    source: record.source || 'unknown',
+    name: record.name,
+    url: record.url || '',
+    score: record === primary ? 1 : similarityScore(primary, record),
+  }));
+
+  return { canonical, provenance, fieldSources };
+}
+
+export const DedupUtils = {
+  tokenize,
+  tokenSimilarity,
+  similarityScore,
+  findBestMatch,
+  clusterScholarships,
+  mergeCluster,
+  isEmptyValue,
+};
@@ -0,0 +1,262 @@
+// Orders below match the ENUM and SET columns created by the MySQL migration
+
+export const CITIZENSHIP_REQUIREMENTS = [
+  'us_citizen',
+  'permanent_resident',
+  'daca',
+  'international',
+] as const;
+
+export const ENROLLMENT_STATUSES = ['full_time', 'part_time'] as const;
+
+export const MILITARY_AFFILIATIONS = [
+  'active_duty',
+  'veteran',
+  'reserve_guard',
+  'military_family',
+] as const;
+
+export const FIELDS_OF_STUDY = [
+  'agriculture',
+  'arts',
+  'business',
+  'computer_science',
+  'education',
+  'engineering',
+  'health_sciences',
+  'humanities',
+  'journalism',
+  'law',
+  'mathematics',
+  'medicine',
+  'nursing',
+  'sciences',
+  'social_sciences',
+  'stem',
+] as const;
+
+// Valid score ranges, used to tell a score from other numbers near the test name
+export const TEST_SCORE_RANGES = {
+  SAT: { min: 400, max: 1600 },
+  ACT: { min: 1, max: 36 },
+  GRE: { min: 260, max: 340 },
+  GMAT: { min: 200, max: 800 },
+  LSAT: { min: 120, max: 180 },
+  MCAT: { min: 472, max: 528 },
+  TOEFL: { min: 0, max: 120 },
+  IELTS: { min: 0, max: 9 },
+} as const;
+
+export type CitizenshipRequirement = typeof CITIZENSHIP_REQUIREMENTS[number];
+export type EnrollmentStatus = typeof ENROLLMENT_STATUSES[number];
+export type MilitaryAffiliation = typeof MILITARY_AFFILIATIONS[number];
+export type FieldOfStudy = typeof FIELDS_OF_STUDY[number];
+export type StandardizedTest = keyof typeof TEST_SCORE_RANGES;
+
+export interface TestScoreRequirement {
+  test: StandardizedTest;
+  minScore: number | null; // Null when the test is required but no score is given
+}
+
+export interface ParsedEligibility {
+  minGpa: number | null;
+  residencyStates: string[]; // USPS codes; empty means no state restriction was found
+  citizenship: CitizenshipRequirement[];
+  fieldsOfStudy: FieldOfStudy[];
+  enrollmentStatus: EnrollmentStatus[];
+  firstGeneration: boolean;
+  militaryAffiliation: MilitaryAffiliation[];
+  disability: boolean;
+  testScores: TestScoreRequirement[];
+}
+
+const STATES: Record<string, string> = {
+  Alabama: 'AL', Alaska: 'AK', Arizona: 'AZ', Arkansas: 'AR', California: 'CA',
+  Colorado: 'CO', Connecticut: 'CT', Delaware: 'DE', Florida: 'FL', Georgia: 'GA',
+  Hawaii: 'HI', Idaho: 'ID', Illinois: 'IL', Indiana: 'IN', Iowa: 'IA',
+  Kansas: 'KS', Kentucky: 'KY', Louisiana: 'LA', Maine: 'ME', Maryland: 'MD',
+  Massachusetts: 'MA', Michigan: 'MI', Minnesota: 'MN', Mississippi: 'MS', Missouri: 'MO',
+  Montana: 'MT', Nebraska: 'NE', Nevada: 'NV', 'New Hampshire': 'NH', 'New Jersey': 'NJ',
+  'New Mexico': 'NM', 'New York': 'NY', 'North Carolina': 'NC', 'North Dakota': 'ND', Ohio: 'OH',
+  Oklahoma: 'OK', Oregon: 'OR', Pennsylvania: 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC',
+  'South Dakota': 'SD', Tennessee: 'TN', Texas: 'TX', Utah: 'UT', Vermont: 'VT',
+  Virginia: 'VA', Washington: 'WA', 'West Virginia': 'WV', Wisconsin: 'WI', Wyoming: 'WY',
+  'District of Columbia': 'DC',
+};
+
+const STATE_CODES = new Set(Object.values(STATES));
+
+// Codes that are also common words or degree abbreviations when written in capitals
+const AMBIGUOUS_STATE_CODES = new Set(['IN', 'OR', 'ME', 'OK', 'HI', 'MA', 'MS', 'MD', 'ID']);
+
+// Case-sensitive: state names are proper nouns. "Virginia" must not match inside
+// "West Virginia", and "Washington, D.C." is the District rather than the state.
+const STATE_NAME_PATTERN = new RegExp(
+  `(?<!West )\\b(${Object.keys(STATES).sort((a, b) => b.length - a.length).join('|')})\\b(?!,?\\s*D\\.?C\\.?\\b)`,
+  'g'
+);
+const DC_PATTERN = /\bWashington,?\s*D\.?C\.?(?![A-Za-z])/;
+
+const GPA_PATTERNS = [
+  // "3.0 GPA", "3.5/4.0 cumulative GPA", "2.75 grade point average"
+  /\b([0-4](?:\.\d{1,2})?)\s*(?:\/\s*4(?:\.0+)?\s*)?(?:or (?:higher|better|above)\s*)?(?:cumulative\s+|unweighted\s+|weighted\s+|overall\s+)?(?:gpa|grade point average)\b/gi,
+  // "GPA of 3.0", "minimum GPA: 3.25", "grade point average of at least 2.5"
+  /\b(?:gpa|grade point average)\s*(?:of|:|requirement of|must be)?\s*(?:at least|a minimum of|minimum of|no less than|above)?\s*([0-4]\.\d{1,2}|[0-4](?=\s*(?:\/|or|on|\+)))/gi,
+];
+
+const CITIZENSHIP_PATTERNS: Array<{ value: CitizenshipRequirement; pattern: RegExp }> = [
+  { value: 'us_citizen', pattern: /\b(u\.?\s?s\.? citizens?(hip)?|citizens? of the united states|united states citizens?(hip)?|american citizens?)\b/i },
+  { value: 'permanent_resident', pattern: /\b((lawful )?permanent residen(t|ts|cy)|green card|eligible non-?citizens?)\b/i },
+  { value: 'daca', pattern: /\b(daca|deferred action|dreamers?|undocumented)\b/i },
+  { value: 'international', pattern: /\b(international students?|non-?u\.?\s?s\.? citizens?|foreign (nationals?|students?)|f-1 visa|student visa)\b/i },
+];
+
+const ENROLLMENT_PATTERNS: Array<{ value: EnrollmentStatus; pattern: RegExp }> = [
+  { value: 'full_time', pattern: /\bfull[- ]time\b/i },
+  { value: 'part_time', pattern: /\b(part[- ]time|half[- ]time)\b/i },
+];
+
+const MILITARY_PATTERNS: Array<{ value: MilitaryAffiliation; pattern: RegExp }> = [
+  { value: 'active_duty', pattern: /\b(active[- ]duty|currently serving|active military|enlisted)\b/i },
+  { value: 'veteran', pattern: /\b(veterans?|honorabl[ey] discharged?|former (military|service ?members?))\b/i },
+  { value: 'reserve_guard', pattern: /\b(national guard|reserv(e|es|ists?) (component|members?|forces)|reservists?|rotc)\b/i },
+  {
+    value: 'military_family',
+    pattern: /\b((spouses?|child(ren)?|dependents?|sons?|daughters?|famil(y|ies)|widows?) of (a |an )?(military|veterans?|service ?members?|active[- ]duty|fallen|deceased)|military (spouses?|famil(y|ies)|child(ren)?|dependents?)|gold star)\b/i,
+  },
+];
+
+const FIELD_OF_STUDY_PATTERNS: Array<{ value: FieldOfStudy; pattern: RegExp }> = [
+  { value: 'agriculture', pattern: /\b(agricultur(e|al)|agronomy|animal science|horticulture|forestry|farming)\b/i },
+  { value: 'arts', pattern: /\b(fine arts?|visual arts?|performing arts?|music|theat(er|re)|dance|film|graphic design|art majors?|studio art)\b/i },
+  { value: 'business', pattern: /\b(business|accounting|finance|economics|marketing|entrepreneurship|mba)\b/i },
+  { value: 'computer_science', pattern: /\b(computer science|computer engineering|information technology|software|cyber ?security|data science|computing)\b/i },
+  { value: 'education', pattern: /\b(education majors?|teaching|teachers?|future educators?|early childhood education|special education)\b/i },
+  { value: 'engineering', pattern: /\b(engineering|engineers?)\b/i },
+  { value: 'health_sciences', pattern: /\b(health (sciences?|care|professions?)|healthcare|public health|pharmacy|physical therapy|dental hygiene|allied health|nutrition)\b/i },
+  { value: 'humanities', pattern: /\b(humanities|english (majors?|literature)|literature|(?<!(academic|financial|credit|employment|work|medical|family|criminal) )history|philosophy|(foreign|modern|world) languages?|linguistics|religious studies|classics)\b/i },
+  { value: 'journalism', pattern: /\b(journalism|communications?|mass media|broadcasting|public relations)\b/i },
+  { value: 'law', pattern: /\b(law school|legal studies|pre-?law|law students?|paralegal)\b/i },
+  { value: 'mathematics', pattern: /\b(mathematics|math|statistics|actuarial)\b/i },
+  { value: 'medicine', pattern: /\b(medicine|medical school|pre-?med(ical)?|physicians?|medical students?)\b/i },
+  { value: 'nursing', pattern: /\b(nursing|nurses?|rn|bsn)\b/i },
+  { value: 'sciences', pattern: /\b(biology|chemistry|physics|geology|environmental science|natural sciences?|life sciences?|biochemistry|marine science|astronomy)\b/i },
+  { value: 'social_sciences', pattern: /\b(social sciences?|psychology|sociology|political science|anthropology|social work|criminal justice)\b/i },
+  { value: 'stem', pattern: /\bstem\b|\bscience,? technology,? engineering,? (and |& )?math(ematics)?\b/i },
+];
+
+const FIRST_GENERATION_PATTERN = /\b(first[- ]generation|first in (their|his|her|the|his or her) (immediate )?family to (attend|go to|graduate)|neither parent (has )?(attended|graduated|completed))\b/i;
+const DISABILITY_PATTERN = /\b(disabilit(y|ies)|disabled|deaf|hard of hearing|blind|visually impaired|visual impairments?|hearing impair(ed|ments?)|learning differences?|autis(m|tic)|chronic (illness|conditions?)|dyslexi(a|c)|adhd)\b/i;
+
+/**
+ * Finds the first score for a test within a few words of its name
+ * ("SAT score of 1200", "minimum ACT of 25", "1300 SAT", "TOEFL 80+")
+ */
+function findTestScores(text: string): TestScoreRequirement[] {
+  const requirements: TestScoreRequirement[] = [];
+
+  for (const test of Object.keys(TEST_SCORE_RANGES) as StandardizedTest[]) {
+    const mention = new RegExp(`\\b${test}\\b`, 'g');
+    let match: RegExpExecArray | null;
+    let found = false;
+    let minScore: number | null = null;
+
+    // Test names are matched in capitals only; "act" and "sat" are ordinary words
+    while ((match = mention.exec(text)) !== null) {
+      found = true;
+      const { min, max } = TEST_SCORE_RANGES[test];
+      const after = text.slice(match.index + test.length, match.index + test.length + 40);
+      const before = text.slice(Math.max(0, match.index - 12), match.index);
+      const candidates = [
+        after.match(/^[^.;\d]*?(\d{1,4}(?:\.\d)?)/),
+        before.match(/(\d{1,4}(?:\.\d)?)\+?\s*(?:or (?:higher|better|above)\s*)?(?:on the\s+)?$/),
+      ];
+
+      const score = candidates
+        .map(candidate => candidate ? Number(candidate[1]) : NaN)
+        .find(value => !isNaN(value) && value >= min && value <= max);
+      if (score !== undefined) {
+        minScore = minScore === null ? score : Math.min(minScore, score);
+      }
+    }
+
+    if (found) {
+      requirements.push({ test, minScore });
+    }
+  }
+
+  return requirements;
+}
+
+function findStates(text: string, restrictionsText: string): string[] {
+  const found = new Set<string>();
+
+  for (const source of [text, restrictionsText]) {
+    STATE_NAME_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = STATE_NAME_PATTERN.exec(source)) !== null) {
+      found.add(STATES[match[1]]);
+    }
+    if (DC_PATTERN.test(source)) {
+      found.add('DC');
+    }
+  }
+
+  // Two-letter codes only count in the restrictions field, which is usually a plain list
+  for (const code of restrictionsText.match(/\b[A-Z]{2}\b/g) || []) {
+    if (STATE_CODES.has(code) && !AMBIGUOUS_STATE_CODES.has(code)) {
+      found.add(code);
+    }
+  }
+
+  return Array.from(found).sort();
+}
+
+function findMinGpa(text: string): number | null {
+  const values: number[] = [];
+
+  for (const pattern of GPA_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const value = Number(match[1]);
+      if (value > 0 && value <= 4) {
+        values.push(value);
+      }
+    }
+  }
+
+  // Several GPAs usually mean initial vs. renewal requirements; the lowest one gates applying
+  return values.length > 0 ? Math.min(...values) : null;
+}
+
+function matchAll<T>(text: string, rules: Array<{ value: T; pattern: RegExp }>): T[] {
+  return rules.filter(({ pattern }) => pattern.test(text)).map(({ value }) => value);
+}
+
+/**
+ * Extracts structured eligibility criteria from free text
+ * @param text - Eligibility text as scraped (qualifications, requirements)
+ * @param restrictionsText - Geographic restrictions, where state codes are also recognized
+ * @returns Criteria a matching service can filter on; unknown criteria are null, false or empty
+ */
+function parseEligibility(text: string | null | undefined, restrictionsText: string | null | undefined = ''): ParsedEligibility {
+  const raw = (text || '').replace(/\s+/g, ' ').trim();
+  const restrictions = (restrictionsText || '').replace(/\s+/g, ' ').trim();
+
+  return {
+    minGpa: findMinGpa(raw),
+    residencyStates: findStates(raw, restrictions),
+    citizenship: matchAll(raw, CITIZENSHIP_PATTERNS),
+    fieldsOfStudy: matchAll(raw, FIELD_OF_STUDY_PATTERNS),
+    enrollmentStatus: matchAll(raw, ENROLLMENT_PATTERNS),
+    firstGeneration: FIRST_GENERATION_PATTERN.test(raw),
+    militaryAffiliation: matchAll(raw, MILITARY_PATTERNS),
+    disability: DISABILITY_PATTERN.test(raw),
+    testScores: findTestScores(raw),
+  };
+}
+
+export const EligibilityUtils = {
+  parseEligibility,
+};
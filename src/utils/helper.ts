@@ -1,13 +1,7 @@
-import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
-export interface PageOffsetOptions {
-  baseOffset?: number;
-  useTimeBasedOffset?: boolean;
-  useDayBasedOffset?: boolean;
-}
-
 export interface CleanTextOptions {
   quotes?: boolean;
   commas?: boolean;
@@ -18,41 +12,6 @@ const SCRAPING_HEADERS = {
   'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
 };
 
-function calculatePageOffset(options: PageOffsetOptions = {}): number {
-  const {
-    baseOffset = 0,
-    useTimeBasedOffset = true,
-    useDayBasedOffset = true
-  } = options;
-
-  let offset = baseOffset;
-
-  if (useTimeBasedOffset) {
-    const now = new Date();
-    const hourOfDay = now.getHours();
-    
-    // Use different pages based on time to ensure variety
-    let timeOffset = 0;
-    if (hourOfDay < 6) timeOffset = 0;
-    else if (hourOfDay < 12) timeOffset = 1;
-    else if (hourOfDay < 18) timeOffset = 2;
-    else timeOffset = 3;
-    
-    offset += timeOffset;
-  }
-
-  if (useDayBasedOffset) {
-    const now = new Date();
-    const dayOfWeek = now.getDay();
-    
-    // Add some randomization based on day of week
-    const dayOffset = dayOfWeek * 2;
-    offset += dayOffset;
-  }
-
-  return offset;
-}
-
 function buildPageUrl(baseUrl: string, pageOffset: number): string {
   if (pageOffset > 0) {
     return `${baseUrl}?page=${pageOffset}`;
@@ -60,6 +19,10 @@ function buildPageUrl(baseUrl: string, pageOffset: number): string {
   return baseUrl;
 }
 
+/**
+ * Retries any failing operation. HTTP requests should go through httpClient instead,
+ * which only retries transient failures.
+ */
 async function withRetry<T>(operation: () => Promise<T>, retries: number): Promise<T> {
   try {
     return await operation();
@@ -90,124 +53,6 @@ async function withRetry<T>(operation: () => Promise<T>, retries: number): Promi
   }
 }
 
-
-
-function formatDeadline(deadline: string): string {
-  if (!deadline || deadline.toLowerCase().includes('no deadline') || deadline.toLowerCase().includes('rolling')) {
-    return deadline;
-  }
-  
-  const currentYear = new Date().getFullYear();
-  
-  // Check if deadline already has a year (4 digits)
-  if (/\d{4}/.test(deadline)) {
-    return deadline;
-  }
-  
-  // TODO: Make this locale aware
-  const monthPatterns = [
-    /(january|jan)\s+(\d{1,2})/i,
-    /(february|feb)\s+(\d{1,2})/i,
-    /(march|mar)\s+(\d{1,2})/i,
-    /(april|apr)\s+(\d{1,2})/i,
-    /(may)\s+(\d{1,2})/i,
-    /(june|jun)\s+(\d{1,2})/i,
-    /(july|jul)\s+(\d{1,2})/i,
-    /(august|aug)\s+(\d{1,2})/i,
-    /(september|sept?)\s+(\d{1,2})/i,
-    /(october|oct)\s+(\d{1,2})/i,
-    /(november|nov)\s+(\d{1,2})/i,
-    /(december|dec)\s+(\d{1,2})/i
-  ];
-  
-  // Check for month + day patterns
-  for (const pattern of monthPatterns) {
-    const match = deadline.match(pattern);
-    if (match) {
-      const month = match[1];
-      const day = match[2];
-      return `${month} ${day}, ${currentYear}`;
-    }
-  }
-  
-  // Check for just month patterns
-  const justMonthPatterns = [
-    /^(january|jan)$/i,
-    /^(february|feb)$/i,
-    /^(march|mar)$/i,
-    /^(april|apr)$/i,
-    /^(may)$/i,
-    /^(june|jun)$/i,
-    /^(july|jul)$/i,
-    /^(august|aug)$/i,
-    /^(september|sept?)$/i,
-    /^(october|oct)$/i,
-    /^(november|nov)$/i,
-    /^(december|dec)$/i
-  ];
-  
-  for (const pattern of justMonthPatterns) {
-    if (pattern.test(deadline.trim())) {
-      return `${deadline.trim()}, ${currentYear}`;
-    }
-  }
-  
-  // Check for MM/DD patterns
-  const mmddPattern = /^(\d{1,2})\/(\d{1,2})$/;
-  const mmddMatch = deadline.match(mmddPattern);
-  if (mmddMatch) {
-    const month = parseInt(mmddMatch[1]);
-    const day = parseInt(mmddMatch[2]);
-    const monthNames = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      return `${monthNames[month - 1]} ${day}, ${currentYear}`;
-    }
-  }
-  
-  return deadline;
-}
-
-function isDeadlineExpired(deadline: string): boolean {
-  if (!deadline) {
-    return false; // No deadline means not expired
-  }
-
-  const deadlineLower = deadline.toLowerCase();
-  
-  // Skip validation for rolling deadlines or no deadline specified
-  if (deadlineLower.includes('rolling') || 
-      deadlineLower.includes('no deadline') || 
-      deadlineLower.includes('ongoing') ||
-      deadlineLower.includes('continuous') ||
-      deadlineLower.includes('open')) {
-    return false;
-  }
-
-  try {
-    // Parse the deadline date
-    const deadlineDate = new Date(deadline);
-    
-    // Check if the date is valid
-    if (isNaN(deadlineDate.getTime())) {
-      console.warn(`Invalid deadline format: ${deadline}`);
-      return false; // Don't filter out invalid dates, let them pass through
-    }
-
-    // Compare with current date (end of day for deadline)
-    const now = new Date();
-    const deadlineEndOfDay = new Date(deadlineDate);
-    deadlineEndOfDay.setHours(23, 59, 59, 999); // End of the deadline day
-
-    return deadlineEndOfDay < now;
-  } catch (error) {
-    console.warn(`Error parsing deadline "${deadline}":`, error);
-    return false; // Don't filter out unparseable dates, let them pass through
-  }
-}
-
 export interface CleanTextOptions {
   quotes?: boolean;
   commas?: boolean;
@@ -243,34 +88,6 @@ function cleanText(text: string | undefined | null, options: CleanTextOptions =
   return cleaned.trim();
 }
 
-/**
- * Cleans amount fields by removing currency symbols, commas, and other formatting
- * @param text - The amount text to clean
- * @returns Cleaned amount text
- */
-function cleanAmount(text: string): string {
-  if (!text) return '';
-  
-  let cleaned = text;
-  
-  // Remove currency symbols: $, £, €, ¥, ₹, ₽, ₩, ₪, ₦, ₨, ₫, ₱, ₲, ₴, ₵, ₸, ₺, ₻, ₼, ₽, ₾, ₿
-  cleaned = cleaned.replace(/[\$£€¥₹₽₩₪₦₨₫₱₲₴₵₸₺₻₼₽₾₿]/g, '');
-  
-  // Remove commas from numbers
-  cleaned = cleaned.replace(/,/g, '');
-  
-  // Remove quotes
-  cleaned = cleaned.replace(/['"]/g, '');
-  
-  // Remove common words that aren't amounts
-  cleaned = cleaned.replace(/\b(amount|varies|not specified|tbd|to be determined)\b/gi, '');
-  
-  // Clean up extra whitespace
-  cleaned = cleaned.replace(/\s+/g, ' ').trim();
-  
-  return cleaned;
-}
-
 /**
  * Checks if an error is a timeout error
  * @param error - The error to check
@@ -343,55 +160,6 @@ function determineTargetType(text: string): string {
   }
 }
 
-/**
- * Extracts academic level keywords from text and returns them as a comma-separated string
- * @param text - The text to analyze
- * @returns Comma-separated string of academic level keywords found
- */
-function extractAcademicLevel(text: string): string {
-  if (!text) return '';
-  
-  const lowerText = text.toLowerCase();
-  const academicKeywords: string[] = [];
-  
-  if (lowerText.includes('undergraduate') || lowerText.includes('undergrad')) {
-    academicKeywords.push('undergraduate');
-  }
-  
-  if (lowerText.includes('graduate') || lowerText.includes('grad')) {
-    academicKeywords.push('graduate');
-  }
-  if (lowerText.includes('masters') || lowerText.includes('master') || lowerText.includes('ms') || lowerText.includes('ma')) {
-    academicKeywords.push('masters');
-  }
-  if (lowerText.includes('doctorate') || lowerText.includes('doctoral') || lowerText.includes('phd') || lowerText.includes('ph.d')) {
-    academicKeywords.push('doctorate');
-  }
-  if (lowerText.includes('freshman') || lowerText.includes('first year')) {
-    academicKeywords.push('freshman');
-  }
-  if (lowerText.includes('sophomore') || lowerText.includes('second year')) {
-    academicKeywords.push('sophomore');
-  }
-  if (lowerText.includes('junior') || lowerText.includes('third year')) {
-    academicKeywords.push('junior');
-  }
-  if (lowerText.includes('senior') || lowerText.includes('fourth year')) {
-    academicKeywords.push('senior');
-  }
-  if (lowerText.includes('high school') || lowerText.includes('secondary school')) {
-    academicKeywords.push('high school');
-  }
-  if (lowerText.includes('college') && !lowerText.includes('graduate')) {
-    academicKeywords.push('college');
-  }
-  if (lowerText.includes('university') && !lowerText.includes('graduate')) {
-    academicKeywords.push('university');
-  }
-  
-  return academicKeywords.join(', ');
-}
-
 /**
  * Extracts ethnicity keywords from text and returns them as a comma-separated string
  * @param text - The text to analyze
@@ -522,11 +290,59 @@ function truncateText(text: string, maxLength: number): string {
 }
 
 /**
- * Creates a unique scholarship ID
- * @returns A unique string identifier for scholarships
+ * Normalizes a name or organization for fingerprinting: lowercases, strips
+ * accents and punctuation, drops a leading "the" and collapses whitespace
+ * @param text - The text to normalize
+ * @returns Normalized text
+ */
+function normalizeForFingerprint(text: string | undefined | null): string {
+  if (!text) return '';
+
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/^the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extracts the host of a URL without a leading "www."
+ * @param url - The URL to parse
+ * @returns Lowercase host, or an empty string if the URL is invalid
  */
-function createScholarshipId(): string {
-  return uuidv4();
+function extractHost(url: string | undefined | null): string {
+  if (!url) return '';
+
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Creates a stable content-based scholarship fingerprint so the same award
+ * gets the same identity on every run
+ * @param name - Scholarship name
+ * @param organization - Sponsoring organization
+ * @param url - Scholarship page URL (only the host is used)
+ * @returns SHA-256 hex digest of the normalized name, organization and host
+ */
+function createScholarshipFingerprint(
+  name: string | undefined | null,
+  organization: string | undefined | null,
+  url: string | undefined | null
+): string {
+  const content = [
+    normalizeForFingerprint(name),
+    normalizeForFingerprint(organization),
+    extractHost(url),
+  ].join('|');
+  return createHash('sha256').update(content).digest('hex');
 }
 
 /**
@@ -539,17 +355,6 @@ function ensureNonEmptyString(value: string | undefined | null, defaultValue: st
   return value && value.trim() !== '' ? value.trim() : defaultValue;
 } 
 
-/**
- * Cleans academic level text by removing the word 'study' (case-insensitive) and converting to lowercase
- * @param text - The academic level text to clean
- * @returns Cleaned academic level text in lowercase, or undefined if empty
- */
-function cleanAcademicLevel(text: string): string | undefined {
-  if (!text) return undefined;
-  const cleaned = text.replace(/study/gi, '').replace(/\s+/g, ' ').trim().toLowerCase();
-  return cleaned || undefined;
-}
-
 /**
  * Loads a JSON configuration file from the cdk/config directory
  * @param filename - The name of the JSON file (e.g., 'environments.json', 'tags.json')
@@ -657,14 +462,11 @@ function mergeConfigs(baseConfig: any, environmentConfig: any): any {
 // Export grouped utilities
 export const ScholarshipUtils = {
   determineTargetType,
-  extractAcademicLevel,
   extractEthnicity,
   extractGender,
-  createScholarshipId,
-  cleanAcademicLevel,
-  cleanAmount,
-  formatDeadline,
-  isDeadlineExpired
+  createScholarshipFingerprint,
+  normalizeForFingerprint,
+  extractHost
 };
 
 export const TextUtils = {
@@ -690,7 +492,6 @@ export const ConfigUtils = {
 };
 
 export const ScrapingUtils = {
-  calculatePageOffset,
   buildPageUrl,
   SCRAPING_HEADERS
 };
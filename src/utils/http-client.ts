@@ -0,0 +1,386 @@
+import axios, { AxiosError } from 'axios';
+import {
+  REQUEST_TIMEOUT_MS,
+  MAX_RETRY_ATTEMPTS,
+  RETRY_DELAY_MS,
+  HTTP_MAX_RETRY_DELAY_MS,
+  HTTP_MAX_RESPONSE_BYTES,
+  HTTP_HOST_MIN_INTERVAL_MS,
+  SCRAPING_HEADERS,
+  USER_AGENT,
+  APP_DEBUG
+} from './constants';
+import { ConfigUtils } from './helper';
+import { SearchConfig } from './config';
+import { RobotsTxtCache } from './robots-txt';
+import { PageRenderer, RenderOptions } from './page-renderer';
+
+// Statuses worth another attempt; anything else (e.g. 404) is returned as is
+export const TRANSIENT_STATUSES = [408, 425, 429, 500, 502, 503, 504] as const;
+
+// Network failures worth another attempt
+const TRANSIENT_ERROR_CODES = ['ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ERR_CANCELED'];
+
+export type HttpMethod = 'GET' | 'POST';
+
+export interface HttpRequestOptions {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number; // Per attempt, including reading the body
+  maxBytes?: number; // Larger responses fail without a retry
+  maxRetries?: number; // Attempts after the first
+  render?: RenderOptions | null; // Load the page in headless Chromium and return its final DOM
+  respectRobots?: boolean; // Check the host's robots.txt first (default); off for API calls, which it doesn't govern
+}
+
+export interface HttpRequestMetrics {
+  method: HttpMethod;
+  url: string;
+  host: string;
+  status: number | null; // Null when no response arrived
+  attempts: number;
+  bytes: number;
+  durationMs: number; // Whole request, including waits
+  waitMs: number; // Time spent waiting on the host's rate limit and on backoff
+  blocked: boolean; // Refused by the host's robots.txt; no request was sent
+  rendered: boolean; // Loaded in headless Chromium
+  error: string | null;
+}
+
+export interface HttpResponse {
+  url: string; // Final URL after redirects
+  status: number;
+  ok: boolean;
+  headers: Record<string, string>;
+  body: string;
+  metrics: HttpRequestMetrics;
+}
+
+export type HttpMetricsListener = (metrics: HttpRequestMetrics) => void;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads a Retry-After header, given either as seconds or as an HTTP date
+ * @returns Milliseconds to wait, or null when the header is absent or unreadable
+ */
+function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * base * 2^(attempt - 1), capped at maxDelay
+ */
+function backoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function isTransientError(error: unknown): boolean {
+  // Puppeteer reports navigation and selector timeouts as a TimeoutError
+  if ((error as Error)?.name === 'TimeoutError') {
+    return true;
+  }
+  const code = (error as AxiosError)?.code;
+  return code !== undefined && TRANSIENT_ERROR_CODES.includes(code);
+}
+
+function formatMetrics(metrics: HttpRequestMetrics): string {
+  if (metrics.blocked) {
+    return `🤖 ${metrics.method} ${metrics.url} -> blocked by robots.txt`;
+  }
+  const outcome = metrics.status !== null ? String(metrics.status) : `failed (${metrics.error})`;
+  const retries = metrics.attempts > 1 ? `, ${metrics.attempts} attempts` : '';
+  const rendered = metrics.rendered ? ', rendered' : '';
+  return `🌐 ${metrics.method} ${metrics.url} -> ${outcome} in ${metrics.durationMs}ms (${metrics.bytes} bytes${retries}${rendered})`;
+}
+
+/**
+ * HTTP client shared by every scraper, so politeness holds across scrapers running
+ * in the same process: requests to a host are spaced by that host's minimum interval,
+ * transient failures are retried with backoff (honoring Retry-After), and every
+ * request reports its metrics to the registered listeners.
+ */
+export class HttpClient {
+  private hostIntervals = new Map<string, number>();
+  private nextSlots = new Map<string, number>();
+  private listeners: HttpMetricsListener[] = [];
+  private robots: RobotsTxtCache | null = null;
+  private renderer = new PageRenderer();
+
+  /**
+   * Makes every page fetch check its host's robots.txt first. Disallowed URLs fail
+   * without being requested, and a Crawl-delay slows the host's rate limit.
+   * Requests made with respectRobots: false (API calls) skip the check.
+   * @param userAgent - User agent whose product token selects the robots.txt group
+   */
+  enableRobotsTxt(userAgent: string): void {
+    this.robots = new RobotsTxtCache(async url => {
+      const response = await this.request(url, { maxRetries: 1 });
+      return { status: response.status, body: response.body };
+    }, userAgent);
+  }
+
+  /**
+   * Sets the minimum time between requests to a host
+   * @param host - Hostname, e.g. www.careeronestop.org
+   * @param intervalMs - Minimum milliseconds between the start of two requests
+   */
+  setHostInterval(host: string, intervalMs: number): void {
+    this.hostIntervals.set(host.toLowerCase(), intervalMs);
+  }
+
+  getHostInterval(host: string): number {
+    return this.hostIntervals.get(host.toLowerCase()) ?? HTTP_HOST_MIN_INTERVAL_MS;
+  }
+
+  /**
+   * Registers a listener called with the metrics of every request
+   * @returns A function that removes the listener
+   */
+  onMetrics(listener: HttpMetricsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(registered => registered !== listener);
+    };
+  }
+
+  /**
+   * Sends a request, retrying network failures and transient statuses. Non-transient
+   * error statuses (e.g. 404) are returned rather than thrown.
+   * @throws When no response arrives after every attempt, or the body exceeds maxBytes
+   */
+  async request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    const {
+      method = 'GET',
+      headers = {},
+      body,
+      timeoutMs = REQUEST_TIMEOUT_MS,
+      maxBytes = HTTP_MAX_RESPONSE_BYTES,
+      maxRetries = MAX_RETRY_ATTEMPTS,
+      render = null,
+      respectRobots = true,
+    } = options;
+    const host = new URL(url).hostname.toLowerCase();
+    const startedAt = Date.now();
+    const metrics: HttpRequestMetrics = {
+      method, url, host, status: null, attempts: 0, bytes: 0, durationMs: 0, waitMs: 0, blocked: false, rendered: render !== null, error: null,
+    };
+
+    try {
+      if (render && method !== 'GET') {
+        throw new Error(`Only GET requests can be rendered: ${method} ${url}`);
+      }
+
+      if (this.robots && respectRobots && new URL(url).pathname !== '/robots.txt') {
+        await this.checkRobotsTxt(url, host, metrics);
+      }
+
+      for (;;) {
+        metrics.attempts++;
+        metrics.waitMs += await this.waitForHost(host);
+
+        let retryDelay: number;
+        try {
+          const requestHeaders = { ...SCRAPING_HEADERS, ...headers };
+          const response = render
+            ? await this.renderer.render(url, { ...render, headers: requestHeaders, timeoutMs })
+            : await this.send(url, method, requestHeaders, body, timeoutMs, maxBytes);
+
+          metrics.status = response.status;
+          metrics.bytes = Buffer.byteLength(response.body);
+          if (render && metrics.bytes > maxBytes) {
+            throw new Error(`Rendered page of ${metrics.bytes} bytes exceeds the ${maxBytes} byte limit: ${url}`);
+          }
+
+          const transient = (TRANSIENT_STATUSES as readonly number[]).includes(response.status);
+          if (!transient || metrics.attempts > maxRetries) {
+            return {
+              ...response,
+              ok: response.status >= 200 && response.status < 300,
+              metrics,
+            };
+          }
+
+          const retryAfter = parseRetryAfter(response.headers['retry-after']);
+          retryDelay = Math.min(
+            retryAfter ?? backoffDelay(metrics.attempts, RETRY_DELAY_MS, HTTP_MAX_RETRY_DELAY_MS),
+            HTTP_MAX_RETRY_DELAY_MS
+          );
+          if (retryAfter !== null) {
+            // The host asked every client to back off, not just this request
+            this.deferHost(host, retryDelay);
+          }
+          console.log(`Retrying ${url} after HTTP ${response.status} in ${retryDelay}ms`);
+        } catch (error) {
+          if (!isTransientError(error) || metrics.attempts > maxRetries) {
+            throw error;
+          }
+          retryDelay = backoffDelay(metrics.attempts, RETRY_DELAY_MS, HTTP_MAX_RETRY_DELAY_MS);
+          console.log(`Retrying ${url} after ${error instanceof Error ? error.message : error} in ${retryDelay}ms`);
+        }
+
+        await sleep(retryDelay);
+        metrics.waitMs += retryDelay;
+      }
+    } catch (error) {
+      metrics.status = null;
+      metrics.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      metrics.durationMs = Date.now() - startedAt;
+      this.emit(metrics);
+    }
+  }
+
+  /**
+   * Fetches a page's body, the drop-in for axios.get in scrapers
+   * @throws When the final response is not a 2xx
+   */
+  async fetchText(url: string, options: HttpRequestOptions = {}): Promise<string> {
+    const response = await this.request(url, options);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+    return response.body;
+  }
+
+  /**
+   * Sends a request and parses the JSON response
+   * @throws When the final response is not a 2xx or the body isn't JSON
+   */
+  async fetchJson<T = any>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+    const body = await this.fetchText(url, {
+      ...options,
+      headers: { Accept: 'application/json', ...options.headers },
+    });
+    return JSON.parse(body) as T;
+  }
+
+  /**
+   * Shuts down the headless browser, if a rendered request started one
+   */
+  async close(): Promise<void> {
+    await this.renderer.close();
+  }
+
+  /**
+   * Sends one plain HTTP request. Every status is returned; only network failures throw.
+   */
+  private async send(
+    url: string,
+    method: HttpMethod,
+    headers: Record<string, string>,
+    body: string | undefined,
+    timeoutMs: number,
+    maxBytes: number
+  ): Promise<Omit<HttpResponse, 'ok' | 'metrics'>> {
+    const response = await axios.request<string>({
+      url,
+      method,
+      data: body,
+      headers,
+      timeout: timeoutMs,
+      signal: AbortSignal.timeout(timeoutMs),
+      maxContentLength: maxBytes,
+      responseType: 'text',
+      transformResponse: data => data,
+      validateStatus: () => true,
+    });
+
+    return {
+      url: response.request?.res?.responseUrl || url,
+      status: response.status,
+      headers: Object.fromEntries(
+        Object.entries(response.headers).map(([name, value]) => [name.toLowerCase(), String(value)])
+      ),
+      body: response.data ?? '',
+    };
+  }
+
+  /**
+   * @throws When the host's robots.txt disallows the URL
+   */
+  private async checkRobotsTxt(url: string, host: string, metrics: HttpRequestMetrics): Promise<void> {
+    const robots = this.robots!;
+    const { crawlDelaySeconds } = await robots.policyFor(url);
+    if (crawlDelaySeconds !== null && crawlDelaySeconds * 1000 > this.getHostInterval(host)) {
+      this.setHostInterval(host, crawlDelaySeconds * 1000);
+    }
+
+    if (!(await robots.isAllowed(url))) {
+      metrics.blocked = true;
+      throw new Error(`Blocked by robots.txt: ${url}`);
+    }
+  }
+
+  /**
+   * Reserves the host's next free slot and waits for it, so concurrent callers
+   * are spaced out rather than all released at once
+   * @returns Milliseconds waited
+   */
+  private async waitForHost(host: string): Promise<number> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlots.get(host) ?? 0);
+    this.nextSlots.set(host, slot + this.getHostInterval(host));
+
+    const wait = slot - now;
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    return wait;
+  }
+
+  private deferHost(host: string, delayMs: number): void {
+    const until = Date.now() + delayMs;
+    this.nextSlots.set(host, Math.max(this.nextSlots.get(host) ?? 0, until));
+  }
+
+  private emit(metrics: HttpRequestMetrics): void {
+    // Failed and blocked requests are always logged; every request only with APP_DEBUG
+    if (APP_DEBUG || metrics.error !== null) {
+      console.log(formatMetrics(metrics));
+    }
+    this.listeners.forEach(listener => {
+      try {
+        listener(metrics);
+      } catch (error) {
+        console.error('Error in HTTP metrics listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Builds the shared client from scraper-config.json: robots.txt is enforced for the
+ * configured user agent unless searchConfig.respectRobotsTxt is false
+ */
+function createHttpClientFromConfig(): HttpClient {
+  const client = new HttpClient();
+
+  let searchConfig: Partial<SearchConfig> = {};
+  try {
+    searchConfig = ConfigUtils.loadConfigFile('scraper-config.json').searchConfig || {};
+  } catch (error) {
+    console.warn('Could not load searchConfig, respecting robots.txt by default');
+  }
+
+  if (searchConfig.respectRobotsTxt !== false) {
+    client.enableRobotsTxt(searchConfig.userAgent || USER_AGENT);
+  }
+  return client;
+}
+
+// The client every scraper shares
+export const httpClient = createHttpClientFromConfig();
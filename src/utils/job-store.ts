@@ -0,0 +1,392 @@
+import { DynamoDBClient, ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { ScrapingJob, ScrapingJobStatus } from './types';
+import { MySQLDatabase, createDatabaseFromEnv } from './mysql-config';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface JobQueryFilter {
+  website?: string;
+  status?: ScrapingJobStatus;
+  since?: string; // ISO date string, inclusive
+  until?: string; // ISO date string, inclusive
+  limit?: number;
+}
+
+export interface JobStore {
+  saveJob(job: ScrapingJob): Promise<void>;
+  /**
+   * Saves the job only if the stored copy still has the job's revision, i.e. nobody
+   * wrote it since it was read
+   * @returns False when another write got there first
+   */
+  saveJobIfUnchanged(job: ScrapingJob): Promise<boolean>;
+  getJob(jobId: string): Promise<ScrapingJob | null>;
+  listJobs(filter?: JobQueryFilter): Promise<ScrapingJob[]>;
+}
+
+const DEFAULT_JOB_QUERY_LIMIT = 50;
+
+// Concurrent roll-ups of one parent retry on conflict; each retry re-reads the children
+const ROLL_UP_MAX_ATTEMPTS = 5;
+
+function matchesFilter(job: ScrapingJob, filter: JobQueryFilter): boolean {
+  if (filter.website && job.website !== filter.website) return false;
+  if (filter.status && job.status !== filter.status) return false;
+  if (filter.since && job.startTime < new Date(filter.since).toISOString()) return false;
+  if (filter.until && job.startTime > new Date(filter.until).toISOString()) return false;
+  return true;
+}
+
+function newestFirst(jobs: ScrapingJob[], limit: number): ScrapingJob[] {
+  return jobs.sort((a, b) => b.startTime.localeCompare(a.startTime)).slice(0, limit);
+}
+
+/**
+ * Jobs store backed by the DynamoDB jobs table (partition key jobId, sort key startTime)
+ */
+export class DynamoDBJobStore implements JobStore {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor(tableName: string, client?: DynamoDBDocumentClient) {
+    this.tableName = tableName;
+    this.client = client || DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+  }
+
+  async saveJob(job: ScrapingJob): Promise<void> {
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { ...job, revision: uuidv4() },
+    }));
+  }
+
+  async saveJobIfUnchanged(job: ScrapingJob): Promise<boolean> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: { ...job, revision: uuidv4() },
+        // Jobs written before revisions existed have none
+        ConditionExpression: job.revision ? 'revision = :revision' : 'attribute_not_exists(revision)',
+        ExpressionAttributeValues: job.revision ? { ':revision': job.revision } : undefined,
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getJob(jobId: string): Promise<ScrapingJob | null> {
+    const response = await this.client.send(new QueryCommand({
+      TableName: this.tableName,
+      KeyConditionExpression: 'jobId = :jobId',
+      ExpressionAttributeValues: { ':jobId': jobId },
+      ScanIndexForward: false,
+      Limit: 1,
+    }));
+
+    return (response.Items?.[0] as ScrapingJob) || null;
+  }
+
+  async listJobs(filter: JobQueryFilter = {}): Promise<ScrapingJob[]> {
+    // The jobs table has no secondary indexes, so filter during a scan
+    const jobs: ScrapingJob[] = [];
+    let lastEvaluatedKey: Record<string, any> | undefined = undefined;
+
+    do {
+      const response: any = await this.client.send(new ScanCommand({
+        TableName: this.tableName,
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+      jobs.push(...((response.Items || []) as ScrapingJob[]).filter(job => matchesFilter(job, filter)));
+      lastEvaluatedKey = response.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return newestFirst(jobs, filter.limit || DEFAULT_JOB_QUERY_LIMIT);
+  }
+}
+
+/**
+ * Jobs store backed by the MySQL scraping_jobs table, for local runs
+ */
+export class MySQLJobStore implements JobStore {
+  private db: MySQLDatabase;
+
+  constructor(db: MySQLDatabase) {
+    this.db = db;
+  }
+
+  async saveJob(job: ScrapingJob): Promise<void> {
+    const sql = `
+      INSERT INTO scraping_jobs (
+        job_id, parent_job_id, website, status, start_time, end_time,
+        records_found, records_processed, records_inserted, records_updated, records_unchanged,
+        errors, child_job_ids, environment, revision
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        status = VALUES(status),
+        end_time = VALUES(end_time),
+        records_found = VALUES(records_found),
+        records_processed = VALUES(records_processed),
+        records_inserted = VALUES(records_inserted),
+        records_updated = VALUES(records_updated),
+        records_unchanged = VALUES(records_unchanged),
+        errors = VALUES(errors),
+        child_job_ids = VALUES(child_job_ids),
+        revision = VALUES(revision)
+    `;
+
+    await this.db.query(sql, [
+      job.jobId,
+      job.parentJobId || null,
+      job.website,
+      job.status,
+      new Date(job.startTime),
+      job.endTime ? new Date(job.endTime) : null,
+      job.recordsFound,
+      job.recordsProcessed,
+      job.recordsInserted,
+      job.recordsUpdated,
+      job.recordsUnchanged,
+      JSON.stringify(job.errors),
+      job.childJobIds ? JSON.stringify(job.childJobIds) : null,
+      job.environment,
+      uuidv4(),
+    ]);
+  }
+
+  async saveJobIfUnchanged(job: ScrapingJob): Promise<boolean> {
+    // <=> also matches jobs written before revisions existed, whose revision is NULL
+    const result = await this.db.query(
+      `UPDATE scraping_jobs SET
+        status = ?, end_time = ?, records_found = ?, records_processed = ?, records_inserted = ?,
+        records_updated = ?, records_unchanged = ?, errors = ?, child_job_ids = ?, revision = ?
+       WHERE job_id = ? AND revision <=> ?`,
+      [
+        job.status,
+        job.endTime ? new Date(job.endTime) : null,
+        job.recordsFound,
+        job.recordsProcessed,
+        job.recordsInserted,
+        job.recordsUpdated,
+        job.recordsUnchanged,
+        JSON.stringify(job.errors),
+        job.childJobIds ? JSON.stringify(job.childJobIds) : null,
+        uuidv4(),
+        job.jobId,
+        job.revision ?? null,
+      ]
+    );
+    return (result as any).affectedRows > 0;
+  }
+
+  async getJob(jobId: string): Promise<ScrapingJob | null> {
+    const row = await this.db.queryOne('SELECT * FROM scraping_jobs WHERE job_id = ?', [jobId]);
+    return row ? MySQLJobStore.fromRow(row) : null;
+  }
+
+  async listJobs(filter: JobQueryFilter = {}): Promise<ScrapingJob[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.website) {
+      conditions.push('website = ?');
+      params.push(filter.website);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.since) {
+      conditions.push('start_time >= ?');
+      params.push(new Date(filter.since));
+    }
+    if (filter.until) {
+      conditions.push('start_time <= ?');
+      params.push(new Date(filter.until));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.max(1, Math.floor(filter.limit || DEFAULT_JOB_QUERY_LIMIT));
+    const rows = await this.db.query(
+      `SELECT * FROM scraping_jobs ${where} ORDER BY start_time DESC LIMIT ${limit}`,
+      params
+    );
+    return rows.map(row => MySQLJobStore.fromRow(row));
+  }
+
+  static fromRow(row: any): ScrapingJob {
+    const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+    return {
+      jobId: row.job_id,
+      parentJobId: row.parent_job_id || undefined,
+      childJobIds: row.child_job_ids ? parseJson(row.child_job_ids) : undefined,
+      startTime: new Date(row.start_time).toISOString(),
+      endTime: row.end_time ? new Date(row.end_time).toISOString() : undefined,
+      status: row.status,
+      website: row.website,
+      recordsFound: row.records_found,
+      recordsProcessed: row.records_processed,
+      recordsInserted: row.records_inserted,
+      recordsUpdated: row.records_updated,
+      recordsUnchanged: row.records_unchanged,
+      errors: row.errors ? parseJson(row.errors) : [],
+      environment: row.environment,
+      revision: row.revision || undefined,
+    };
+  }
+}
+
+/**
+ * Jobs store kept in process memory, for tests and dry runs
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, ScrapingJob>();
+
+  async saveJob(job: ScrapingJob): Promise<void> {
+    this.jobs.set(job.jobId, { ...job, errors: [...job.errors], revision: uuidv4() });
+  }
+
+  async saveJobIfUnchanged(job: ScrapingJob): Promise<boolean> {
+    if (this.jobs.get(job.jobId)?.revision !== job.revision) {
+      return false;
+    }
+    await this.saveJob(job);
+    return true;
+  }
+
+  async getJob(jobId: string): Promise<ScrapingJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async listJobs(filter: JobQueryFilter = {}): Promise<ScrapingJob[]> {
+    const jobs = Array.from(this.jobs.values())
+      .filter(job => matchesFilter(job, filter))
+      .map(job => ({ ...job }));
+    return newestFirst(jobs, filter.limit || DEFAULT_JOB_QUERY_LIMIT);
+  }
+}
+
+export interface JobStoreOptions {
+  jobsTable?: string;
+  db?: MySQLDatabase;
+}
+
+/**
+ * Creates the jobs store selected by JOB_STORE ('dynamodb', 'mysql' or 'memory').
+ * Defaults to DynamoDB when a jobs table is configured.
+ */
+export async function createJobStoreFromEnv(options: JobStoreOptions = {}): Promise<JobStore> {
+  const jobsTable = options.jobsTable || process.env.JOBS_TABLE;
+  const storeType = process.env.JOB_STORE || (jobsTable ? 'dynamodb' : 'memory');
+
+  switch (storeType) {
+    case 'dynamodb':
+      if (!jobsTable) {
+        throw new Error('JOB_STORE=dynamodb requires JOBS_TABLE to be set');
+      }
+      return new DynamoDBJobStore(jobsTable);
+
+    case 'mysql': {
+      const db = options.db || await createDatabaseFromEnv();
+      return new MySQLJobStore(db);
+    }
+
+    case 'memory':
+      console.warn('⚠️  Using in-memory job store, job status will not be persisted');
+      return new InMemoryJobStore();
+
+    default:
+      throw new Error(`Unknown JOB_STORE: ${storeType}. Expected dynamodb, mysql or memory`);
+  }
+}
+
+/**
+ * Recomputes an orchestrator job from its per-website child jobs. Once every
+ * child has finished, the parent is marked completed (or failed if any child
+ * failed) with summed counts and the children's errors.
+ *
+ * Children finishing together roll up the same parent concurrently, so the parent
+ * is only written if it is unchanged since it was read; otherwise the roll-up is redone.
+ */
+export async function rollUpParentJob(store: JobStore, parentJobId: string): Promise<ScrapingJob | null> {
+  for (let attempt = 1; attempt <= ROLL_UP_MAX_ATTEMPTS; attempt++) {
+    const parent = await store.getJob(parentJobId);
+    if (!parent || !parent.childJobIds || parent.childJobIds.length === 0) {
+      return parent;
+    }
+
+    const rolledUp = await computeRollUp(store, parent, parent.childJobIds);
+    if (await store.saveJobIfUnchanged(rolledUp)) {
+      return rolledUp;
+    }
+    console.log(`Parent job ${parentJobId} changed during roll-up, retrying (attempt ${attempt}/${ROLL_UP_MAX_ATTEMPTS})`);
+  }
+
+  throw new Error(`Could not roll up parent job ${parentJobId} after ${ROLL_UP_MAX_ATTEMPTS} conflicting writes`);
+}
+
+/**
+ * Sums a parent's children into a copy of the parent; the copy keeps the parent's revision
+ */
+async function computeRollUp(store: JobStore, parent: ScrapingJob, childJobIds: string[]): Promise<ScrapingJob> {
+  const children = await Promise.all(childJobIds.map(childJobId => store.getJob(childJobId)));
+  const started = children.filter((child): child is ScrapingJob => child !== null);
+  const finished = started.filter(child => child.status === 'completed' || child.status === 'failed');
+
+  const rolledUp: ScrapingJob = {
+    ...parent,
+    recordsFound: started.reduce((sum, child) => sum + child.recordsFound, 0),
+    recordsProcessed: started.reduce((sum, child) => sum + child.recordsProcessed, 0),
+    recordsInserted: started.reduce((sum, child) => sum + child.recordsInserted, 0),
+    recordsUpdated: started.reduce((sum, child) => sum + child.recordsUpdated, 0),
+    recordsUnchanged: started.reduce((sum, child) => sum + (child.recordsUnchanged || 0), 0),
+    errors: [
+      ...parent.errors.filter(error => !started.some(child => error.startsWith(`[${child.website}]`))),
+      ...started.flatMap(child => child.errors.map(error => `[${child.website}] ${error}`)),
+    ],
+  };
+
+  if (finished.length === childJobIds.length) {
+    rolledUp.status = finished.some(child => child.status === 'failed') ? 'failed' : 'completed';
+    rolledUp.endTime = finished.map(child => child.endTime || '').sort().pop() || new Date().toISOString();
+  } else if (started.length > 0) {
+    rolledUp.status = 'running';
+  }
+
+  return rolledUp;
+}
+
+export interface ScrapingJobSummary extends ScrapingJob {
+  durationSeconds: number | null;
+  errorCount: number;
+}
+
+/**
+ * Lists recent scraping jobs with per-job metrics, newest first
+ * @param filter - Optional website, status and start time filters
+ * @param store - Jobs store to query; defaults to the store selected by JOB_STORE
+ * @returns Matching jobs with duration and error counts
+ */
+export async function listScrapingJobs(
+  filter: JobQueryFilter = {},
+  store?: JobStore
+): Promise<ScrapingJobSummary[]> {
+  const jobStore = store || await createJobStoreFromEnv();
+  const jobs = await jobStore.listJobs(filter);
+
+  return jobs.map(job => ({
+    ...job,
+    durationSeconds: job.endTime
+      ? Math.round((new Date(job.endTime).getTime() - new Date(job.startTime).getTime()) / 1000)
+      : null,
+    errorCount: job.errors.length,
+  }));
+}
@@ -0,0 +1,197 @@
+import mysql from 'mysql2/promise';
+
+/**
+ * A numbered schema change. MySQL commits DDL implicitly, so a migration that fails
+ * halfway is not rolled back; up() should be safe to re-run after fixing the cause.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(connection: mysql.Connection): Promise<void>;
+  down(connection: mysql.Connection): Promise<void>;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState; // 'missing' is applied in the database but unknown to this build
+  appliedAt: Date | null;
+  executionMs: number | null;
+}
+
+// Named lock so a local run and the Batch job can't migrate the same database at once
+const LOCK_NAME = 'schema_migrations';
+const LOCK_TIMEOUT_SECONDS = 60;
+
+/**
+ * Applies and reverts numbered migrations, recording each applied version in the
+ * schema_migrations table
+ */
+export class MigrationRunner {
+  private connection: mysql.Connection;
+  private migrations: Migration[];
+
+  /**
+   * @param connection - A dedicated connection; the migration lock is held per connection
+   * @param migrations - Every migration known to this build
+   */
+  constructor(connection: mysql.Connection, migrations: Migration[]) {
+    const versions = new Set<number>();
+    migrations.forEach(migration => {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error(`Invalid migration version ${migration.version} (${migration.name})`);
+      }
+      if (versions.has(migration.version)) {
+        throw new Error(`Duplicate migration version ${migration.version} (${migration.name})`);
+      }
+      versions.add(migration.version);
+    });
+
+    this.connection = connection;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Lists every known and applied migration in version order
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTable();
+    const applied = await this.appliedMigrations();
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: row ? 'applied' : 'pending',
+        appliedAt: row ? row.applied_at : null,
+        executionMs: row ? Number(row.execution_ms) : null,
+      };
+    });
+
+    applied.forEach((row, version) => {
+      if (!this.migrations.some(migration => migration.version === version)) {
+        statuses.push({
+          version,
+          name: row.name,
+          state: 'missing',
+          appliedAt: row.applied_at,
+          executionMs: Number(row.execution_ms),
+        });
+      }
+    });
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Applies pending migrations in version order
+   * @param targetVersion - Stop after this version (default: the latest)
+   * @returns The migrations that were applied
+   */
+  async migrate(targetVersion?: number): Promise<Migration[]> {
+    return this.withLock(async () => {
+      const applied = await this.appliedMigrations();
+      const pending = this.migrations.filter(migration =>
+        !applied.has(migration.version) && (targetVersion === undefined || migration.version <= targetVersion)
+      );
+
+      if (pending.length === 0) {
+        console.log('✅ Schema is up to date');
+        return [];
+      }
+
+      for (const migration of pending) {
+        console.log(`⬆️ Applying migration ${this.label(migration)}...`);
+        const startedAt = Date.now();
+        await migration.up(this.connection);
+        const executionMs = Date.now() - startedAt;
+
+        await this.connection.execute(
+          'INSERT INTO schema_migrations (version, name, execution_ms) VALUES (?, ?, ?)',
+          [migration.version, migration.name, executionMs]
+        );
+        console.log(`✅ Applied migration ${this.label(migration)} (${executionMs}ms)`);
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations, newest first
+   * @param steps - Number of migrations to revert
+   * @returns The migrations that were reverted
+   */
+  async rollback(steps: number = 1): Promise<Migration[]> {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`Invalid rollback steps: ${steps}`);
+    }
+
+    return this.withLock(async () => {
+      const applied = await this.appliedMigrations();
+      const versions = Array.from(applied.keys()).sort((a, b) => b - a).slice(0, steps);
+
+      if (versions.length === 0) {
+        console.log('✅ No applied migrations to roll back');
+        return [];
+      }
+
+      // Check every step up front rather than stopping partway through
+      const reverting = versions.map(version => {
+        const migration = this.migrations.find(candidate => candidate.version === version);
+        if (!migration) {
+          throw new Error(`Cannot roll back migration ${version} (${applied.get(version).name}): not in this build`);
+        }
+        return migration;
+      });
+
+      for (const migration of reverting) {
+        console.log(`⬇️ Reverting migration ${this.label(migration)}...`);
+        await migration.down(this.connection);
+        await this.connection.execute('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+        console.log(`✅ Reverted migration ${this.label(migration)}`);
+      }
+
+      return reverting;
+    });
+  }
+
+  private async withLock<T>(callback: () => Promise<T>): Promise<T> {
+    const [rows] = await this.connection.query('SELECT GET_LOCK(?, ?) AS acquired', [LOCK_NAME, LOCK_TIMEOUT_SECONDS]);
+    if (Number((rows as any[])[0]?.acquired) !== 1) {
+      throw new Error(`Timed out after ${LOCK_TIMEOUT_SECONDS}s waiting for another schema migration to finish`);
+    }
+
+    try {
+      await this.ensureTable();
+      return await callback();
+    } finally {
+      await this.connection.query('SELECT RELEASE_LOCK(?)', [LOCK_NAME]);
+    }
+  }
+
+  private async ensureTable(): Promise<void> {
+    await this.connection.execute(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        execution_ms INT NOT NULL DEFAULT 0
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  private async appliedMigrations(): Promise<Map<number, any>> {
+    const [rows] = await this.connection.execute(
+      'SELECT version, name, applied_at, execution_ms FROM schema_migrations ORDER BY version'
+    );
+    return new Map((rows as any[]).map(row => [Number(row.version), row]));
+  }
+
+  private label(migration: Migration): string {
+    return `${String(migration.version).padStart(3, '0')} ${migration.name}`;
+  }
+}
@@ -1,5 +1,12 @@
 import mysql from 'mysql2/promise';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { FieldExtractor } from './provenance-utils';
+import { DeadlineKind } from './deadline-utils';
+import { AwardPeriod } from './amount-utils';
+import { ACADEMIC_LEVELS, AcademicLevel } from './academic-level-utils';
+import { ParsedEligibility } from './eligibility-utils';
+import { SearchUtils } from './search-utils';
+import { BULK_WRITE_CHUNK_SIZE, BULK_WRITE_LOCK_ATTEMPTS } from './constants';
 
 export interface MySQLConfig {
   host: string;
@@ -19,22 +26,156 @@ export interface SecretConfig {
   ssl?: boolean;
 }
 
-// Field mapping from camelCase to snake_case for scholarships table
-const SCHOLARSHIP_FIELD_MAPPING: Record<string, string> = {
+export interface ScholarshipHistoryEntry {
+  scholarshipId: number;
+  fieldName: string;
+  previousValue: string | null;
+  newValue: string | null;
+  jobId: string;
+  source: string;
+}
+
+export interface ScholarshipHistoryRecord extends ScholarshipHistoryEntry {
+  historyId: number;
+  changedAt: Date;
+}
+
+export interface ScholarshipSourceEntry {
+  scholarshipId: number;
+  fingerprint: string;
+  source: string;
+  sourceName: string;
+  sourceUrl: string;
+  matchScore: number;
+  jobId: string;
+}
+
+export interface FieldProvenanceEntry {
+  scholarshipId: number;
+  fieldName: string;
+  extractor: FieldExtractor;
+  confidence: number;
+  source: string;
+  jobId: string;
+}
+
+export interface AcademicLevelsEntry {
+  scholarshipId: number;
+  levels: AcademicLevel[];
+}
+
+export interface EligibilityCriteriaEntry {
+  scholarshipId: number;
+  eligibility: Pick<ParsedEligibility, 'residencyStates' | 'fieldsOfStudy' | 'testScores'>;
+}
+
+export interface FullTextSearchOptions {
+  limit?: number;
+  offset?: number;
+  includeInactive?: boolean;
+}
+
+export interface FullTextSearchResult {
+  scholarshipId: number;
+  name: string;
+  organization: string | null;
+  url: string | null;
+  deadline: Date | null;
+  relevance: number;
+  snippet: string | null; // HTML-escaped, with matched terms wrapped in <mark>
+}
+
+export type BulkWriteOutcome = 'inserted' | 'updated' | 'failed';
+
+export interface BulkUpsertOptions {
+  keyColumn: string; // Unique column that identifies existing rows, e.g. fingerprint
+  idColumn: string; // Column returned for each row, e.g. scholarship_id
+  immutableColumns?: string[]; // Left as they are when the row already exists
+  updateColumns?: string[]; // Overwritten when the row already exists (default: all but the key and immutable columns)
+  existingKeys?: string[]; // Keys the caller already found stored; rows with other keys are reported as inserted
+  chunkSize?: number; // Rows per INSERT statement and transaction (default: BULK_WRITE_CHUNK_SIZE)
+}
+
+export interface BulkUpsertResult {
+  key: string;
+  id: number | null; // Null when the row's chunk failed
+  outcome: BulkWriteOutcome;
+  error?: string;
+}
+
+/**
+ * A scholarships row in camelCase, as processScholarships writes it. Scrapers build the
+ * looser shared Scholarship shape; SCHOLARSHIP_FIELD_MAPPING maps these fields to columns.
+ */
+export interface ScholarshipRecord {
+  scholarshipId: number;
+  fingerprint: string | null;
+  name: string;
+  deadline: string | Date | null;
+  deadlineType: DeadlineKind;
+  deadlineText: string | null;
+  url: string | null;
+  description: string | null;
+  eligibility: string | null;
+  organization: string | null;
+  academicLevel: string | null;
+  geographicRestrictions: string | null;
+  targetType: 'need' | 'merit' | 'both' | null;
+  ethnicity: string | null;
+  gender: string | null;
+  minAward: number | null;
+  maxAward: number | null;
+  awardVaries: boolean; // Amount depends on the recipient or wasn't given; min/max are null when unknown
+  awardCurrency: string;
+  awardPeriod: AwardPeriod;
+  nonMonetaryAwards: string; // Comma-separated SET values
+  minGpa: number | null;
+  citizenship: string; // Comma-separated SET values
+  enrollmentStatus: string; // Comma-separated SET values
+  firstGeneration: boolean;
+  militaryAffiliation: string; // Comma-separated SET values
+  disability: boolean;
+  renewable: boolean;
+  country: string | null;
+  applyUrl: string | null;
+  isActive: boolean;
+  essayRequired: boolean;
+  recommendationsRequired: boolean;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+  source: string | null;
+  jobId: string | null;
+}
+
+// Field mapping from camelCase to snake_case for scholarships table; must cover every ScholarshipRecord field
+export const SCHOLARSHIP_FIELD_MAPPING: Record<string, string> & Record<keyof ScholarshipRecord, string> = {
   scholarshipId: 'scholarship_id', // Auto-generated primary key
+  fingerprint: 'fingerprint', // Content-based identity, unique
   name: 'name',
-  deadline: 'deadline',
+  deadline: 'deadline', // DATE: fixed date or next occurrence of a recurring deadline
+  deadlineType: 'deadline_type',
+  deadlineText: 'deadline_text', // Deadline as scraped
   url: 'url',
   description: 'description',
   eligibility: 'eligibility',
   organization: 'organization',
-  academicLevel: 'academic_level',
+  academicLevel: 'academic_level', // Comma-separated levels; scholarship_academic_levels has one row per level
   geographicRestrictions: 'geographic_restrictions',
   targetType: 'target_type',
   ethnicity: 'ethnicity',
   gender: 'gender',
   minAward: 'min_award',
   maxAward: 'max_award',
+  awardVaries: 'award_varies',
+  awardCurrency: 'award_currency',
+  awardPeriod: 'award_period',
+  nonMonetaryAwards: 'non_monetary_awards', // SET of non-cash award types
+  minGpa: 'min_gpa',
+  citizenship: 'citizenship', // SET; residency states, fields of study and test scores are child tables
+  enrollmentStatus: 'enrollment_status', // SET
+  firstGeneration: 'first_generation',
+  militaryAffiliation: 'military_affiliation', // SET
+  disability: 'disability',
   renewable: 'renewable',
   country: 'country',
   applyUrl: 'apply_url',
@@ -43,9 +184,31 @@ const SCHOLARSHIP_FIELD_MAPPING: Record<string, string> = {
   recommendationsRequired: 'recommendations_required',
   createdAt: 'created_at',
   updatedAt: 'updated_at',
-  source: 'source'
+  source: 'source',
+  jobId: 'job_id' // Job that last inserted or updated the row
 };
 
+/**
+ * Table and column names are interpolated into SQL, so only plain identifiers are allowed
+ */
+function assertIdentifiers(...names: string[]): void {
+  const invalid = names.find(name => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid SQL identifier: ${invalid}`);
+  }
+}
+
+function chunked<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+// Errors InnoDB raises when a transaction loses a lock conflict and can be run again
+const LOCK_CONFLICT_ERRORS = ['ER_LOCK_DEADLOCK', 'ER_LOCK_WAIT_TIMEOUT'];
+
 export class MySQLDatabase {
   private config: MySQLConfig;
   private pool: mysql.Pool;
@@ -120,6 +283,7 @@ export class MySQLDatabase {
     }
     
     const columns = Object.keys(mappedData);
+    assertIdentifiers(table, ...columns);
     const values = Object.values(mappedData);
     const placeholders = columns.map(() => '?').join(', ');
     
@@ -149,6 +313,7 @@ export class MySQLDatabase {
       });
     }
     
+    assertIdentifiers(table, ...Object.keys(mappedData), ...Object.keys(mappedWhere));
     const setColumns = Object.keys(mappedData).map(col => `${col} = ?`).join(', ');
     const whereColumns = Object.keys(mappedWhere).map(col => `${col} = ?`).join(' AND ');
     
@@ -160,6 +325,7 @@ export class MySQLDatabase {
   }
 
   async delete(table: string, where: Record<string, any>): Promise<number> {
+    assertIdentifiers(table, ...Object.keys(where));
     const whereColumns = Object.keys(where).map(col => `${col} = ?`).join(' AND ');
     const sql = `DELETE FROM ${table} WHERE ${whereColumns}`;
     const values = Object.values(where);
@@ -168,6 +334,379 @@ export class MySQLDatabase {
     return (result[0] as any).affectedRows;
   }
 
+  /**
+   * Writes rows with multi-row INSERT ... ON DUPLICATE KEY UPDATE, one transaction per
+   * chunk. A chunk that deadlocks with a concurrent writer is retried; a chunk that still
+   * fails is rolled back and its rows reported as failed, and the other chunks are still written.
+   *
+   * Whether a row was inserted or updated comes from the caller's existingKeys rather
+   * than a locking read, whose gap locks deadlock concurrent jobs writing new keys.
+   * @param table - Table to write to
+   * @param rows - Column-keyed rows; every row must have the same columns, including the key column
+   * @param options - Key and id columns, columns to keep or overwrite on existing rows, and the chunk size
+   * @returns One result per row, in input order
+   */
+  async bulkUpsert(
+    table: string,
+    rows: Record<string, any>[],
+    options: BulkUpsertOptions
+  ): Promise<BulkUpsertResult[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const {
+      keyColumn,
+      idColumn,
+      immutableColumns = [],
+      updateColumns,
+      existingKeys = [],
+      chunkSize = BULK_WRITE_CHUNK_SIZE,
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error(`Invalid bulk write chunk size: ${chunkSize}`);
+    }
+
+    const columns = Object.keys(rows[0]);
+    assertIdentifiers(table, keyColumn, idColumn, ...columns);
+    if (!columns.includes(keyColumn)) {
+      throw new Error(`Bulk upsert rows for ${table} must include the key column ${keyColumn}`);
+    }
+    rows.forEach(row => {
+      const rowColumns = Object.keys(row);
+      if (rowColumns.length !== columns.length || !rowColumns.every(column => columns.includes(column))) {
+        throw new Error(`Bulk upsert rows for ${table} must all have the same columns`);
+      }
+    });
+
+    const unknownUpdate = updateColumns?.find(column => !columns.includes(column));
+    if (unknownUpdate !== undefined) {
+      throw new Error(`Bulk upsert update column ${unknownUpdate} is not among the columns written to ${table}`);
+    }
+
+    // With nothing left to update, a no-op assignment keeps existing rows as they are
+    const assigned = (updateColumns || columns)
+      .filter(column => column !== keyColumn && !immutableColumns.includes(column));
+    const assignments = (assigned.length > 0 ? assigned : [keyColumn])
+      .map(column => `${column} = VALUES(${column})`)
+      .join(', ');
+    const rowPlaceholders = `(${columns.map(() => '?').join(', ')})`;
+    const results: BulkUpsertResult[] = [];
+
+    // A key repeated within the input updates the row its first occurrence inserted
+    const seenKeys = new Set(existingKeys);
+
+    for (const chunk of chunked(rows, chunkSize)) {
+      const keys = chunk.map(row => String(row[keyColumn]));
+      const keyPlaceholders = keys.map(() => '?').join(', ');
+
+      try {
+        const ids = await this.withLockRetries(`Bulk upsert into ${table}`, () => this.transaction(async connection => {
+          await connection.execute(
+            `INSERT INTO ${table} (${columns.join(', ')})
+             VALUES ${chunk.map(() => rowPlaceholders).join(', ')}
+             ON DUPLICATE KEY UPDATE ${assignments}`,
+            chunk.flatMap(row => columns.map(column => row[column]))
+          );
+
+          const [idRows] = await connection.execute(
+            `SELECT ${idColumn}, ${keyColumn} FROM ${table} WHERE ${keyColumn} IN (${keyPlaceholders})`,
+            keys
+          );
+          return new Map((idRows as any[]).map(row => [String(row[keyColumn]), row[idColumn]]));
+        }));
+
+        results.push(...keys.map(key => {
+          const outcome: BulkWriteOutcome = seenKeys.has(key) ? 'updated' : 'inserted';
+          seenKeys.add(key);
+          return { key, id: ids.get(key) ?? null, outcome };
+        }));
+      } catch (error) {
+        console.error(`❌ Bulk upsert of ${chunk.length} rows into ${table} failed:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        results.push(...keys.map(key => ({ key, id: null, outcome: 'failed' as const, error: message })));
+      }
+    }
+
+    return results;
+  }
+
+  async insertScholarshipHistory(entries: ScholarshipHistoryEntry[]): Promise<number> {
+    let inserted = 0;
+
+    for (const chunk of chunked(entries, BULK_WRITE_CHUNK_SIZE)) {
+      const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?)').join(', ');
+      const values = chunk.flatMap(entry => [
+        entry.scholarshipId,
+        entry.fieldName,
+        entry.previousValue,
+        entry.newValue,
+        entry.jobId,
+        entry.source,
+      ]);
+
+      const sql = `INSERT INTO scholarship_history (scholarship_id, field_name, previous_value, new_value, job_id, source) VALUES ${placeholders}`;
+      const result = await this.pool.execute(sql, values);
+      inserted += (result[0] as any).affectedRows;
+    }
+
+    return inserted;
+  }
+
+  async getScholarshipHistory(scholarshipId: number): Promise<ScholarshipHistoryRecord[]> {
+    const rows = await this.query(
+      'SELECT * FROM scholarship_history WHERE scholarship_id = ? ORDER BY changed_at DESC, history_id DESC',
+      [scholarshipId]
+    );
+
+    return rows.map((row: any) => ({
+      historyId: row.history_id,
+      scholarshipId: row.scholarship_id,
+      fieldName: row.field_name,
+      previousValue: row.previous_value,
+      newValue: row.new_value,
+      jobId: row.job_id,
+      source: row.source,
+      changedAt: row.changed_at,
+    }));
+  }
+
+  async recordScholarshipSource(entry: ScholarshipSourceEntry): Promise<void> {
+    await this.recordScholarshipSources([entry]);
+  }
+
+  async recordScholarshipSources(entries: ScholarshipSourceEntry[]): Promise<void> {
+    for (const chunk of chunked(entries, BULK_WRITE_CHUNK_SIZE)) {
+      const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ');
+      const values = chunk.flatMap(entry => [
+        entry.scholarshipId,
+        entry.fingerprint,
+        entry.source,
+        entry.sourceName,
+        entry.sourceUrl,
+        entry.matchScore,
+        entry.jobId,
+      ]);
+
+      const sql = `
+        INSERT INTO scholarship_sources (scholarship_id, fingerprint, source, source_name, source_url, match_score, job_id)
+        VALUES ${placeholders}
+        ON DUPLICATE KEY UPDATE
+          scholarship_id = VALUES(scholarship_id),
+          source_name = VALUES(source_name),
+          source_url = VALUES(source_url),
+          match_score = VALUES(match_score),
+          job_id = VALUES(job_id),
+          last_seen_at = CURRENT_TIMESTAMP
+      `;
+      await this.pool.execute(sql, values);
+    }
+  }
+
+  async getScholarshipSources(scholarshipId: number): Promise<ScholarshipSourceEntry[]> {
+    const rows = await this.query(
+      'SELECT * FROM scholarship_sources WHERE scholarship_id = ? ORDER BY first_seen_at',
+      [scholarshipId]
+    );
+
+    return rows.map((row: any) => ({
+      scholarshipId: row.scholarship_id,
+      fingerprint: row.fingerprint,
+      source: row.source,
+      sourceName: row.source_name,
+      sourceUrl: row.source_url,
+      matchScore: Number(row.match_score),
+      jobId: row.job_id,
+    }));
+  }
+
+  async recordFieldProvenance(entries: FieldProvenanceEntry[]): Promise<void> {
+    for (const chunk of chunked(entries, BULK_WRITE_CHUNK_SIZE)) {
+      const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?)').join(', ');
+      const values = chunk.flatMap(entry => [
+        entry.scholarshipId,
+        entry.fieldName,
+        entry.extractor,
+        entry.confidence,
+        entry.source,
+        entry.jobId,
+      ]);
+
+      const sql = `
+        INSERT INTO scholarship_field_provenance (scholarship_id, field_name, extractor, confidence, source, job_id)
+        VALUES ${placeholders}
+        ON DUPLICATE KEY UPDATE
+          extractor = VALUES(extractor),
+          confidence = VALUES(confidence),
+          source = VALUES(source),
+          job_id = VALUES(job_id),
+          updated_at = CURRENT_TIMESTAMP
+      `;
+      await this.pool.execute(sql, values);
+    }
+  }
+
+  async getFieldProvenance(scholarshipId: number): Promise<FieldProvenanceEntry[]> {
+    const rows = await this.query(
+      'SELECT * FROM scholarship_field_provenance WHERE scholarship_id = ? ORDER BY field_name',
+      [scholarshipId]
+    );
+
+    return rows.map((row: any) => ({
+      scholarshipId: row.scholarship_id,
+      fieldName: row.field_name,
+      extractor: row.extractor,
+      confidence: Number(row.confidence),
+      source: row.source,
+      jobId: row.job_id,
+    }));
+  }
+
+  /**
+   * Replaces a scholarship's rows in the academic level mapping table
+   */
+  async replaceAcademicLevels(scholarshipId: number, levels: AcademicLevel[]): Promise<void> {
+    await this.bulkReplaceAcademicLevels([{ scholarshipId, levels }]);
+  }
+
+  /**
+   * Replaces many scholarships' rows in the academic level mapping table, with one
+   * DELETE and one multi-row INSERT per chunk of scholarships
+   * @param entries - The levels for each scholarship; a later entry for the same scholarship wins
+   */
+  async bulkReplaceAcademicLevels(entries: AcademicLevelsEntry[]): Promise<void> {
+    const byScholarship = new Map(entries.map(entry => [entry.scholarshipId, entry.levels]));
+
+    for (const chunk of chunked(Array.from(byScholarship.entries()), BULK_WRITE_CHUNK_SIZE)) {
+      const ids = chunk.map(([scholarshipId]) => scholarshipId);
+      const rows = chunk.flatMap(([scholarshipId, levels]) => levels.map(level => [scholarshipId, level]));
+
+      await this.withLockRetries('Academic level replacement', () => this.transaction(async connection => {
+        await connection.execute(
+          `DELETE FROM scholarship_academic_levels WHERE scholarship_id IN (${ids.map(() => '?').join(', ')})`,
+          ids
+        );
+        if (rows.length === 0) {
+          return;
+        }
+
+        await connection.execute(
+          `INSERT INTO scholarship_academic_levels (scholarship_id, academic_level) VALUES ${rows.map(() => '(?, ?)').join(', ')}`,
+          rows.flat()
+        );
+      }));
+    }
+  }
+
+  async getAcademicLevels(scholarshipId: number): Promise<AcademicLevel[]> {
+    const rows = await this.query(
+      'SELECT academic_level FROM scholarship_academic_levels WHERE scholarship_id = ?',
+      [scholarshipId]
+    );
+    return ACADEMIC_LEVELS.filter(level => rows.some((row: any) => row.academic_level === level));
+  }
+
+  /**
+   * Replaces a scholarship's rows in the eligibility child tables
+   * (residency states, fields of study and test scores)
+   */
+  async replaceEligibilityCriteria(
+    scholarshipId: number,
+    eligibility: Pick<ParsedEligibility, 'residencyStates' | 'fieldsOfStudy' | 'testScores'>
+  ): Promise<void> {
+    await this.bulkReplaceEligibilityCriteria([{ scholarshipId, eligibility }]);
+  }
+
+  /**
+   * Replaces many scholarships' rows in the eligibility child tables, with one DELETE
+   * and at most one multi-row INSERT per table and chunk of scholarships
+   * @param entries - The criteria for each scholarship; a later entry for the same scholarship wins
+   */
+  async bulkReplaceEligibilityCriteria(entries: EligibilityCriteriaEntry[]): Promise<void> {
+    const byScholarship = new Map(entries.map(entry => [entry.scholarshipId, entry.eligibility]));
+
+    for (const chunk of chunked(Array.from(byScholarship.entries()), BULK_WRITE_CHUNK_SIZE)) {
+      const ids = chunk.map(([scholarshipId]) => scholarshipId);
+      const idPlaceholders = ids.map(() => '?').join(', ');
+      const states = chunk.flatMap(([scholarshipId, eligibility]) =>
+        eligibility.residencyStates.map(state => [scholarshipId, state]));
+      const fields = chunk.flatMap(([scholarshipId, eligibility]) =>
+        eligibility.fieldsOfStudy.map(field => [scholarshipId, field]));
+      const scores = chunk.flatMap(([scholarshipId, eligibility]) =>
+        eligibility.testScores.map(score => [scholarshipId, score.test, score.minScore]));
+
+      await this.withLockRetries('Eligibility criteria replacement', () => this.transaction(async connection => {
+        await connection.execute(`DELETE FROM scholarship_residency_states WHERE scholarship_id IN (${idPlaceholders})`, ids);
+        await connection.execute(`DELETE FROM scholarship_fields_of_study WHERE scholarship_id IN (${idPlaceholders})`, ids);
+        await connection.execute(`DELETE FROM scholarship_test_scores WHERE scholarship_id IN (${idPlaceholders})`, ids);
+
+        if (states.length > 0) {
+          await connection.execute(
+            `INSERT INTO scholarship_residency_states (scholarship_id, state_code)
+             VALUES ${states.map(() => '(?, ?)').join(', ')}`,
+            states.flat()
+          );
+        }
+
+        if (fields.length > 0) {
+          await connection.execute(
+            `INSERT INTO scholarship_fields_of_study (scholarship_id, field_of_study)
+             VALUES ${fields.map(() => '(?, ?)').join(', ')}`,
+            fields.flat()
+          );
+        }
+
+        if (scores.length > 0) {
+          await connection.execute(
+            `INSERT INTO scholarship_test_scores (scholarship_id, test, min_score)
+             VALUES ${scores.map(() => '(?, ?, ?)').join(', ')}`,
+            scores.flat()
+          );
+        }
+      }));
+    }
+  }
+
+  /**
+   * Keyword search over name, description and eligibility using the ft_scholarship_text index.
+   * Every word must match (as a prefix); results are ranked by natural-language relevance.
+   * @param text - Free-text keywords, e.g. "nursing Ohio"
+   * @returns Matches with highlighted snippets; empty when every word is a stopword or too short to be indexed
+   */
+  async searchScholarships(text: string, options: FullTextSearchOptions = {}): Promise<FullTextSearchResult[]> {
+    const booleanQuery = SearchUtils.toBooleanQuery(text);
+    if (!booleanQuery) {
+      return [];
+    }
+
+    const limit = Math.max(1, Math.floor(options.limit ?? 20));
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+    const match = SearchUtils.matchExpression();
+
+    // LIMIT values are validated integers; prepared statements reject them as parameters
+    const rows = await this.query(
+      `SELECT scholarship_id, name, organization, url, deadline, description, eligibility,
+              ${match} AGAINST (? IN NATURAL LANGUAGE MODE) AS relevance
+       FROM scholarships
+       WHERE ${match} AGAINST (? IN BOOLEAN MODE)${options.includeInactive ? '' : ' AND is_active = TRUE'}
+       ORDER BY relevance DESC, scholarship_id ASC
+       LIMIT ${limit} OFFSET ${offset}`,
+      [SearchUtils.searchTerms(text).join(' '), booleanQuery]
+    );
+
+    return rows.map((row: any) => ({
+      scholarshipId: row.scholarship_id,
+      name: row.name,
+      organization: row.organization,
+      url: row.url,
+      deadline: row.deadline,
+      relevance: Number(row.relevance),
+      snippet: SearchUtils.buildSnippet(row.description, text)
+        ?? SearchUtils.buildSnippet(row.eligibility, text)
+        ?? SearchUtils.buildSnippet(row.name, text),
+    }));
+  }
+
   async transaction<T>(callback: (connection: mysql.Connection) => Promise<T>): Promise<T> {
     const connection = await this.pool.getConnection();
     
@@ -183,6 +722,24 @@ export class MySQLDatabase {
       connection.release();
     }
   }
+
+  /**
+   * Runs a write again when it lost a lock conflict with a concurrent job; InnoDB rolls
+   * back the victim's whole transaction, so the write can simply be repeated
+   * @param description - What is being written, for the retry log line
+   */
+  private async withLockRetries<T>(description: string, write: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await write();
+      } catch (error: any) {
+        if (!LOCK_CONFLICT_ERRORS.includes(error?.code) || attempt >= BULK_WRITE_LOCK_ATTEMPTS) {
+          throw error;
+        }
+        console.warn(`⚠️ ${description} hit ${error.code}, retrying (attempt ${attempt + 1}/${BULK_WRITE_LOCK_ATTEMPTS})`);
+      }
+    }
+  }
 }
 
 // Factory function to create database instance from environment variables or secrets
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { MySQLDatabase } from './mysql-config';
+import { HttpClient, HttpRequestOptions, httpClient } from './http-client';
+import { PAGE_CACHE_MAX_AGE_MS } from './constants';
+
+/**
+ * A page_cache row in camelCase: what the last fetch of a URL looked like
+ */
+export interface PageCacheEntry {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string; // SHA-256 of the extracted content
+  contextHash: string | null; // SHA-256 of the context the page was parsed with
+  itemCount: number | null; // Items saved from the page; null until markParsed confirms the parse
+  parsedAt: Date;
+  checkedAt: Date;
+}
+
+export interface PageFetchOptions extends HttpRequestOptions {
+  context?: string; // Data from outside the page its parse depends on, e.g. the listing row that links to it
+  extract?: (body: string) => string; // The part of the page whose changes matter; defaults to the whole body
+}
+
+export type PageFetchResult =
+  | { changed: true; url: string; body: string }
+  | { changed: false; entry: PageCacheEntry };
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function fromRow(row: any): PageCacheEntry {
+  return {
+    url: row.url,
+    etag: row.etag,
+    lastModified: row.last_modified,
+    contentHash: row.content_hash,
+    contextHash: row.context_hash,
+    itemCount: row.item_count,
+    parsedAt: new Date(row.parsed_at),
+    checkedAt: new Date(row.checked_at),
+  };
+}
+
+/**
+ * Remembers the validators and content hash of every page a scraper fetches, so a
+ * re-fetch can be made conditional and an unchanged page isn't parsed again.
+ *
+ * A page only counts as unchanged once the caller has confirmed with markParsed that
+ * its items were saved; a run that fails after the fetch parses the page again next time.
+ */
+export class PageCache {
+  private db: MySQLDatabase;
+  private client: HttpClient;
+  private maxAgeMs: number;
+
+  /**
+   * @param maxAgeMs - Pages parsed longer ago than this are parsed again even if unchanged
+   */
+  constructor(db: MySQLDatabase, client: HttpClient = httpClient, maxAgeMs: number = PAGE_CACHE_MAX_AGE_MS) {
+    this.db = db;
+    this.client = client;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  async get(url: string): Promise<PageCacheEntry | null> {
+    const row = await this.db.queryOne('SELECT * FROM page_cache WHERE url_hash = ?', [sha256(url)]);
+    return row ? fromRow(row) : null;
+  }
+
+  /**
+   * Fetches a page, conditionally when a confirmed parse of it is on record
+   * @returns The body when the page needs parsing, or the cached entry when it doesn't
+   * @throws When the final response is neither a 2xx nor a 304
+   */
+  async fetch(url: string, options: PageFetchOptions = {}): Promise<PageFetchResult> {
+    const { context, extract, ...requestOptions } = options;
+    const contextHash = context !== undefined ? sha256(context) : null;
+    const entry = await this.get(url);
+
+    // Only a page parsed recently, with the same context, may be skipped
+    const reusable = entry !== null &&
+      entry.itemCount !== null &&
+      entry.contextHash === contextHash &&
+      Date.now() - entry.parsedAt.getTime() < this.maxAgeMs;
+
+    const headers: Record<string, string> = { ...requestOptions.headers };
+    if (reusable && entry.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (reusable && entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+
+    const response = await this.client.request(url, { ...requestOptions, headers });
+
+    const etag = response.headers['etag'] || null;
+    const lastModified = response.headers['last-modified'] || null;
+
+    if (response.status === 304 && reusable) {
+      await this.touch(url, etag || entry.etag, lastModified || entry.lastModified);
+      return { changed: false, entry };
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    const contentHash = sha256(extract ? extract(response.body) : response.body);
+
+    // Servers without validators still get the page re-sent; its hash shows whether it changed
+    if (reusable && contentHash === entry.contentHash) {
+      await this.touch(url, etag, lastModified);
+      return { changed: false, entry };
+    }
+
+    const now = new Date();
+    const sql = `
+      INSERT INTO page_cache (
+        url_hash, url, etag, last_modified, content_hash, context_hash, item_count, parsed_at, checked_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, NULL, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        etag = VALUES(etag),
+        last_modified = VALUES(last_modified),
+        content_hash = VALUES(content_hash),
+        context_hash = VALUES(context_hash),
+        item_count = NULL,
+        checked_at = VALUES(checked_at)
+    `;
+    await this.db.query(sql, [sha256(url), url, etag, lastModified, contentHash, contextHash, now, now]);
+
+    return { changed: true, url: response.url, body: response.body };
+  }
+
+  /**
+   * Confirms that a changed page was parsed and its items saved, so the next fetch
+   * may skip it while it stays unchanged
+   * @param url - URL the page was fetched with
+   * @param itemCount - Items the page yielded, reported as unchanged when the page is skipped
+   */
+  async markParsed(url: string, itemCount: number): Promise<void> {
+    await this.db.query(
+      'UPDATE page_cache SET item_count = ?, parsed_at = ? WHERE url_hash = ?',
+      [itemCount, new Date(), sha256(url)]
+    );
+  }
+
+  private async touch(url: string, etag: string | null, lastModified: string | null): Promise<void> {
+    await this.db.query(
+      'UPDATE page_cache SET etag = ?, last_modified = ?, checked_at = ? WHERE url_hash = ?',
+      [etag, lastModified, new Date(), sha256(url)]
+    );
+  }
+}
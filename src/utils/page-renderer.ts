@@ -0,0 +1,112 @@
+import type { Browser, HTTPRequest } from 'puppeteer';
+
+export interface RenderOptions {
+  waitForSelector?: string | null; // CSS selector the page must match before its DOM is read
+}
+
+export interface RenderRequest extends RenderOptions {
+  headers: Record<string, string>;
+  timeoutMs: number; // Navigation and waiting together
+}
+
+export interface RenderedPage {
+  url: string; // Final URL after redirects
+  status: number;
+  headers: Record<string, string>;
+  body: string; // The DOM after scripts ran, serialized as HTML
+}
+
+// The parsers only read the DOM, so these are never downloaded
+const BLOCKED_RESOURCE_TYPES = ['image', 'font', 'media'];
+
+/**
+ * Loads pages in a shared headless Chromium and returns their final DOM, for sources
+ * whose content is built by JavaScript. The browser starts on the first render.
+ */
+export class PageRenderer {
+  private browser: Promise<Browser> | null = null;
+
+  async render(url: string, request: RenderRequest): Promise<RenderedPage> {
+    const { 'User-Agent': userAgent, ...headers } = request.headers;
+    const deadline = Date.now() + request.timeoutMs;
+
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+    try {
+      if (userAgent) {
+        await page.setUserAgent(userAgent);
+      }
+
+      await page.setRequestInterception(true);
+      page.on('request', (pageRequest: HTTPRequest) => {
+        if (BLOCKED_RESOURCE_TYPES.includes(pageRequest.resourceType())) {
+          pageRequest.abort();
+        } else if (pageRequest.isNavigationRequest() && pageRequest.frame() === page.mainFrame()) {
+          // Request headers (e.g. conditional ones) belong to the page, not its scripts and styles
+          pageRequest.continue({ headers: { ...pageRequest.headers(), ...headers } });
+        } else {
+          pageRequest.continue();
+        }
+      });
+
+      const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: request.timeoutMs });
+      if (!response) {
+        throw new Error(`No response rendering ${url}`);
+      }
+
+      // Error pages are returned as they are; only a page that loaded has content to wait for
+      if (request.waitForSelector && response.ok()) {
+        await page.waitForSelector(request.waitForSelector, { timeout: Math.max(1, deadline - Date.now()) });
+      }
+
+      return {
+        url: page.url(),
+        status: response.status(),
+        headers: response.headers(),
+        body: await page.content(),
+      };
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Shuts the browser down, if one was started
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await (await browser).close();
+    }
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launching = (async () => {
+        // Loaded on first use, so processes that never render don't load puppeteer
+        const { default: puppeteer } = await import('puppeteer');
+        const browser = await puppeteer.launch({
+          headless: 'new',
+          // Containers run as root without a usable sandbox or a large /dev/shm
+          args: ['--no-sandbox', '--disable-dev-shm-usage'],
+        });
+        browser.on('disconnected', () => {
+          if (this.browser === launching) {
+            this.browser = null;
+          }
+        });
+        return browser;
+      })();
+
+      // A failed launch is retried on the next render
+      launching.catch(() => {
+        if (this.browser === launching) {
+          this.browser = null;
+        }
+      });
+      this.browser = launching;
+    }
+    return this.browser;
+  }
+}
@@ -0,0 +1,68 @@
+export type FieldExtractor =
+  | 'listing_table'
+  | 'detail_page'
+  | 'keyword_heuristic'
+  | 'llm'
+  | 'default';
+
+export interface FieldProvenance {
+  extractor: FieldExtractor;
+  confidence: number;
+}
+
+// Keyed by scholarships column name (e.g. 'min_award')
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
+// Baseline confidence for each extractor when a scraper doesn't give one
+export const EXTRACTOR_CONFIDENCE: Record<FieldExtractor, number> = {
+  detail_page: 0.95,
+  listing_table: 0.9,
+  keyword_heuristic: 0.6,
+  llm: 0.5,
+  default: 0.1,
+};
+
+/**
+ * Records which extractor produced a set of fields
+ * @param provenance - The provenance map to update
+ * @param fields - Column names of the fields the extractor produced
+ * @param extractor - The extractor that produced the values
+ * @param confidence - Optional confidence overriding the extractor baseline
+ * @returns The updated provenance map
+ */
+function annotate(
+  provenance: FieldProvenanceMap,
+  fields: string[],
+  extractor: FieldExtractor,
+  confidence: number = EXTRACTOR_CONFIDENCE[extractor]
+): FieldProvenanceMap {
+  fields.forEach(field => {
+    provenance[field] = { extractor, confidence };
+  });
+  return provenance;
+}
+
+/**
+ * Records provenance only for the fields that actually have a value
+ * (empty strings and zero amounts are skipped)
+ * @param provenance - The provenance map to update
+ * @param values - Object holding the extracted values, keyed by column name
+ * @param extractor - The extractor that produced the values
+ * @returns The updated provenance map
+ */
+function annotateValues(
+  provenance: FieldProvenanceMap,
+  values: Record<string, any>,
+  extractor: FieldExtractor
+): FieldProvenanceMap {
+  const fields = Object.keys(values).filter(field => {
+    const value = values[field];
+    return value !== undefined && value !== null && value !== '' && value !== 0;
+  });
+  return annotate(provenance, fields, extractor);
+}
+
+export const ProvenanceUtils = {
+  annotate,
+  annotateValues,
+};
@@ -0,0 +1,225 @@
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string; // Path prefix; * matches any characters and a trailing $ anchors the end
+}
+
+export interface RobotsGroup {
+  userAgents: string[]; // Lowercased product tokens, or *
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+// The rules that apply to one crawler on one host
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+export type RobotsFetcher = (url: string) => Promise<{ status: number; body: string }>;
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelaySeconds: null };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }], crawlDelaySeconds: null };
+
+// Crawlers only have to read the first 500 KiB (RFC 9309)
+const MAX_ROBOTS_LENGTH = 500 * 1024;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// An unreachable robots.txt disallows everything, but only until the next try
+const UNREACHABLE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Parses a robots.txt file into its user-agent groups. Consecutive User-agent lines
+ * share one group; Sitemap and unknown lines are ignored.
+ */
+function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  text.slice(0, MAX_ROBOTS_LENGTH).split(/\r\n|\r|\n/).forEach(line => {
+    const content = line.replace(/#.*$/, '').trim();
+    const separator = content.indexOf(':');
+    if (separator === -1) {
+      return;
+    }
+
+    const key = content.slice(0, separator).trim().toLowerCase();
+    const value = content.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [], crawlDelaySeconds: null };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+
+    // Rules before the first User-agent line belong to no group
+    if (!current) {
+      return;
+    }
+    collectingAgents = false;
+
+    if ((key === 'allow' || key === 'disallow') && value !== '') {
+      current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelaySeconds = delay;
+      }
+    }
+  });
+
+  return { groups };
+}
+
+/**
+ * Reads the product token robots.txt groups are matched against, e.g.
+ * "ScholarshipBot" from "Mozilla/5.0 (compatible; ScholarshipBot/1.0; +https://...)"
+ */
+function productToken(userAgent: string): string {
+  const compatible = userAgent.match(/compatible;\s*([A-Za-z0-9_-]+)/i);
+  if (compatible) {
+    return compatible[1].toLowerCase();
+  }
+  const first = userAgent.match(/[A-Za-z0-9_-]+/);
+  return first ? first[0].toLowerCase() : '*';
+}
+
+/**
+ * Picks the groups that apply to a crawler: every group naming its product token,
+ * or the * groups when none does
+ */
+function policyFor(robots: RobotsTxt, userAgent: string): RobotsPolicy {
+  const token = productToken(userAgent);
+  let groups = robots.groups.filter(group => group.userAgents.includes(token));
+  if (groups.length === 0) {
+    groups = robots.groups.filter(group => group.userAgents.includes('*'));
+  }
+
+  const delays = groups
+    .map(group => group.crawlDelaySeconds)
+    .filter((delay): delay is number => delay !== null);
+
+  return {
+    rules: groups.flatMap(group => group.rules),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Checks a path against a policy. The longest matching rule wins; on a tie
+ * Allow wins. /robots.txt itself is always allowed.
+ * @param path - Path and query string, e.g. /scholarships?page=2
+ */
+function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best === null || best.allow;
+}
+
+/**
+ * Fetches, caches and evaluates robots.txt per origin for one crawler. The fetcher
+ * is injected, so rules can be checked offline against fixture files.
+ */
+export class RobotsTxtCache {
+  private fetcher: RobotsFetcher;
+  private userAgent: string;
+  private policies = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+  private pending = new Map<string, Promise<RobotsPolicy>>();
+
+  constructor(fetcher: RobotsFetcher, userAgent: string) {
+    this.fetcher = fetcher;
+    this.userAgent = userAgent;
+  }
+
+  /**
+   * @returns The robots policy of the URL's origin, fetching robots.txt when it isn't cached
+   */
+  async policyFor(url: string): Promise<RobotsPolicy> {
+    const origin = new URL(url).origin;
+    const cached = this.policies.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.policy;
+    }
+
+    // Concurrent requests to one origin share a single robots.txt fetch
+    let pending = this.pending.get(origin);
+    if (!pending) {
+      pending = this.load(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, pending);
+    }
+    return pending;
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    const { pathname, search } = new URL(url);
+    return isPathAllowed(await this.policyFor(url), `${pathname}${search}`);
+  }
+
+  /**
+   * Fetches an origin's robots.txt. A missing file (4xx) allows everything; a server
+   * error, rate limiting (429) or no response disallows everything (RFC 9309).
+   */
+  private async load(origin: string): Promise<RobotsPolicy> {
+    let policy: RobotsPolicy;
+    let ttl = ROBOTS_TTL_MS;
+
+    try {
+      const { status, body } = await this.fetcher(`${origin}/robots.txt`);
+      if (status >= 200 && status < 300) {
+        policy = policyFor(parseRobotsTxt(body), this.userAgent);
+      } else if (status >= 400 && status < 500 && status !== 429) {
+        policy = ALLOW_ALL;
+      } else {
+        console.warn(`🤖 robots.txt for ${origin} returned HTTP ${status}; treating the site as disallowed`);
+        policy = DISALLOW_ALL;
+        ttl = UNREACHABLE_TTL_MS;
+      }
+    } catch (error) {
+      console.warn(`🤖 Could not fetch robots.txt for ${origin}; treating the site as disallowed:`, error instanceof Error ? error.message : error);
+      policy = DISALLOW_ALL;
+      ttl = UNREACHABLE_TTL_MS;
+    }
+
+    this.policies.set(origin, { policy, expiresAt: Date.now() + ttl });
+    return policy;
+  }
+}
+
+export const RobotsUtils = {
+  parseRobotsTxt,
+  productToken,
+  policyFor,
+  isPathAllowed,
+};
@@ -128,6 +128,35 @@ export class S3Utils {
     };
   }
 
+  /**
+   * Store a JSON document at a fixed key, overwriting any previous version
+   */
+  async putJson(s3Key: string, data: unknown): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: s3Key,
+      Body: JSON.stringify(data, null, 2),
+      ContentType: 'application/json',
+    });
+
+    await this.s3Client.send(command);
+  }
+
+  /**
+   * Retrieve a JSON document, or null if the key does not exist
+   */
+  async getJson<T>(s3Key: string): Promise<T | null> {
+    try {
+      const { content } = await this.getRawData(s3Key);
+      return JSON.parse(content) as T;
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Delete raw data from S3
    */
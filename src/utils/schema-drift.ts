@@ -0,0 +1,200 @@
+import { MySQLDatabase, ScholarshipRecord, SCHOLARSHIP_FIELD_MAPPING } from './mysql-config';
+import { DeadlineKind } from './deadline-utils';
+import { AwardPeriod, NON_MONETARY_AWARDS } from './amount-utils';
+import { CITIZENSHIP_REQUIREMENTS, ENROLLMENT_STATUSES, MILITARY_AFFILIATIONS } from './eligibility-utils';
+
+export type ColumnKind = 'integer' | 'decimal' | 'string' | 'boolean' | 'date' | 'datetime' | 'enum' | 'set' | 'json';
+
+export interface ExpectedColumn {
+  kind: ColumnKind;
+  values?: readonly string[]; // Allowed ENUM/SET values
+}
+
+export type SchemaDriftKind = 'unmapped_field' | 'untyped_field' | 'missing_column' | 'extra_column' | 'wrong_type';
+
+export interface SchemaDrift {
+  kind: SchemaDriftKind;
+  field: string | null; // camelCase field, when the drift involves one
+  column: string | null;
+  expected: string | null;
+  actual: string | null;
+}
+
+const DEADLINE_KINDS: DeadlineKind[] = ['fixed', 'recurring', 'rolling', 'varies', 'unknown'];
+const AWARD_PERIODS: AwardPeriod[] = ['one_time', 'per_year', 'per_semester'];
+
+/**
+ * The MySQL type each ScholarshipRecord field is stored as. Typed against the record,
+ * so adding a field without a column type fails to compile.
+ */
+export const SCHOLARSHIP_COLUMN_TYPES: Record<keyof ScholarshipRecord, ExpectedColumn> = {
+  scholarshipId: { kind: 'integer' },
+  fingerprint: { kind: 'string' },
+  name: { kind: 'string' },
+  deadline: { kind: 'date' },
+  deadlineType: { kind: 'enum', values: DEADLINE_KINDS },
+  deadlineText: { kind: 'string' },
+  url: { kind: 'string' },
+  description: { kind: 'string' },
+  eligibility: { kind: 'string' },
+  organization: { kind: 'string' },
+  academicLevel: { kind: 'string' },
+  geographicRestrictions: { kind: 'string' },
+  targetType: { kind: 'enum', values: ['need', 'merit', 'both'] },
+  ethnicity: { kind: 'string' },
+  gender: { kind: 'string' },
+  minAward: { kind: 'decimal' },
+  maxAward: { kind: 'decimal' },
+  awardVaries: { kind: 'boolean' },
+  awardCurrency: { kind: 'string' },
+  awardPeriod: { kind: 'enum', values: AWARD_PERIODS },
+  nonMonetaryAwards: { kind: 'set', values: NON_MONETARY_AWARDS },
+  minGpa: { kind: 'decimal' },
+  citizenship: { kind: 'set', values: CITIZENSHIP_REQUIREMENTS },
+  enrollmentStatus: { kind: 'set', values: ENROLLMENT_STATUSES },
+  firstGeneration: { kind: 'boolean' },
+  militaryAffiliation: { kind: 'set', values: MILITARY_AFFILIATIONS },
+  disability: { kind: 'boolean' },
+  renewable: { kind: 'boolean' },
+  country: { kind: 'string' },
+  applyUrl: { kind: 'string' },
+  isActive: { kind: 'boolean' },
+  essayRequired: { kind: 'boolean' },
+  recommendationsRequired: { kind: 'boolean' },
+  createdAt: { kind: 'datetime' },
+  updatedAt: { kind: 'datetime' },
+  source: { kind: 'string' },
+  jobId: { kind: 'string' },
+};
+
+interface LiveColumn {
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  COLUMN_TYPE: string;
+}
+
+/**
+ * Maps an INFORMATION_SCHEMA column to the kind of value the code reads from it
+ */
+function columnKind(column: LiveColumn): ColumnKind | null {
+  const dataType = column.DATA_TYPE.toLowerCase();
+
+  // BOOLEAN is stored as TINYINT(1)
+  if (dataType === 'tinyint' && column.COLUMN_TYPE.toLowerCase().startsWith('tinyint(1)')) return 'boolean';
+  if (['tinyint', 'smallint', 'mediumint', 'int', 'bigint'].includes(dataType)) return 'integer';
+  if (['decimal', 'float', 'double'].includes(dataType)) return 'decimal';
+  if (['char', 'varchar', 'tinytext', 'text', 'mediumtext', 'longtext'].includes(dataType)) return 'string';
+  if (dataType === 'date') return 'date';
+  if (['datetime', 'timestamp'].includes(dataType)) return 'datetime';
+  if (dataType === 'enum' || dataType === 'set' || dataType === 'json') return dataType;
+  return null;
+}
+
+/**
+ * Reads the allowed values from an ENUM('a','b') or SET('a','b') column type
+ */
+function columnValues(columnType: string): string[] {
+  const match = columnType.match(/^(?:enum|set)\((.*)\)$/i);
+  if (!match) {
+    return [];
+  }
+  return Array.from(match[1].matchAll(/'((?:[^']|'')*)'/g), value => value[1].replace(/''/g, "'"));
+}
+
+function describeExpected(expected: ExpectedColumn): string {
+  return expected.values ? `${expected.kind}(${expected.values.join(', ')})` : expected.kind;
+}
+
+/**
+ * Compares the code's view of the scholarships table (ScholarshipRecord column types and
+ * SCHOLARSHIP_FIELD_MAPPING) with the live table
+ * @param columns - The table's INFORMATION_SCHEMA.COLUMNS rows
+ * @returns Every difference found; empty when code and database agree
+ */
+function compareScholarshipSchema(columns: LiveColumn[]): SchemaDrift[] {
+  const drift: SchemaDrift[] = [];
+  const types: Record<string, ExpectedColumn> = SCHOLARSHIP_COLUMN_TYPES;
+  const live = new Map(columns.map(column => [column.COLUMN_NAME, column]));
+
+  // Mapping entries with no declared type (ScholarshipRecord fields are checked by the compiler)
+  Object.entries(SCHOLARSHIP_FIELD_MAPPING).forEach(([field, column]) => {
+    if (!types[field]) {
+      drift.push({ kind: 'untyped_field', field, column, expected: null, actual: null });
+    }
+  });
+
+  Object.entries(types).forEach(([field, expected]) => {
+    const columnName = SCHOLARSHIP_FIELD_MAPPING[field];
+    if (!columnName) {
+      drift.push({ kind: 'unmapped_field', field, column: null, expected: describeExpected(expected), actual: null });
+      return;
+    }
+
+    const column = live.get(columnName);
+    if (!column) {
+      drift.push({ kind: 'missing_column', field, column: columnName, expected: describeExpected(expected), actual: null });
+      return;
+    }
+
+    const kind = columnKind(column);
+    const values = columnValues(column.COLUMN_TYPE);
+    const valuesMatch = !expected.values || (
+      values.length === expected.values.length && expected.values.every(value => values.includes(value))
+    );
+    if (kind !== expected.kind || !valuesMatch) {
+      drift.push({ kind: 'wrong_type', field, column: columnName, expected: describeExpected(expected), actual: column.COLUMN_TYPE });
+    }
+  });
+
+  const mappedColumns = new Set(Object.values(SCHOLARSHIP_FIELD_MAPPING));
+  columns.forEach(column => {
+    if (!mappedColumns.has(column.COLUMN_NAME)) {
+      drift.push({ kind: 'extra_column', field: null, column: column.COLUMN_NAME, expected: null, actual: column.COLUMN_TYPE });
+    }
+  });
+
+  return drift;
+}
+
+/**
+ * Checks the live scholarships table against the code's field mapping and column types
+ * @returns Every difference found; empty when code and database agree
+ */
+async function checkScholarshipSchema(db: MySQLDatabase): Promise<SchemaDrift[]> {
+  const columns = await db.query<LiveColumn>(
+    `SELECT COLUMN_NAME, DATA_TYPE, COLUMN_TYPE FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'scholarships'
+     ORDER BY ORDINAL_POSITION`
+  );
+  if (columns.length === 0) {
+    throw new Error('Table scholarships does not exist; run the schema migrations first');
+  }
+  return compareScholarshipSchema(columns);
+}
+
+/**
+ * Formats drift as a diff: "-" for what the code expects but the database lacks,
+ * "+" for what the database has but the code doesn't know about, "~" for mismatches
+ */
+function formatDrift(drift: SchemaDrift[]): string {
+  return drift.map(entry => {
+    switch (entry.kind) {
+      case 'unmapped_field':
+        return `- ${entry.field}: no column in SCHOLARSHIP_FIELD_MAPPING (expected ${entry.expected})`;
+      case 'untyped_field':
+        return `+ ${entry.field} -> ${entry.column}: mapped but missing from ScholarshipRecord`;
+      case 'missing_column':
+        return `- ${entry.column} (${entry.field}): column missing from database, expected ${entry.expected}`;
+      case 'extra_column':
+        return `+ ${entry.column} ${entry.actual}: column not mapped to any field`;
+      case 'wrong_type':
+        return `~ ${entry.column} (${entry.field}): expected ${entry.expected}, database has ${entry.actual}`;
+    }
+  }).join('\n');
+}
+
+export const SchemaDriftUtils = {
+  compareScholarshipSchema,
+  checkScholarshipSchema,
+  formatDrift,
+};
@@ -0,0 +1,403 @@
+import { MySQLDatabase } from './mysql-config';
+import { AcademicLevel, AcademicLevelUtils } from './academic-level-utils';
+import {
+  CitizenshipRequirement,
+  EligibilityUtils,
+  EnrollmentStatus,
+  FieldOfStudy,
+  FIELDS_OF_STUDY,
+  MilitaryAffiliation,
+  StandardizedTest,
+  TestScoreRequirement
+} from './eligibility-utils';
+
+export interface StudentProfile {
+  state?: string; // USPS code or state name
+  gpa?: number;
+  majors?: string[]; // Free text ("Mechanical Engineering") or FIELDS_OF_STUDY values
+  academicLevel?: string; // Free text ("College Junior") or an ACADEMIC_LEVELS value
+  citizenship?: CitizenshipRequirement;
+  enrollmentStatus?: EnrollmentStatus;
+  firstGeneration?: boolean;
+  militaryAffiliation?: MilitaryAffiliation[];
+  disability?: boolean;
+  gender?: string;
+  ethnicity?: string;
+  financialNeed?: boolean;
+  testScores?: Partial<Record<StandardizedTest, number>>;
+}
+
+export type MatchCriterion =
+  | 'residency'
+  | 'gpa'
+  | 'citizenship'
+  | 'academic_level'
+  | 'enrollment_status'
+  | 'first_generation'
+  | 'military'
+  | 'disability'
+  | 'gender'
+  | 'test_scores'
+  | 'field_of_study'
+  | 'ethnicity'
+  | 'financial_need'
+  | 'award'
+  | 'deadline';
+
+export interface MatchReason {
+  criterion: MatchCriterion;
+  // Hard constraints exclude the scholarship when they fail; soft preferences only move the score
+  kind: 'hard' | 'soft';
+  outcome: 'met' | 'failed' | 'unknown'; // Unknown: the profile doesn't say, so the constraint wasn't applied
+  points: number; // Contribution to the score; met hard constraints count as targeted restrictions
+  detail: string;
+}
+
+export interface ScholarshipMatch {
+  scholarshipId: number;
+  name: string;
+  url: string;
+  deadline: string | null; // YYYY-MM-DD
+  deadlineType: string;
+  minAward: number | null; // Null when the award gives no lower bound
+  maxAward: number | null; // Null when the award gives no upper bound
+  awardVaries: boolean;
+  awardCurrency: string;
+  eligible: boolean;
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface MatchOptions {
+  limit?: number;
+  includeExcluded?: boolean; // Also return scholarships a hard constraint ruled out
+  reference?: Date; // "Today" for deadline urgency
+}
+
+// Scholarship as loaded for matching: the scholarships row plus its child-table criteria
+interface MatchCandidate {
+  row: Record<string, any>;
+  academicLevels: AcademicLevel[];
+  residencyStates: string[];
+  fieldsOfStudy: FieldOfStudy[];
+  testScores: TestScoreRequirement[];
+}
+
+// Profile after free text has been mapped into the scholarship vocabularies
+interface NormalizedProfile extends StudentProfile {
+  stateCode?: string;
+  levels: AcademicLevel[];
+  fields: FieldOfStudy[];
+}
+
+export const DEFAULT_MATCH_LIMIT = 25;
+
+const SOFT_POINTS = {
+  fieldMatch: 20,
+  fieldMismatch: -15,
+  ethnicityMatch: 10,
+  ethnicityMismatch: -10,
+  financialNeedMatch: 10,
+  targetedRestriction: 5, // A met restriction narrows the applicant pool
+  maxAward: 20, // Reached by awards of AWARD_POINTS_CEILING or more
+  deadlineSoon: 5,
+};
+
+const AWARD_POINTS_CEILING = 50000;
+const DEADLINE_SOON_DAYS = 60;
+
+function splitSet(value: any): string[] {
+  return typeof value === 'string' && value !== '' ? value.split(',') : [];
+}
+
+function toAmount(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function formatDate(value: any): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function hard(criterion: MatchCriterion, outcome: MatchReason['outcome'], detail: string): MatchReason {
+  return { criterion, kind: 'hard', outcome, points: outcome === 'met' ? SOFT_POINTS.targetedRestriction : 0, detail };
+}
+
+function soft(criterion: MatchCriterion, points: number, detail: string): MatchReason {
+  return { criterion, kind: 'soft', outcome: points >= 0 ? 'met' : 'failed', points, detail };
+}
+
+function normalizeMajors(majors: string[]): FieldOfStudy[] {
+  const known = majors.filter((major): major is FieldOfStudy => (FIELDS_OF_STUDY as readonly string[]).includes(major));
+  const freeText = majors.filter(major => !known.includes(major as FieldOfStudy));
+  const parsed = freeText.length > 0 ? EligibilityUtils.parseEligibility(freeText.join(', ')).fieldsOfStudy : [];
+
+  return FIELDS_OF_STUDY.filter(field => known.includes(field) || parsed.includes(field));
+}
+
+function normalizeProfile(profile: StudentProfile): NormalizedProfile {
+  const state = profile.state?.trim();
+  const stateCode = state
+    ? (/^[A-Za-z]{2}$/.test(state) ? state.toUpperCase() : EligibilityUtils.parseEligibility(state).residencyStates[0])
+    : undefined;
+
+  return {
+    ...profile,
+    stateCode,
+    levels: AcademicLevelUtils.normalizeAcademicLevels(profile.academicLevel),
+    fields: normalizeMajors(profile.majors || []),
+  };
+}
+
+/**
+ * Checks one scholarship against a profile. Restrictions the scholarship doesn't state
+ * are skipped, and restrictions the profile has no answer for are reported as unknown
+ * rather than failed, so incomplete profiles still see everything they might qualify for.
+ */
+function evaluateCandidate(profile: NormalizedProfile, candidate: MatchCandidate, reference: Date): ScholarshipMatch {
+  const { row } = candidate;
+  const reasons: MatchReason[] = [];
+
+  // Hard constraints
+  if (candidate.residencyStates.length > 0) {
+    const states = candidate.residencyStates.join(', ');
+    if (!profile.stateCode) {
+      reasons.push(hard('residency', 'unknown', `Restricted to ${states}`));
+    } else if (candidate.residencyStates.includes(profile.stateCode)) {
+      reasons.push(hard('residency', 'met', `Open to residents of ${profile.stateCode}`));
+    } else {
+      reasons.push(hard('residency', 'failed', `Restricted to ${states}`));
+    }
+  }
+
+  if (row.min_gpa !== null && row.min_gpa !== undefined) {
+    const minGpa = Number(row.min_gpa);
+    if (profile.gpa === undefined) {
+      reasons.push(hard('gpa', 'unknown', `Requires a ${minGpa.toFixed(2)} GPA`));
+    } else {
+      reasons.push(hard(
+        'gpa',
+        profile.gpa >= minGpa ? 'met' : 'failed',
+        `Requires a ${minGpa.toFixed(2)} GPA; profile has ${profile.gpa.toFixed(2)}`
+      ));
+    }
+  }
+
+  const citizenship = splitSet(row.citizenship);
+  if (citizenship.length > 0) {
+    if (!profile.citizenship) {
+      reasons.push(hard('citizenship', 'unknown', `Open to ${citizenship.join(', ')}`));
+    } else {
+      reasons.push(hard(
+        'citizenship',
+        citizenship.includes(profile.citizenship) ? 'met' : 'failed',
+        `Open to ${citizenship.join(', ')}; profile is ${profile.citizenship}`
+      ));
+    }
+  }
+
+  if (candidate.academicLevels.length > 0) {
+    const levels = candidate.academicLevels.join(', ');
+    if (profile.levels.length === 0) {
+      reasons.push(hard('academic_level', 'unknown', `For ${levels}`));
+    } else {
+      const met = profile.levels.some(level => candidate.academicLevels.includes(level));
+      reasons.push(hard('academic_level', met ? 'met' : 'failed', `For ${levels}; profile is ${profile.levels.join(', ')}`));
+    }
+  }
+
+  const enrollment = splitSet(row.enrollment_status);
+  if (enrollment.length > 0) {
+    if (!profile.enrollmentStatus) {
+      reasons.push(hard('enrollment_status', 'unknown', `Requires ${enrollment.join(' or ')} enrollment`));
+    } else {
+      reasons.push(hard(
+        'enrollment_status',
+        enrollment.includes(profile.enrollmentStatus) ? 'met' : 'failed',
+        `Requires ${enrollment.join(' or ')} enrollment; profile is ${profile.enrollmentStatus}`
+      ));
+    }
+  }
+
+  if (Number(row.first_generation) === 1) {
+    const outcome = profile.firstGeneration === undefined ? 'unknown' : profile.firstGeneration ? 'met' : 'failed';
+    reasons.push(hard('first_generation', outcome, 'For first-generation college students'));
+  }
+
+  const military = splitSet(row.military_affiliation);
+  if (military.length > 0) {
+    if (!profile.militaryAffiliation) {
+      reasons.push(hard('military', 'unknown', `For ${military.join(', ')}`));
+    } else {
+      const met = profile.militaryAffiliation.some(affiliation => military.includes(affiliation));
+      reasons.push(hard('military', met ? 'met' : 'failed', `For ${military.join(', ')}`));
+    }
+  }
+
+  if (Number(row.disability) === 1) {
+    const outcome = profile.disability === undefined ? 'unknown' : profile.disability ? 'met' : 'failed';
+    reasons.push(hard('disability', outcome, 'For students with disabilities'));
+  }
+
+  const gender = String(row.gender || '').toLowerCase();
+  if (gender === 'female' || gender === 'male') {
+    if (!profile.gender) {
+      reasons.push(hard('gender', 'unknown', `For ${gender} students`));
+    } else {
+      reasons.push(hard('gender', profile.gender.toLowerCase() === gender ? 'met' : 'failed', `For ${gender} students`));
+    }
+  }
+
+  // Listed tests are usually alternatives ("SAT 1200 or ACT 25"): meeting any one is enough
+  const scoredTests = candidate.testScores.filter(requirement => requirement.minScore !== null);
+  if (scoredTests.length > 0) {
+    const required = scoredTests.map(requirement => `${requirement.test} ${requirement.minScore}`).join(' or ');
+    const taken = scoredTests.filter(requirement => profile.testScores?.[requirement.test] !== undefined);
+    if (taken.length === 0) {
+      reasons.push(hard('test_scores', 'unknown', `Requires ${required}`));
+    } else {
+      const met = taken.some(requirement => profile.testScores![requirement.test]! >= requirement.minScore!);
+      reasons.push(hard('test_scores', met ? 'met' : 'failed', `Requires ${required}`));
+    }
+  }
+
+  // Soft preferences: the parsed values behind these are heuristic, so they rank rather than exclude
+  if (candidate.fieldsOfStudy.length > 0 && profile.fields.length > 0) {
+    const shared = profile.fields.filter(field => candidate.fieldsOfStudy.includes(field));
+    reasons.push(shared.length > 0
+      ? soft('field_of_study', SOFT_POINTS.fieldMatch, `For ${shared.join(', ')} students`)
+      : soft('field_of_study', SOFT_POINTS.fieldMismatch, `For ${candidate.fieldsOfStudy.join(', ')} students`));
+  }
+
+  const ethnicity = String(row.ethnicity || '').toLowerCase();
+  if (ethnicity && ethnicity !== 'unspecified' && profile.ethnicity) {
+    const profileEthnicity = profile.ethnicity.toLowerCase();
+    reasons.push(ethnicity.includes(profileEthnicity) || profileEthnicity.includes(ethnicity)
+      ? soft('ethnicity', SOFT_POINTS.ethnicityMatch, `Aimed at ${ethnicity} students`)
+      : soft('ethnicity', SOFT_POINTS.ethnicityMismatch, `Aimed at ${ethnicity} students`));
+  }
+
+  if (row.target_type === 'need' && profile.financialNeed) {
+    reasons.push(soft('financial_need', SOFT_POINTS.financialNeedMatch, 'Need-based award'));
+  }
+
+  // An award of unknown size earns no points, but isn't scored as a $0 award either
+  const minAward = toAmount(row.min_award);
+  const maxAward = toAmount(row.max_award);
+  const largestAward = maxAward ?? minAward;
+  if (largestAward !== null && largestAward > 0) {
+    const points = Math.round(SOFT_POINTS.maxAward * Math.min(1, Math.log10(largestAward) / Math.log10(AWARD_POINTS_CEILING)) * 10) / 10;
+    const amount = `${largestAward.toLocaleString('en-US')} ${row.award_currency || 'USD'}`;
+    reasons.push(soft('award', points, maxAward !== null ? `Up to ${amount}` : `At least ${amount}`));
+  }
+
+  const deadline = formatDate(row.deadline);
+  if (deadline) {
+    const daysLeft = Math.ceil((new Date(`${deadline}T23:59:59`).getTime() - reference.getTime()) / 86400000);
+    if (daysLeft >= 0 && daysLeft <= DEADLINE_SOON_DAYS) {
+      reasons.push(soft('deadline', SOFT_POINTS.deadlineSoon, `Deadline in ${daysLeft} day(s)`));
+    }
+  }
+
+  const eligible = !reasons.some(reason => reason.kind === 'hard' && reason.outcome === 'failed');
+  const score = Math.round(reasons.reduce((total, reason) => total + reason.points, 0) * 10) / 10;
+
+  return {
+    scholarshipId: row.scholarship_id,
+    name: row.name,
+    url: row.apply_url || row.url || '',
+    deadline,
+    deadlineType: row.deadline_type || 'unknown',
+    minAward,
+    maxAward,
+    awardVaries: Boolean(row.award_varies),
+    awardCurrency: row.award_currency || 'USD',
+    eligible,
+    score,
+    reasons,
+  };
+}
+
+/**
+ * Ranks active scholarships for a student profile using the structured
+ * eligibility, deadline and award fields stored by the scrapers
+ */
+export class ScholarshipMatcher {
+  private db: MySQLDatabase;
+
+  constructor(db: MySQLDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Finds the scholarships a student qualifies for, best matches first
+   * @param profile - The student's state, GPA, majors, level and demographics
+   * @param options - Result limit, whether to include excluded scholarships, and the reference date
+   * @returns Matches with every hard constraint and soft preference that applied
+   */
+  async match(profile: StudentProfile, options: MatchOptions = {}): Promise<ScholarshipMatch[]> {
+    const reference = options.reference || new Date();
+    const normalized = normalizeProfile(profile);
+    const candidates = await this.loadCandidates();
+
+    const matches = candidates
+      .map(candidate => evaluateCandidate(normalized, candidate, reference))
+      .filter(match => options.includeExcluded || match.eligible)
+      .sort((a, b) =>
+        Number(b.eligible) - Number(a.eligible)
+        || b.score - a.score
+        || (a.deadline || '9999-12-31').localeCompare(b.deadline || '9999-12-31')
+      );
+
+    return matches.slice(0, options.limit ?? DEFAULT_MATCH_LIMIT);
+  }
+
+  /**
+   * Loads active scholarships whose deadline hasn't passed, with their child-table criteria.
+   * Recurring deadlines never expire here; they roll over to the next year.
+   */
+  private async loadCandidates(): Promise<MatchCandidate[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM scholarships
+       WHERE is_active = TRUE
+         AND NOT (deadline_type = 'fixed' AND deadline < CURDATE())`
+    );
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const [levels, states, fields, scores] = await Promise.all([
+      this.db.query('SELECT scholarship_id, academic_level FROM scholarship_academic_levels'),
+      this.db.query('SELECT scholarship_id, state_code FROM scholarship_residency_states'),
+      this.db.query('SELECT scholarship_id, field_of_study FROM scholarship_fields_of_study'),
+      this.db.query('SELECT scholarship_id, test, min_score FROM scholarship_test_scores'),
+    ]);
+
+    const groupBy = <T>(childRows: any[], read: (childRow: any) => T): Map<number, T[]> => {
+      const grouped = new Map<number, T[]>();
+      childRows.forEach(childRow => {
+        const values = grouped.get(childRow.scholarship_id) || [];
+        values.push(read(childRow));
+        grouped.set(childRow.scholarship_id, values);
+      });
+      return grouped;
+    };
+
+    const levelsById = groupBy<AcademicLevel>(levels, childRow => childRow.academic_level);
+    const statesById = groupBy<string>(states, childRow => childRow.state_code);
+    const fieldsById = groupBy<FieldOfStudy>(fields, childRow => childRow.field_of_study);
+    const scoresById = groupBy<TestScoreRequirement>(scores, childRow => ({
+      test: childRow.test,
+      minScore: childRow.min_score === null ? null : Number(childRow.min_score),
+    }));
+
+    return rows.map(row => ({
+      row,
+      academicLevels: levelsById.get(row.scholarship_id) || [],
+      residencyStates: statesById.get(row.scholarship_id) || [],
+      fieldsOfStudy: fieldsById.get(row.scholarship_id) || [],
+      testScores: scoresById.get(row.scholarship_id) || [],
+    }));
+  }
+}
@@ -0,0 +1,213 @@
+import mysql from 'mysql2/promise';
+import {
+  MySQLDatabase,
+  ScholarshipRecord,
+  SCHOLARSHIP_FIELD_MAPPING,
+  BulkWriteOutcome
+} from './mysql-config';
+import { SCHOLARSHIP_COLUMN_TYPES } from './schema-drift';
+
+// A scholarship ready to store; the database assigns the id and timestamps
+export type NewScholarship = Omit<ScholarshipRecord, 'scholarshipId' | 'createdAt' | 'updatedAt'> &
+  Partial<Pick<ScholarshipRecord, 'createdAt' | 'updatedAt'>>;
+
+export interface UpsertResult {
+  scholarshipId: number;
+  inserted: boolean; // False when a scholarship with the same fingerprint was updated
+}
+
+export interface BulkUpsertScholarshipOptions {
+  updateFields?: (keyof ScholarshipRecord)[]; // Fields overwritten on existing scholarships (default: all but the immutable ones)
+  existingFingerprints?: string[]; // Fingerprints already found stored; the others are reported as inserted
+  chunkSize?: number; // Scholarships per statement (default: BULK_WRITE_CHUNK_SIZE)
+}
+
+export interface BulkUpsertScholarshipResult {
+  fingerprint: string;
+  scholarshipId: number | null; // Null when the scholarship's chunk failed
+  outcome: BulkWriteOutcome;
+  error?: string;
+}
+
+// Columns an upsert never overwrites on an existing row
+const IMMUTABLE_FIELDS: (keyof ScholarshipRecord)[] = ['scholarshipId', 'fingerprint', 'createdAt'];
+
+const FIELD_NAMES: Record<string, keyof ScholarshipRecord> = Object.fromEntries(
+  Object.entries(SCHOLARSHIP_FIELD_MAPPING).map(([field, column]) => [column, field as keyof ScholarshipRecord])
+);
+
+/**
+ * Maps record fields to columns, rejecting anything that isn't a known field so
+ * only whitelisted identifiers ever reach the SQL text
+ */
+function toRow(record: Partial<ScholarshipRecord>): Record<string, any> {
+  const row: Record<string, any> = {};
+  Object.entries(record).forEach(([field, value]) => {
+    if (value === undefined) return;
+    if (!Object.prototype.hasOwnProperty.call(SCHOLARSHIP_COLUMN_TYPES, field)) {
+      throw new Error(`Unknown scholarship field: ${field}`);
+    }
+    row[SCHOLARSHIP_FIELD_MAPPING[field]] = value;
+  });
+  return row;
+}
+
+/**
+ * Converts a scholarships row to a record; DECIMAL columns come back from mysql2 as
+ * strings and BOOLEAN columns as 0/1
+ */
+function fromRow(row: Record<string, any>): ScholarshipRecord {
+  const record: Record<string, any> = {};
+  Object.entries(row).forEach(([column, value]) => {
+    const field = FIELD_NAMES[column];
+    if (!field) return;
+
+    const { kind } = SCHOLARSHIP_COLUMN_TYPES[field];
+    if (kind === 'decimal') {
+      record[field] = value === null ? null : Number(value);
+    } else if (kind === 'boolean') {
+      record[field] = Boolean(value);
+    } else {
+      record[field] = value;
+    }
+  });
+  return record as ScholarshipRecord;
+}
+
+/**
+ * Typed access to the scholarships table. Callers work with camelCase records;
+ * the column mapping and identifier checks live here.
+ */
+export class ScholarshipRepository {
+  private db: MySQLDatabase;
+
+  constructor(db: MySQLDatabase) {
+    this.db = db;
+  }
+
+  async findById(scholarshipId: number): Promise<ScholarshipRecord | null> {
+    const row = await this.db.queryOne('SELECT * FROM scholarships WHERE scholarship_id = ?', [scholarshipId]);
+    return row ? fromRow(row) : null;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<ScholarshipRecord | null> {
+    const row = await this.db.queryOne('SELECT * FROM scholarships WHERE fingerprint = ?', [fingerprint]);
+    return row ? fromRow(row) : null;
+  }
+
+  /**
+   * @returns The new scholarship's id
+   */
+  async insert(scholarship: NewScholarship): Promise<number> {
+    return this.db.insert('scholarships', toRow(scholarship));
+  }
+
+  /**
+   * Updates the given fields; updated_at is refreshed by the column default
+   * @returns Whether a scholarship with that id exists
+   */
+  async update(scholarshipId: number, changes: Partial<NewScholarship>): Promise<boolean> {
+    const row = toRow(changes);
+    if (Object.keys(row).length === 0) {
+      return (await this.findById(scholarshipId)) !== null;
+    }
+    return (await this.db.update('scholarships', row, { scholarship_id: scholarshipId })) > 0;
+  }
+
+  /**
+   * Inserts the scholarship, or updates the one with the same fingerprint
+   */
+  async upsert(scholarship: NewScholarship): Promise<UpsertResult> {
+    if (!scholarship.fingerprint) {
+      throw new Error(`Cannot upsert scholarship without a fingerprint: ${scholarship.name}`);
+    }
+
+    return this.db.transaction(async connection => {
+      const [rows] = await connection.execute(
+        'SELECT scholarship_id FROM scholarships WHERE fingerprint = ? FOR UPDATE',
+        [scholarship.fingerprint]
+      );
+      const existing = (rows as any[])[0];
+
+      if (!existing) {
+        return { scholarshipId: await this.insertRow(connection, scholarship), inserted: true };
+      }
+
+      const changes: Partial<NewScholarship> = { ...scholarship };
+      IMMUTABLE_FIELDS.forEach(field => delete (changes as Partial<ScholarshipRecord>)[field]);
+      await this.updateRow(connection, existing.scholarship_id, changes);
+      return { scholarshipId: existing.scholarship_id, inserted: false };
+    });
+  }
+
+  /**
+   * Inserts or updates many scholarships by fingerprint with multi-row statements,
+   * one transaction per chunk
+   * @param scholarships - Scholarships with the same set of fields
+   * @param options - Fields to overwrite on existing scholarships, the fingerprints known to be stored and the chunk size
+   * @returns One result per scholarship, in input order
+   */
+  async bulkUpsert(
+    scholarships: NewScholarship[],
+    options: BulkUpsertScholarshipOptions = {}
+  ): Promise<BulkUpsertScholarshipResult[]> {
+    const missing = scholarships.find(scholarship => !scholarship.fingerprint);
+    if (missing) {
+      throw new Error(`Cannot upsert scholarship without a fingerprint: ${missing.name}`);
+    }
+
+    const results = await this.db.bulkUpsert('scholarships', scholarships.map(toRow), {
+      keyColumn: SCHOLARSHIP_FIELD_MAPPING.fingerprint,
+      idColumn: SCHOLARSHIP_FIELD_MAPPING.scholarshipId,
+      immutableColumns: IMMUTABLE_FIELDS.map(field => SCHOLARSHIP_FIELD_MAPPING[field]),
+      updateColumns: options.updateFields?.map(field => SCHOLARSHIP_FIELD_MAPPING[field]),
+      existingKeys: options.existingFingerprints,
+      chunkSize: options.chunkSize,
+    });
+
+    return results.map(({ key, id, outcome, error }) => ({ fingerprint: key, scholarshipId: id, outcome, error }));
+  }
+
+  /**
+   * Marks active scholarships whose fixed deadline has passed as inactive.
+   * Recurring deadlines roll over to next year, so only fixed dates expire.
+   * @param asOf - Date the deadlines are compared with, YYYY-MM-DD (default: today)
+   * @returns Number of scholarships deactivated
+   */
+  async deactivateExpired(asOf?: string): Promise<number> {
+    const result = await this.db.query(
+      `UPDATE scholarships SET is_active = FALSE
+       WHERE is_active = TRUE AND deadline_type = 'fixed' AND deadline < COALESCE(?, CURDATE())`,
+      [asOf ?? null]
+    );
+    return (result as any).affectedRows ?? 0;
+  }
+
+  private async insertRow(connection: mysql.Connection, scholarship: NewScholarship): Promise<number> {
+    const row = toRow(scholarship);
+    const columns = Object.keys(row);
+    const [result] = await connection.execute(
+      `INSERT INTO scholarships (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      Object.values(row)
+    );
+    return (result as any).insertId;
+  }
+
+  private async updateRow(
+    connection: mysql.Connection,
+    scholarshipId: number,
+    changes: Partial<NewScholarship>
+  ): Promise<boolean> {
+    const row = toRow(changes);
+    const columns = Object.keys(row);
+    if (columns.length === 0) {
+      return true;
+    }
+
+    const [result] = await connection.execute(
+      `UPDATE scholarships SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE scholarship_id = ?`,
+      [...Object.values(row), scholarshipId]
+    );
+    return (result as any).affectedRows > 0;
+  }
+}
@@ -5,6 +5,7 @@ export interface ScrapingMetadata {
   recordsProcessed: number;
   recordsInserted: number;
   recordsUpdated: number;
+  recordsUnchanged: number;
   errors: string[];
 }
 
@@ -29,6 +30,7 @@ export class ScraperResultBuilder {
         totalProcessed: metadata.recordsProcessed,
         totalInserted: metadata.recordsInserted,
         totalUpdated: metadata.recordsUpdated,
+        totalUnchanged: metadata.recordsUnchanged,
       },
     };
   }
@@ -46,6 +48,7 @@ export class ScraperResultBuilder {
         totalProcessed: 0,
         totalInserted: 0,
         totalUpdated: 0,
+        totalUnchanged: 0,
       },
     };
   }
@@ -53,7 +56,7 @@ export class ScraperResultBuilder {
   static async handleScrapingResult(
     scraper: ScraperUtils,
     scholarships: Scholarship[],
-    processResult: { inserted: number; updated: number; errors: string[] },
+    processResult: { inserted: number; updated: number; unchanged: number; errors: string[] },
     additionalErrors: string[] = []
   ): Promise<ScrapingResult> {
     const allErrors = [...processResult.errors, ...additionalErrors];
@@ -63,6 +66,7 @@ export class ScraperResultBuilder {
       recordsProcessed: scholarships.length,
       recordsInserted: processResult.inserted,
       recordsUpdated: processResult.updated,
+      recordsUnchanged: processResult.unchanged,
       errors: allErrors,
     };
 
@@ -85,6 +89,7 @@ export class ScraperResultBuilder {
       recordsProcessed: scholarships.length,
       recordsInserted: 0,
       recordsUpdated: 0,
+      recordsUnchanged: 0,
       errors: allErrors,
     };
 
@@ -0,0 +1,130 @@
+// Columns covered by the scholarships FULLTEXT index; MATCH() must list exactly these
+export const FULLTEXT_COLUMNS = ['name', 'description', 'eligibility'] as const;
+
+export interface SnippetOptions {
+  length?: number; // Approximate snippet length in characters
+  highlightStart?: string;
+  highlightEnd?: string;
+}
+
+// InnoDB's default innodb_ft_min_token_size; shorter words are not indexed
+const MIN_TOKEN_LENGTH = 3;
+
+// InnoDB's default stopword list (INFORMATION_SCHEMA.INNODB_FT_DEFAULT_STOPWORD).
+// A required (+) stopword would make every boolean-mode search return nothing.
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'are', 'as', 'at', 'be', 'by', 'com', 'de', 'en', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'la', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'who', 'will', 'with', 'und', 'www',
+]);
+
+const DEFAULT_SNIPPET_LENGTH = 160;
+
+/**
+ * Splits a keyword search into the words the FULLTEXT index can match.
+ * Boolean-mode operators are dropped, so user input can't change the query's meaning.
+ */
+function searchTerms(text: string | null | undefined): string[] {
+  const words = (text || '')
+    .toLowerCase()
+    .normalize('NFC')
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length >= MIN_TOKEN_LENGTH && !STOPWORDS.has(word));
+
+  return Array.from(new Set(words));
+}
+
+/**
+ * Builds a boolean-mode AGAINST() string requiring every term, with prefix matching
+ * ("nursing Ohio" becomes "+nursing* +ohio*")
+ * @returns The query, or null when no term is long enough to be indexed
+ */
+function toBooleanQuery(text: string | null | undefined): string | null {
+  const terms = searchTerms(text);
+  if (terms.length === 0) {
+    return null;
+  }
+  // A phrase matches "women's" whether or not the parser treats the apostrophe as a delimiter
+  return terms.map(term => (term.includes("'") ? `+"${term}"` : `+${term}*`)).join(' ');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Cuts a window of text around the first search term and highlights every term in it.
+ * The text is HTML-escaped, so the default <mark> tags are safe to render.
+ * @param text - The field to take the snippet from (e.g. description)
+ * @param query - The user's keyword search
+ * @returns The snippet, or null when no term occurs in the text
+ */
+function buildSnippet(text: string | null | undefined, query: string | null | undefined, options: SnippetOptions = {}): string | null {
+  const source = (text || '').replace(/\s+/g, ' ').trim();
+  const terms = searchTerms(query);
+  if (!source || terms.length === 0) {
+    return null;
+  }
+
+  // Terms match as word prefixes, like the index does
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  const first = pattern.exec(source);
+  if (!first) {
+    return null;
+  }
+
+  const length = options.length || DEFAULT_SNIPPET_LENGTH;
+  let start = Math.max(0, first.index - Math.floor(length / 3));
+  let end = Math.min(source.length, start + length);
+  start = Math.max(0, end - length);
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = source.indexOf(' ', start);
+    start = space !== -1 && space < first.index ? space + 1 : start;
+  }
+  if (end < source.length) {
+    const space = source.lastIndexOf(' ', end);
+    end = space > first.index + first[0].length ? space : end;
+  }
+
+  const highlightStart = options.highlightStart ?? '<mark>';
+  const highlightEnd = options.highlightEnd ?? '</mark>';
+  const window = source.slice(start, end);
+
+  let snippet = '';
+  let last = 0;
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(window)) !== null) {
+    snippet += escapeHtml(window.slice(last, match.index)) + highlightStart + escapeHtml(match[0]) + highlightEnd;
+    last = match.index + match[0].length;
+  }
+  snippet += escapeHtml(window.slice(last));
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < source.length ? '…' : ''}`;
+}
+
+/**
+ * Builds the MATCH() expression for the scholarships FULLTEXT index
+ * @param alias - Optional table alias the columns are qualified with
+ */
+function matchExpression(alias?: string): string {
+  return `MATCH(${FULLTEXT_COLUMNS.map(column => (alias ? `${alias}.${column}` : column)).join(', ')})`;
+}
+
+export const SearchUtils = {
+  searchTerms,
+  matchExpression,
+  toBooleanQuery,
+  buildSnippet,
+};
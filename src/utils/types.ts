@@ -1,17 +1,25 @@
 import { Scholarship } from '../shared-types/scholarship.types';
+import { FieldProvenanceMap } from './provenance-utils';
+import { CatalogCoverage } from './crawl-frontier';
+
+export type ScrapingJobStatus = 'pending' | 'running' | 'completed' | 'failed';
 
 export interface ScrapingJob {
   jobId: string;
+  parentJobId?: string; // Orchestrator job that submitted this per-website job
+  childJobIds?: string[]; // Per-website jobs (`${jobId}-${website.name}`)
   startTime: string; // ISO date string
   endTime?: string; // ISO date string
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: ScrapingJobStatus;
   website: string;
   recordsFound: number;
   recordsProcessed: number;
   recordsInserted: number;
   recordsUpdated: number;
+  recordsUnchanged: number;
   errors: string[];
   environment: string;
+  revision?: string; // Replaced on every save, so a read-modify-write can detect a concurrent write
 }
 
 export interface WebsiteConfig {
@@ -39,6 +47,7 @@ export interface ScrapingConfig {
 
 export interface ScrapingResult {
   success: boolean;
+  resumable?: boolean; // Stopped early with progress checkpointed; rerunning the job continues it
   scholarships: Scholarship[];
   errors: string[];
   metadata: {
@@ -46,7 +55,14 @@ export interface ScrapingResult {
     totalProcessed: number;
     totalInserted: number;
     totalUpdated: number;
+    totalUnchanged: number;
   };
+  coverage?: CatalogCoverage; // Listing coverage for scrapers that page through a catalog
 }
 
+// A scholarship as built by a scraper, annotated with where each field came from
+export type ScrapedScholarship = Scholarship & {
+  field_provenance?: FieldProvenanceMap;
+};
+
 export { Scholarship }; 
\ No newline at end of file
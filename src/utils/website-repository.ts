@@ -0,0 +1,96 @@
+import { MySQLDatabase } from './mysql-config';
+
+export type WebsiteType = 'api' | 'crawl' | 'search' | 'discovery';
+
+// How a website's pages are fetched: plain HTTP, or rendered in headless Chromium
+export type FetchMode = 'http' | 'browser';
+
+/**
+ * A websites row in camelCase: one configured source the orchestrator submits jobs for
+ */
+export interface WebsiteRecord {
+  id: string | null;
+  name: string;
+  url: string | null;
+  type: WebsiteType | null;
+  enabled: boolean;
+  scraperClass: string | null; // Registered scraper name; falls back to the website name
+  fetchMode: FetchMode | null; // Null on tables without the column, which fetch over plain HTTP
+  crawlUrl: string | null;
+  selectors: Record<string, any> | null; // Scraper-specific JSON config
+  status: string | null;
+  lastScraped: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Field mapping from camelCase to snake_case for the websites table
+export const WEBSITE_FIELD_MAPPING: Record<keyof WebsiteRecord, string> = {
+  id: 'id',
+  name: 'name',
+  url: 'url',
+  type: 'type',
+  enabled: 'enabled',
+  scraperClass: 'scraper_class',
+  fetchMode: 'fetch_mode',
+  crawlUrl: 'crawl_url',
+  selectors: 'selectors',
+  status: 'status',
+  lastScraped: 'last_scraped',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const FIELD_NAMES: Record<string, keyof WebsiteRecord> = Object.fromEntries(
+  Object.entries(WEBSITE_FIELD_MAPPING).map(([field, column]) => [column, field as keyof WebsiteRecord])
+);
+
+/**
+ * Converts a websites row to a record. Fields the row lacks (older table layouts)
+ * come back as null.
+ */
+function fromRow(row: Record<string, any>): WebsiteRecord {
+  const record: Record<string, any> = Object.fromEntries(Object.keys(WEBSITE_FIELD_MAPPING).map(field => [field, null]));
+
+  Object.entries(row).forEach(([column, value]) => {
+    const field = FIELD_NAMES[column];
+    if (!field) return;
+
+    if (field === 'enabled') {
+      record.enabled = Boolean(value);
+    } else if (field === 'selectors' && typeof value === 'string') {
+      // mysql2 parses JSON columns, but MariaDB stores JSON as LONGTEXT
+      record.selectors = JSON.parse(value);
+    } else {
+      record[field] = value;
+    }
+  });
+
+  return record as WebsiteRecord;
+}
+
+/**
+ * Typed access to the websites table
+ */
+export class WebsiteRepository {
+  private db: MySQLDatabase;
+
+  constructor(db: MySQLDatabase) {
+    this.db = db;
+  }
+
+  async findByName(name: string): Promise<WebsiteRecord | null> {
+    const row = await this.db.queryOne('SELECT * FROM websites WHERE name = ?', [name]);
+    return row ? fromRow(row) : null;
+  }
+
+  async listEnabledWebsites(): Promise<WebsiteRecord[]> {
+    const rows = await this.db.query('SELECT * FROM websites WHERE enabled = TRUE ORDER BY name');
+    return rows.map(fromRow);
+  }
+
+  async listWebsites(): Promise<WebsiteRecord[]> {
+    const rows = await this.db.query('SELECT * FROM websites ORDER BY name');
+    return rows.map(fromRow);
+  }
+}